@@ -0,0 +1,7 @@
+module.exports = {
+  preset: 'ts-jest',
+  testEnvironment: 'node',
+  roots: ['<rootDir>/tests'],
+  testPathIgnorePatterns: ['/node_modules/', '/fixtures/'],
+  setupFilesAfterEnv: ['<rootDir>/tests/setup.ts'],
+};
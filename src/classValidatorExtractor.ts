@@ -0,0 +1,326 @@
+import * as path from 'path';
+import { getCompilerOptions, getSourceFile, resolveExport, resolveIdentifier, ResolvedExport } from './moduleResolver';
+import { evaluateLiteral } from './staticEvaluator';
+import { typeToJsonSchema } from './typeExtractor';
+
+// Try to import TypeScript, fallback gracefully if not available
+let tsModule: typeof import('typescript') | null = null;
+try {
+  tsModule = require('typescript');
+} catch (error) {
+  // TypeScript not available
+}
+
+type TypeScriptModule = typeof import('typescript');
+
+// Decorators that only set a type or format
+const DECORATOR_SCHEMAS: Record<string, Record<string, any>> = {
+  IsString: { type: 'string' },
+  IsNumber: { type: 'number' },
+  IsInt: { type: 'integer' },
+  IsBoolean: { type: 'boolean' },
+  IsDate: { type: 'string', format: 'date-time' },
+  IsDateString: { type: 'string', format: 'date-time' },
+  IsISO8601: { type: 'string', format: 'date-time' },
+  IsEmail: { type: 'string', format: 'email' },
+  IsUUID: { type: 'string', format: 'uuid' },
+  IsUrl: { type: 'string', format: 'uri' },
+  IsIP: { type: 'string', format: 'ipv4' },
+  IsBase64: { type: 'string', format: 'byte' },
+  IsStrongPassword: { type: 'string', format: 'password' },
+  IsObject: { type: 'object' },
+};
+
+interface Decorator {
+  name: string;
+  args: readonly import('typescript').Expression[];
+}
+
+/**
+ * Convert a class-validator DTO (validateDto(CreateOrderDto)) to an OpenAPI
+ * schema - same contract as loadJoiSchemaFromValidator. The DTO becomes a
+ * component named after the class; nested DTOs (@ValidateNested() + @Type())
+ * are returned as further components.
+ */
+export async function loadClassValidatorSchema(
+  schemaRef: string,
+  routeFilePath?: string
+): Promise<{ schema: any; typeName: string; components: Record<string, any> } | null> {
+  if (!tsModule || !routeFilePath) {
+    console.log(`  ⚠️  TypeScript and the route file are required to read DTO ${schemaRef}`);
+    return null;
+  }
+  const ts = tsModule;
+
+  try {
+    const resolved = resolveDtoClass(ts, schemaRef, routeFilePath);
+    if (!resolved) {
+      console.log(`  ⚠️  DTO class not found for ${schemaRef}`);
+      return null;
+    }
+
+    const program = ts.createProgram([resolved.filePath], { ...getCompilerOptions(ts), experimentalDecorators: true, skipLibCheck: true });
+    const checker = program.getTypeChecker();
+    const classNode = program.getSourceFile(resolved.filePath)?.statements.find(
+      (statement): statement is import('typescript').ClassDeclaration =>
+        ts.isClassDeclaration(statement) && statement.name?.text === resolved.localName
+    );
+    if (!classNode) {
+      console.log(`  ⚠️  DTO class not found for ${schemaRef}`);
+      return null;
+    }
+
+    const components: Record<string, any> = {};
+    convertDtoClass(ts, checker, classNode, components);
+
+    const typeName = classNode.name!.text;
+    const { [typeName]: schema, ...nested } = components;
+    console.log(`  ✅ Read DTO ${typeName} from ${path.relative(process.cwd(), resolved.filePath)}`);
+    return { schema, typeName, components: nested };
+  } catch (error) {
+    console.log(`  ⚠️  Error reading DTO ${schemaRef}:`, (error as Error).message);
+    return null;
+  }
+}
+
+/**
+ * Whether a validator reference names a class, for validator calls that don't
+ * name their library, e.g. validate(CreateOrderDto)
+ */
+export function isClassValidatorDto(schemaRef: string, routeFilePath?: string): boolean {
+  if (!tsModule || !routeFilePath) return false;
+  try {
+    return !!resolveDtoClass(tsModule, schemaRef, routeFilePath);
+  } catch (error) {
+    return false;
+  }
+}
+
+// The declaration of CreateOrderDto or dtos.CreateOrderDto (namespace import), when it is a class
+function resolveDtoClass(ts: TypeScriptModule, schemaRef: string, routeFilePath: string): ResolvedExport | undefined {
+  const routeFile = getSourceFile(ts, routeFilePath);
+  const parts = schemaRef.split('.');
+  if (!routeFile || parts.length > 2 || !parts.every(part => /^[A-Za-z_$][\w$]*$/.test(part))) return undefined;
+
+  let resolved = resolveIdentifier(ts, routeFile, parts[0]);
+  if (resolved?.localName === '*' && parts[1]) {
+    resolved = resolveExport(ts, resolved.filePath, parts[1]);
+  } else if (parts.length > 1) {
+    return undefined;
+  }
+
+  const isClass = resolved?.sourceFile.statements.some(
+    statement => ts.isClassDeclaration(statement) && statement.name?.text === resolved!.localName
+  );
+  return isClass ? resolved : undefined;
+}
+
+/**
+ * Convert a DTO class into components[className] (and its nested DTOs into
+ * their own components), returning a $ref to it
+ */
+function convertDtoClass(
+  ts: TypeScriptModule,
+  checker: import('typescript').TypeChecker,
+  classNode: import('typescript').ClassDeclaration,
+  components: Record<string, any>
+): Record<string, any> {
+  const className = classNode.name?.text || 'AnonymousDto';
+  const ref = { $ref: `#/components/schemas/${className}` };
+  if (components[className]) return ref;
+
+  const schema: Record<string, any> = { type: 'object', properties: {} };
+  // Registered up front so self-referencing DTOs end in a $ref
+  components[className] = schema;
+  const required: string[] = [];
+
+  // Inherited properties (class CreateAdminDto extends CreateUserDto) included
+  checker.getTypeAtLocation(classNode).getProperties().forEach(property => {
+    const declaration = property.valueDeclaration;
+    if (!declaration || !ts.isPropertyDeclaration(declaration)) return;
+
+    const decorators = getDecorators(ts, declaration);
+    schema.properties[property.getName()] = convertProperty(ts, checker, declaration, decorators, components);
+
+    const optional = !!declaration.questionToken || decorators.some(decorator => decorator.name === 'IsOptional');
+    if (!optional) required.push(property.getName());
+  });
+
+  if (required.length > 0) schema.required = required;
+  return ref;
+}
+
+function convertProperty(
+  ts: TypeScriptModule,
+  checker: import('typescript').TypeChecker,
+  declaration: import('typescript').PropertyDeclaration,
+  decorators: Decorator[],
+  components: Record<string, any>
+): Record<string, any> {
+  const sourceFile = declaration.getSourceFile();
+  // The declared type - `name?: string` without the undefined that strict mode adds
+  const propertyType = declaration.type ? checker.getTypeFromTypeNode(declaration.type) : checker.getTypeAtLocation(declaration);
+  const isArray = checker.isArrayType(propertyType) || decorators.some(decorator => decorator.name === 'IsArray');
+
+  // Nested DTOs: @ValidateNested() @Type(() => AddressDto), or a property typed with a class
+  const elementType = checker.isArrayType(propertyType)
+    ? checker.getTypeArguments(propertyType as import('typescript').TypeReference)[0]
+    : propertyType;
+  const nestedClass = getTypeDecoratorClass(ts, checker, decorators) || getClassDeclaration(ts, elementType);
+
+  let schema: Record<string, any>;
+  if (nestedClass) {
+    const nestedRef = convertDtoClass(ts, checker, nestedClass, components);
+    schema = isArray ? { type: 'array', items: nestedRef } : nestedRef;
+  } else {
+    schema = typeToJsonSchema(propertyType, checker, ts, {}, new Map(), new Set(), false);
+    if (isArray && schema.type !== 'array') {
+      schema = { type: 'array', items: schema.type === 'object' && !schema.properties ? {} : schema };
+    }
+  }
+
+  decorators.forEach(decorator => {
+    const options = decorator.args.map(arg => evaluateLiteral(ts, arg, sourceFile, 0));
+    // { each: true } validates every element of an array
+    const each = options.some(option => option && typeof option === 'object' && option.each === true);
+    const target = each && schema.type === 'array' ? schema.items : schema;
+    if (target && !target.$ref) {
+      applyDecorator(ts, checker, target, decorator, options, sourceFile);
+    }
+    if (schema.type === 'array') {
+      applyArrayDecorator(schema, decorator.name, options);
+    }
+  });
+
+  return schema;
+}
+
+/**
+ * Apply a property decorator to its schema. Unknown decorators (@Transform(),
+ * @IsPhoneNumber(), ...) leave it unchanged.
+ */
+function applyDecorator(
+  ts: TypeScriptModule,
+  checker: import('typescript').TypeChecker,
+  schema: Record<string, any>,
+  decorator: Decorator,
+  options: any[],
+  sourceFile: import('typescript').SourceFile
+) {
+  const [first, second] = options;
+
+  if (DECORATOR_SCHEMAS[decorator.name]) {
+    Object.assign(schema, DECORATOR_SCHEMAS[decorator.name]);
+    return;
+  }
+
+  switch (decorator.name) {
+    case 'Min':
+      if (typeof first === 'number') schema.minimum = first;
+      break;
+    case 'Max':
+      if (typeof first === 'number') schema.maximum = first;
+      break;
+    case 'IsPositive':
+      Object.assign(schema, { minimum: 0, exclusiveMinimum: true });
+      break;
+    case 'IsNegative':
+      Object.assign(schema, { maximum: 0, exclusiveMaximum: true });
+      break;
+    case 'MinLength':
+      if (typeof first === 'number') schema.minLength = first;
+      break;
+    case 'MaxLength':
+      if (typeof first === 'number') schema.maxLength = first;
+      break;
+    case 'Length':
+      if (typeof first === 'number') schema.minLength = first;
+      if (typeof second === 'number') schema.maxLength = second;
+      break;
+    case 'IsNotEmpty':
+      if (schema.type === 'string') schema.minLength = Math.max(schema.minLength || 0, 1);
+      break;
+    case 'Matches': {
+      const regex = decorator.args[0] && ts.isRegularExpressionLiteral(decorator.args[0]) ? decorator.args[0].text : undefined;
+      if (regex) schema.pattern = regex.slice(1, regex.lastIndexOf('/'));
+      break;
+    }
+    case 'IsIn':
+      if (Array.isArray(first) && first.length > 0) schema.enum = first;
+      break;
+    case 'IsEnum': {
+      const values = decorator.args[0] ? getEnumValues(ts, checker, decorator.args[0], sourceFile) : [];
+      if (values.length > 0) {
+        schema.type = values.every(value => typeof value === 'number') ? 'number' : 'string';
+        schema.enum = values;
+      }
+      break;
+    }
+  }
+}
+
+function applyArrayDecorator(schema: Record<string, any>, name: string, options: any[]) {
+  const [first] = options;
+  if (name === 'ArrayMinSize' && typeof first === 'number') schema.minItems = first;
+  if (name === 'ArrayMaxSize' && typeof first === 'number') schema.maxItems = first;
+  if (name === 'ArrayNotEmpty') schema.minItems = Math.max(schema.minItems || 0, 1);
+  if (name === 'ArrayUnique') schema.uniqueItems = true;
+}
+
+/**
+ * Values of @IsEnum(OrderStatus) - a TypeScript enum or an `as const` object
+ */
+function getEnumValues(
+  ts: TypeScriptModule,
+  checker: import('typescript').TypeChecker,
+  arg: import('typescript').Expression,
+  sourceFile: import('typescript').SourceFile
+): any[] {
+  let symbol = checker.getSymbolAtLocation(arg);
+  if (symbol && symbol.flags & ts.SymbolFlags.Alias) {
+    symbol = checker.getAliasedSymbol(symbol);
+  }
+
+  const enumDeclaration = symbol?.declarations?.find(ts.isEnumDeclaration);
+  if (enumDeclaration) {
+    return enumDeclaration.members
+      .map(member => checker.getConstantValue(member))
+      .filter(value => value !== undefined);
+  }
+
+  const value = evaluateLiteral(ts, arg, sourceFile, 0);
+  return value && typeof value === 'object' && !Array.isArray(value) ? Object.values(value) : [];
+}
+
+// The class in @Type(() => AddressDto)
+function getTypeDecoratorClass(
+  ts: TypeScriptModule,
+  checker: import('typescript').TypeChecker,
+  decorators: Decorator[]
+): import('typescript').ClassDeclaration | undefined {
+  const typeDecorator = decorators.find(decorator => decorator.name === 'Type');
+  const factory = typeDecorator?.args[0];
+  if (!factory || !ts.isArrowFunction(factory) || ts.isBlock(factory.body)) return undefined;
+
+  let symbol = checker.getSymbolAtLocation(factory.body);
+  if (symbol && symbol.flags & ts.SymbolFlags.Alias) {
+    symbol = checker.getAliasedSymbol(symbol);
+  }
+  return symbol?.declarations?.find(ts.isClassDeclaration);
+}
+
+// The declaration of a class type (Date and other library classes excluded)
+function getClassDeclaration(ts: TypeScriptModule, type: import('typescript').Type | undefined): import('typescript').ClassDeclaration | undefined {
+  const declaration = type?.symbol?.declarations?.find(ts.isClassDeclaration);
+  return declaration && !declaration.getSourceFile().isDeclarationFile ? declaration : undefined;
+}
+
+function getDecorators(ts: TypeScriptModule, node: import('typescript').PropertyDeclaration): Decorator[] {
+  return (ts.getDecorators(node) || []).flatMap(decorator => {
+    const expr = decorator.expression;
+    // @IsEmail() / @IsEmail
+    const callee = ts.isCallExpression(expr) ? expr.expression : expr;
+    const name = ts.isIdentifier(callee) ? callee.text : ts.isPropertyAccessExpression(callee) ? callee.name.text : undefined;
+    return name ? [{ name, args: ts.isCallExpression(expr) ? expr.arguments : [] }] : [];
+  });
+}
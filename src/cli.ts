@@ -16,7 +16,13 @@ program
   .option('-r, --routes-dir <dir>', 'Routes directory', './src/routes')
   .option('-c, --controllers-dir <dir>', 'Controllers directory', './src/controllers')
   .option('--validators-dir <dir>', 'Validators directory', './src/api/v1/validators')
+  .option('--joi-mode <mode>', 'How Joi validators are read: runtime (load the modules), isolated (load them in a child process) or static (parse the source)', 'runtime')
+  .option('--joi-timeout <ms>', 'Time limit for loading each validator with --joi-mode isolated', '10000')
   .option('--schemas-dir <dir>', 'Schemas directory for TypeScript type definitions')
+  .option('--app-entry <file>', 'App entry file used to resolve router mount paths (e.g. ./src/app.ts)')
+  .option('--express-version <version>', 'Express major version for route path syntax (4, 5 or auto)', 'auto')
+  .option('--all-methods <methods>', 'Comma-separated methods router.all() routes are documented under')
+  .option('--handler-wrappers <names>', 'Comma-separated names of extra handler wrapper functions (e.g. safeRoute)')
   .option('-o, --output <file>', 'Output file', './swagger-docs.ts')
   .option('-b, --base-path <path>', 'Base API path', '/api/v1')
   .option('-t, --title <title>', 'API title', 'API Documentation')
@@ -30,7 +36,17 @@ program
         routesDir: options.routesDir,
         controllersDir: options.controllersDir,
         validatorsDir: options.validatorsDir,
+        joiMode: parseJoiMode(options.joiMode),
+        joiWorker: { timeout: Number(options.joiTimeout) || undefined },
         schemasDir: options.schemasDir,
+        appEntry: options.appEntry,
+        expressVersion: parseExpressVersion(options.expressVersion),
+        allMethods: options.allMethods
+          ? options.allMethods.split(',').map((m: string) => m.trim().toUpperCase())
+          : undefined,
+        handlerWrappers: options.handlerWrappers
+          ? options.handlerWrappers.split(',').map((name: string) => name.trim())
+          : undefined,
         outputFile: options.output,
         basePath: options.basePath,
         title: options.title,
@@ -55,11 +71,15 @@ program
   .description('Validate route files without generating documentation')
   .option('-r, --routes-dir <dir>', 'Routes directory', './src/routes')
   .option('-c, --controllers-dir <dir>', 'Controllers directory', './src/controllers')
+  .option('--app-entry <file>', 'App entry file used to resolve router mount paths (e.g. ./src/app.ts)')
+  .option('--express-version <version>', 'Express major version for route path syntax (4, 5 or auto)', 'auto')
   .action(async (options) => {
     try {
       const config: SwaggerifyOptions = {
         routesDir: options.routesDir,
         controllersDir: options.controllersDir,
+        appEntry: options.appEntry,
+        expressVersion: parseExpressVersion(options.expressVersion),
         smartDefaults: false, // Don't generate, just validate
       };
 
@@ -75,4 +95,15 @@ program
     }
   });
 
+function parseJoiMode(value: string): SwaggerifyOptions['joiMode'] {
+  return value === 'static' || value === 'isolated' ? value : 'runtime';
+}
+
+function parseExpressVersion(value: string): SwaggerifyOptions['expressVersion'] {
+  if (value === '4' || value === '5') {
+    return Number(value) as 4 | 5;
+  }
+  return 'auto';
+}
+
 program.parse();
@@ -0,0 +1,419 @@
+import { findImportBinding, getSourceFile } from './moduleResolver';
+import {
+  evaluateLiteral,
+  getPropertyName,
+  MAX_DEPTH,
+  resolveObjectLiteral,
+  resolveReference,
+  ScopedExpression,
+  unwrap,
+} from './staticEvaluator';
+import { ValidatorSegment } from './types';
+
+// Try to import TypeScript, fallback gracefully if not available
+let tsModule: typeof import('typescript') | null = null;
+try {
+  tsModule = require('typescript');
+} catch (error) {
+  // TypeScript not available
+}
+
+type TypeScriptModule = typeof import('typescript');
+
+// Module specifiers the validation chains can be imported from
+const EXPRESS_VALIDATOR_MODULES = ['express-validator', 'express-validator/check'];
+
+// Request part validated by each chain function; check() looks everywhere and is documented as body
+const CHAIN_SEGMENTS: Record<string, ValidatorSegment> = {
+  body: 'body',
+  query: 'query',
+  param: 'params',
+  header: 'headers',
+  check: 'body',
+};
+
+// checkSchema `in` locations
+const LOCATION_SEGMENTS: Record<string, ValidatorSegment> = {
+  body: 'body',
+  query: 'query',
+  params: 'params',
+  headers: 'headers',
+};
+
+// Validators that only set a type or format
+const VALIDATOR_SCHEMAS: Record<string, Record<string, any>> = {
+  isEmail: { type: 'string', format: 'email' },
+  isUUID: { type: 'string', format: 'uuid' },
+  isURL: { type: 'string', format: 'uri' },
+  isISO8601: { type: 'string', format: 'date-time' },
+  isDate: { type: 'string', format: 'date' },
+  isIP: { type: 'string', format: 'ipv4' },
+  isBase64: { type: 'string', format: 'byte' },
+  isStrongPassword: { type: 'string', format: 'password' },
+  isString: { type: 'string' },
+  isBoolean: { type: 'boolean' },
+  toBoolean: { type: 'boolean' },
+  isObject: { type: 'object' },
+  toDate: { type: 'string', format: 'date-time' },
+};
+
+export interface ExpressValidatorField {
+  segment: ValidatorSegment;
+  name: string; // Field path as written, e.g. 'email', 'address.city' or 'items.*.sku'
+  schema: Record<string, any>;
+  required: boolean;
+}
+
+/**
+ * Convert express-validator rules - a chain like `body('email').isEmail()`, a
+ * `checkSchema({...})` call, or an array of those - to an object schema of the
+ * fields validated in one request part. Same contract as loadJoiSchemaFromValidator;
+ * the rules are read from their source, as written in the route file.
+ */
+export async function loadExpressValidatorSchema(
+  rulesText: string,
+  segment: ValidatorSegment,
+  routeFilePath?: string
+): Promise<{ schema: any } | null> {
+  if (!tsModule || !routeFilePath) {
+    console.log(`  ⚠️  TypeScript and the route file are required to read express-validator rules`);
+    return null;
+  }
+  const ts = tsModule;
+
+  const routeFile = getSourceFile(ts, routeFilePath);
+  const expressionFile = ts.createSourceFile('inline-rules.ts', `(${rulesText})`, ts.ScriptTarget.Latest, true);
+  const statement = expressionFile.statements[0];
+  if (!routeFile || !statement || !ts.isExpressionStatement(statement)) {
+    return null;
+  }
+
+  const fields = extractExpressValidatorFields(ts, statement.expression, routeFile)
+    .filter(field => field.segment === segment);
+  if (fields.length === 0) {
+    console.log(`  ⚠️  No express-validator ${segment} rules found in ${rulesText}`);
+    return null;
+  }
+
+  console.log(`  ✅ Read ${fields.length} express-validator ${segment} rule(s)`);
+  return { schema: buildObjectSchema(fields) };
+}
+
+/**
+ * The fields validated by express-validator rules. Identifiers are resolved in
+ * sourceFile, so rule arrays can be imported from other modules.
+ */
+export function extractExpressValidatorFields(
+  ts: TypeScriptModule,
+  expr: import('typescript').Expression,
+  sourceFile: import('typescript').SourceFile
+): ExpressValidatorField[] {
+  return interpretRules(ts, { expr, sourceFile }, 0);
+}
+
+function interpretRules(ts: TypeScriptModule, scoped: ScopedExpression, depth: number): ExpressValidatorField[] {
+  if (depth > MAX_DEPTH) return [];
+
+  const expr = unwrap(ts, scoped.expr);
+  const { sourceFile } = scoped;
+
+  // [body('email').isEmail(), ...otherRules]
+  if (ts.isArrayLiteralExpression(expr)) {
+    return expr.elements.flatMap(element =>
+      interpretRules(ts, { expr: ts.isSpreadElement(element) ? element.expression : element, sourceFile }, depth + 1)
+    );
+  }
+
+  if (ts.isCallExpression(expr)) {
+    const calleeName = getExpressValidatorName(ts, expr.expression, sourceFile);
+    if (calleeName === 'checkSchema') {
+      return interpretCheckSchema(ts, expr, sourceFile, depth);
+    }
+    return interpretChain(ts, expr, sourceFile, depth);
+  }
+
+  // Rules declared elsewhere: createUserRules, rules.create
+  if (ts.isIdentifier(expr) || ts.isPropertyAccessExpression(expr)) {
+    const target = resolveReference(ts, { expr, sourceFile }, depth);
+    return target ? interpretRules(ts, target, depth + 1) : [];
+  }
+
+  return [];
+}
+
+/**
+ * body('age').optional().isInt({ min: 0 }) - walk down to the body('age') call,
+ * then apply the chained validators in order
+ */
+function interpretChain(
+  ts: TypeScriptModule,
+  call: import('typescript').CallExpression,
+  sourceFile: import('typescript').SourceFile,
+  depth: number
+): ExpressValidatorField[] {
+  const methods: Array<{ name: string; args: readonly import('typescript').Expression[] }> = [];
+  let current: import('typescript').Expression = call;
+
+  while (
+    ts.isCallExpression(current) &&
+    ts.isPropertyAccessExpression(current.expression) &&
+    !getExpressValidatorName(ts, current.expression, sourceFile)
+  ) {
+    methods.unshift({ name: current.expression.name.text, args: current.arguments });
+    current = unwrap(ts, current.expression.expression);
+  }
+
+  if (!ts.isCallExpression(current)) return [];
+  const segment = CHAIN_SEGMENTS[getExpressValidatorName(ts, current.expression, sourceFile) || ''];
+  if (!segment || !current.arguments[0]) return [];
+
+  const names = evaluateLiteral(ts, current.arguments[0], sourceFile, depth);
+  const fieldNames: string[] = (Array.isArray(names) ? names : [names]).filter(name => typeof name === 'string');
+
+  let schema: Record<string, any> = {};
+  let required = true;
+  let negated = false;
+
+  methods.forEach(({ name, args }) => {
+    if (name === 'not') {
+      negated = true;
+      return;
+    }
+    // not() negates the next validator - of those only not().isEmpty() can be documented
+    if (negated) {
+      negated = false;
+      if (name === 'isEmpty') schema = applyValidator(schema, 'notEmpty', undefined);
+      return;
+    }
+    if (name === 'optional') {
+      required = false;
+      return;
+    }
+    if (name === 'exists') {
+      required = true;
+      return;
+    }
+    schema = applyValidator(schema, name, args[0] && literalOrRegex(ts, args[0], sourceFile, depth));
+  });
+
+  return fieldNames.map(name => ({ segment, name, schema: withDefaultType(schema), required }));
+}
+
+/**
+ * checkSchema({ email: { in: ['body'], isEmail: true }, page: { in: 'query', isInt: { options: { min: 1 } } } })
+ */
+function interpretCheckSchema(
+  ts: TypeScriptModule,
+  call: import('typescript').CallExpression,
+  sourceFile: import('typescript').SourceFile,
+  depth: number
+): ExpressValidatorField[] {
+  const literal = call.arguments[0] && resolveObjectLiteral(ts, { expr: call.arguments[0], sourceFile }, depth);
+  if (!literal) return [];
+
+  // checkSchema(schema, ['query']) - default locations of fields without `in`
+  const defaultLocations = call.arguments[1] && evaluateLiteral(ts, call.arguments[1], sourceFile, depth);
+  const defaultSegment = Array.isArray(defaultLocations) ? LOCATION_SEGMENTS[defaultLocations[0]] : undefined;
+
+  return literal.expr.properties.flatMap(property => {
+    const name = getPropertyName(ts, property);
+    if (!name || !ts.isPropertyAssignment(property)) return [];
+
+    const definition = resolveObjectLiteral(ts, { expr: property.initializer, sourceFile: literal.sourceFile }, depth + 1);
+    if (!definition) return [];
+
+    let schema: Record<string, any> = {};
+    let required = true;
+    let segment = defaultSegment || 'body';
+
+    definition.expr.properties.forEach(rule => {
+      const ruleName = getPropertyName(ts, rule);
+      if (!ruleName || !ts.isPropertyAssignment(rule)) return;
+      const value = evaluateLiteral(ts, rule.initializer, definition.sourceFile, depth);
+
+      if (ruleName === 'in') {
+        const location = Array.isArray(value) ? value[0] : value;
+        segment = LOCATION_SEGMENTS[location] || segment;
+        return;
+      }
+      if (ruleName === 'optional') {
+        required = !value;
+        return;
+      }
+      if (ruleName === 'exists' || ruleName === 'notEmpty') {
+        required = true;
+      }
+      if (value === false || (value && typeof value === 'object' && value.negated)) return;
+
+      // { isInt: { options: { min: 1 } } } / { isIn: { options: [['a', 'b']] } } / { isEmail: true }
+      let options = value && typeof value === 'object' && !Array.isArray(value) ? value.options : undefined;
+      if (ruleName === 'matches') {
+        const optionsNode = getOptionsNode(ts, rule.initializer);
+        options = optionsNode ? literalOrRegex(ts, optionsNode, definition.sourceFile, depth) : undefined;
+      }
+      schema = applyValidator(schema, ruleName, options);
+    });
+
+    return [{ segment, name, schema: withDefaultType(schema), required }];
+  });
+}
+
+/**
+ * Apply one validator or sanitizer with its options. Unknown ones (custom(), trim(), ...)
+ * leave the schema unchanged.
+ */
+function applyValidator(base: Record<string, any>, name: string, options: any): Record<string, any> {
+  const schema = { ...base };
+  const limits = options && typeof options === 'object' && !Array.isArray(options) ? options : {};
+
+  if (VALIDATOR_SCHEMAS[name]) {
+    return { ...schema, ...VALIDATOR_SCHEMAS[name] };
+  }
+
+  switch (name) {
+    case 'isInt':
+    case 'toInt':
+      schema.type = 'integer';
+      applyRange(schema, limits);
+      break;
+    case 'isFloat':
+    case 'isDecimal':
+    case 'isNumeric':
+    case 'toFloat':
+      schema.type = 'number';
+      applyRange(schema, limits);
+      break;
+    case 'isLength':
+      schema.type = schema.type || 'string';
+      if (typeof limits.min === 'number') schema.minLength = limits.min;
+      if (typeof limits.max === 'number') schema.maxLength = limits.max;
+      break;
+    case 'notEmpty':
+      if (schema.type === 'array') schema.minItems = 1;
+      else schema.minLength = 1;
+      break;
+    case 'isArray':
+      schema.type = 'array';
+      if (typeof limits.min === 'number') schema.minItems = limits.min;
+      if (typeof limits.max === 'number') schema.maxItems = limits.max;
+      break;
+    case 'isIn': {
+      // isIn(['a', 'b']) in chains, { isIn: { options: [['a', 'b']] } } in checkSchema
+      const values = Array.isArray(options) && Array.isArray(options[0]) ? options[0] : options;
+      if (Array.isArray(values) && values.length > 0) schema.enum = values;
+      break;
+    }
+    case 'matches': {
+      const pattern = Array.isArray(options) ? options[0] : options;
+      if (typeof pattern === 'string') {
+        schema.type = schema.type || 'string';
+        schema.pattern = pattern;
+      }
+      break;
+    }
+    case 'default':
+      if (options !== undefined) schema.default = options;
+      break;
+  }
+
+  return schema;
+}
+
+// Request values are strings unless a validator says otherwise
+function withDefaultType(schema: Record<string, any>): Record<string, any> {
+  return schema.type ? schema : { type: 'string', ...schema };
+}
+
+function applyRange(schema: Record<string, any>, limits: Record<string, any>) {
+  if (typeof limits.min === 'number') schema.minimum = limits.min;
+  if (typeof limits.max === 'number') schema.maximum = limits.max;
+  if (typeof limits.gt === 'number') Object.assign(schema, { minimum: limits.gt, exclusiveMinimum: true });
+  if (typeof limits.lt === 'number') Object.assign(schema, { maximum: limits.lt, exclusiveMaximum: true });
+}
+
+/**
+ * Nest field paths into an object schema: 'address.city' becomes a property of
+ * address, 'items.*.sku' a property of the items array's objects
+ */
+function buildObjectSchema(fields: ExpressValidatorField[]): Record<string, any> {
+  const root: Record<string, any> = { type: 'object', properties: {} };
+
+  fields.forEach(field => {
+    const parts = field.name.split('.');
+    let parent = root;
+
+    parts.forEach((part, index) => {
+      const isLast = index === parts.length - 1;
+
+      if (part === '*') {
+        parent.type = 'array';
+        delete parent.properties;
+        parent.items = isLast ? { ...(parent.items || {}), ...field.schema } : parent.items || { type: 'object', properties: {} };
+        parent = parent.items;
+        return;
+      }
+
+      parent.type = parent.type || 'object';
+      parent.properties = parent.properties || {};
+      const existing = parent.properties[part] || {};
+      parent.properties[part] = isLast ? { ...existing, ...field.schema } : { type: 'object', properties: {}, ...existing };
+
+      if (field.required) {
+        parent.required = [...new Set([...(parent.required || []), part])];
+      }
+      parent = parent.properties[part];
+    });
+  });
+
+  return root;
+}
+
+/**
+ * Name of the express-validator export called by a chain's root: body, query,
+ * checkSchema, ... (imported by name, or through the module namespace)
+ */
+function getExpressValidatorName(
+  ts: TypeScriptModule,
+  callee: import('typescript').Expression,
+  sourceFile: import('typescript').SourceFile
+): string | undefined {
+  const expr = unwrap(ts, callee);
+
+  if (ts.isIdentifier(expr)) {
+    const binding = findImportBinding(ts, sourceFile, expr.text);
+    return binding && EXPRESS_VALIDATOR_MODULES.includes(binding.specifier) ? binding.importedName : undefined;
+  }
+
+  // import * as validator from 'express-validator'; validator.body('email')
+  if (ts.isPropertyAccessExpression(expr) && ts.isIdentifier(expr.expression)) {
+    const binding = findImportBinding(ts, sourceFile, expr.expression.text);
+    return binding && EXPRESS_VALIDATOR_MODULES.includes(binding.specifier) ? expr.name.text : undefined;
+  }
+
+  return undefined;
+}
+
+// The `options` node of a checkSchema rule ({ matches: { options: /^\d+$/ } })
+function getOptionsNode(ts: TypeScriptModule, initializer: import('typescript').Expression): import('typescript').Expression | undefined {
+  const rule = unwrap(ts, initializer);
+  if (!ts.isObjectLiteralExpression(rule)) return undefined;
+  const options = rule.properties.find(property => getPropertyName(ts, property) === 'options');
+  return options && ts.isPropertyAssignment(options) ? options.initializer : undefined;
+}
+
+// A literal value, with regular expressions read as their pattern source
+function literalOrRegex(
+  ts: TypeScriptModule,
+  node: import('typescript').Expression,
+  sourceFile: import('typescript').SourceFile,
+  depth: number
+): any {
+  const expr = unwrap(ts, node);
+  if (ts.isRegularExpressionLiteral(expr)) {
+    return expr.text.slice(1, expr.text.lastIndexOf('/'));
+  }
+  if (ts.isArrayLiteralExpression(expr) && expr.elements[0] && ts.isRegularExpressionLiteral(unwrap(ts, expr.elements[0]))) {
+    return literalOrRegex(ts, expr.elements[0], sourceFile, depth);
+  }
+  return evaluateLiteral(ts, expr, sourceFile, depth);
+}
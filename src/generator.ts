@@ -1,5 +1,6 @@
-import { RouteInfo, ControllerInfo, SimpleEndpointConfig, SmartField, SwaggerifyOptions } from './types';
-import { loadJoiSchemaFromValidator } from './joiExtractor';
+import { RouteInfo, ControllerInfo, SimpleEndpointConfig, SmartField, SwaggerifyOptions, PathParameterInfo } from './types';
+import { loadValidatorSchema } from './validatorExtractors';
+import { resolveRouteAuthorization, resolveRouteSecurity } from './security';
 
 export async function generateSwaggerEndpoint(
   route: RouteInfo,
@@ -10,7 +11,7 @@ export async function generateSwaggerEndpoint(
 ): Promise<string> {
   const methodLower = route.method.toLowerCase();
   const pathSegments = route.path.split('/').filter(Boolean);
-  const operationId = route.controllerMethod;
+  const operationId = route.operationId || route.controllerMethod;
 
   // Generate summary from method name and path
   let summary: string;
@@ -39,6 +40,10 @@ export async function generateSwaggerEndpoint(
       summary = `Update ${summary}`;
     } else if (route.method === 'DELETE') {
       summary = `Delete ${summary}`;
+    } else if (route.method === 'HEAD') {
+      summary = `Check ${summary}`;
+    } else if (route.method === 'OPTIONS') {
+      summary = `Options for ${summary}`;
     }
   } else {
     // Use controller method name
@@ -51,16 +56,25 @@ export async function generateSwaggerEndpoint(
 
   const description = `${route.method} ${route.path}`;
 
+  // Security requirements, scopes and roles from the route's middleware
+  const security = resolveRouteSecurity(route.middleware, options);
+  const { scopes, roles } = resolveRouteAuthorization(route.middleware, options);
+
   // Get status codes from controller analysis
   const statusCodes = controllerInfo?.statusCodes || [200, 400, 500];
-  if (route.hasAuth && !statusCodes.includes(401)) {
+  if (security.length > 0 && !statusCodes.includes(401)) {
     statusCodes.push(401);
   }
+  if ((scopes.length > 0 || roles.length > 0) && !statusCodes.includes(403)) {
+    statusCodes.push(403);
+  }
+
+  // Detect path parameters (the route parser provides them with any inline regex constraints)
+  const pathParams: PathParameterInfo[] = route.pathParameters ||
+    (route.path.match(/\{([^}]+)\}/g) || []).map(param => ({ name: param.slice(1, -1) }));
 
-  // Detect path parameters
-  const pathParams = (route.path.match(/\{(\w+)\}/g) || []).map(param =>
-    param.slice(1, -1)
-  );
+  // Component schemas referenced by the endpoint (request bodies named by z.infer, DTO classes)
+  const componentSchemas: Record<string, any> = {};
 
   let endpoint = `  {\n`;
   endpoint += `    method: '${route.method}',\n`;
@@ -83,18 +97,32 @@ export async function generateSwaggerEndpoint(
 
   endpoint += `    tags: ['${tag}'],\n`;
 
+  // Query, path and header parameters from validate(schema, 'query') / celebrate segments
+  const validatorParams = await loadValidatorParameters(route, routeFilePath, options, componentSchemas);
+
   // Add path parameters if any
-  if (pathParams.length > 0) {
+  if (pathParams.length > 0 || validatorParams.length > 0) {
     endpoint += `    parameters: [\n`;
     pathParams.forEach(param => {
+      // A params validator describes the path parameter better than the path itself
+      const validated = validatorParams.find(p => p.in === 'path' && p.name === param.name);
+      const paramSchema: Record<string, any> = validated?.schema || { type: 'string' };
+      if (param.pattern && !paramSchema.pattern) {
+        paramSchema.pattern = param.pattern;
+      }
       endpoint += `      {\n`;
-      endpoint += `        name: '${param}',\n`;
+      endpoint += `        name: '${param.name}',\n`;
       endpoint += `        in: 'path',\n`;
       endpoint += `        required: true,\n`;
-      endpoint += `        schema: { type: 'string' },\n`;
-      endpoint += `        description: '${param} parameter',\n`;
+      endpoint += `        schema: ${JSON.stringify(paramSchema)},\n`;
+      endpoint += `        description: ${JSON.stringify(validated?.description || param.description || `${param.name} parameter`)},\n`;
       endpoint += `      },\n`;
     });
+    validatorParams
+      .filter(param => param.in !== 'path')
+      .forEach(param => {
+        endpoint += `      ${JSON.stringify(param)},\n`;
+      });
     endpoint += `    ],\n`;
   }
 
@@ -105,29 +133,40 @@ export async function generateSwaggerEndpoint(
     endpoint += `      content: {\n`;
     endpoint += `        'application/json': {\n`;
 
-    // Try to load Joi schema first (highest priority)
-    let joiSchemaObj: any = null;
+    // Try to load the validator's schema first (highest priority)
+    let validatorSchemaObj: { schema: any; typeName?: string; components?: Record<string, any> } | null = null;
     if (route.validatorSchema) {
-      console.log(`  📦 Attempting to extract Joi schema: ${route.validatorSchema}`);
-      joiSchemaObj = await loadJoiSchemaFromValidator(
-        route.validatorSchema,
-        routeFilePath,
-        options.validatorsDir
-      );
-      if (!joiSchemaObj || !joiSchemaObj.schema) {
-        console.log(`  ⚠️  Joi schema extraction failed for ${route.validatorSchema} - skipping smart defaults`);
+      const bodyValidator = route.validators?.find(v => v.segment === 'body' && v.schemaRef === route.validatorSchema) ||
+        { segment: 'body', schemaRef: route.validatorSchema };
+      validatorSchemaObj = await loadValidatorSchema(bodyValidator, routeFilePath, options);
+      if (!validatorSchemaObj || !validatorSchemaObj.schema) {
+        console.log(`  ⚠️  Validator schema extraction failed for ${route.validatorSchema} - skipping smart defaults`);
       }
     }
 
-    if (joiSchemaObj && joiSchemaObj.schema) {
-      // Use Joi schema - convert to OpenAPI format
-      const schemaStr = JSON.stringify(joiSchemaObj.schema, null, 12);
+    // Schemas the body references (nested DTOs, Joi meta({ ref })) go into components
+    if (validatorSchemaObj?.schema) {
+      Object.assign(componentSchemas, validatorSchemaObj.components || {});
+    }
+
+    if (validatorSchemaObj?.schema && validatorSchemaObj.typeName) {
+      // Named by z.infer, a DTO class or Joi meta({ ref }) - reference it and carry the schema into components
+      console.log(`  ✅ Using named type ${validatorSchemaObj.typeName} for request body`);
+      endpoint += `          schema: { $ref: '#/components/schemas/${validatorSchemaObj.typeName}' },\n`;
+      componentSchemas[validatorSchemaObj.typeName] = validatorSchemaObj.schema;
+    } else if (validatorSchemaObj && validatorSchemaObj.schema) {
+      // Use the validator schema - already in OpenAPI format
+      const schemaStr = JSON.stringify(validatorSchemaObj.schema, null, 12);
       // Indent each line properly for the endpoint string
       const indentedSchema = schemaStr.split('\n').map((line: string, idx: number) => {
         if (idx === 0) return line; // First line, no extra indent
         return '            ' + line;
       }).join('\n');
       endpoint += `          schema: ${indentedSchema},\n`;
+    } else if (!route.validatorSchema && controllerInfo?.requestBodyTypeName && options.schemasDir) {
+      // Named request body type (e.g. JSDoc `@param {LoginBody} req.body`) from schemasDir
+      console.log(`  ✅ Using extracted type ${controllerInfo.requestBodyTypeName} for request body`);
+      endpoint += `          schema: { $ref: '#/components/schemas/${controllerInfo.requestBodyTypeName}' },\n`;
     } else {
       // If a validator was specified but extraction failed, don't use smart defaults
       const hasValidator = !!route.validatorSchema;
@@ -246,6 +285,13 @@ export async function generateSwaggerEndpoint(
 
     endpoint += `      '${code}': {\n`;
     endpoint += `        description: '${description}',\n`;
+
+    // HEAD responses never carry a body
+    if (route.method === 'HEAD') {
+      endpoint += `      },\n`;
+      return;
+    }
+
     endpoint += `        content: {\n`;
     endpoint += `          'application/json': {\n`;
     
@@ -265,13 +311,78 @@ export async function generateSwaggerEndpoint(
 
   endpoint += `    },\n`;
 
-  // Add noAuth flag
-  endpoint += `    noAuth: ${!route.hasAuth},\n`;
+  // Add security requirements (noAuth is kept for consumers of the endpoint list)
+  endpoint += `    security: ${JSON.stringify(security)},\n`;
+  endpoint += `    noAuth: ${security.length === 0},\n`;
+  if (roles.length > 0) {
+    endpoint += `    requiredRoles: ${JSON.stringify(roles)},\n`;
+  }
+  if (Object.keys(componentSchemas).length > 0) {
+    endpoint += `    schemas: ${JSON.stringify(componentSchemas)},\n`;
+  }
   endpoint += `  }`;
 
   return endpoint;
 }
 
+// OpenAPI parameter location of each non-body validator segment
+const SEGMENT_LOCATIONS: Record<string, 'query' | 'path' | 'header'> = {
+  query: 'query',
+  params: 'path',
+  headers: 'header',
+};
+
+interface ValidatorParameter {
+  name: string;
+  in: 'query' | 'path' | 'header';
+  required: boolean;
+  schema: any;
+  description?: string;
+}
+
+/**
+ * Load the schemas of a route's query/params/headers validators and turn
+ * each of their properties into an OpenAPI parameter. Component schemas the
+ * parameters reference are added to componentSchemas.
+ */
+async function loadValidatorParameters(
+  route: RouteInfo,
+  routeFilePath: string | undefined,
+  options: SwaggerifyOptions,
+  componentSchemas: Record<string, any>
+): Promise<ValidatorParameter[]> {
+  const parameters: ValidatorParameter[] = [];
+
+  for (const validator of route.validators || []) {
+    const location = SEGMENT_LOCATIONS[validator.segment];
+    if (!location) continue;
+
+    const validatorSchemaObj = await loadValidatorSchema(validator, routeFilePath, options);
+    const properties = validatorSchemaObj?.schema?.properties;
+    if (!properties) {
+      console.log(`  ⚠️  Validator schema extraction failed for ${validator.schemaRef} - no ${location} parameters added`);
+      continue;
+    }
+
+    Object.assign(componentSchemas, validatorSchemaObj!.components || {});
+    const required: string[] = validatorSchemaObj!.schema.required || [];
+    Object.entries<any>(properties).forEach(([name, propertySchema]) => {
+      if (parameters.some(p => p.in === location && p.name === name)) return;
+
+      const { description, ...schema } = propertySchema;
+      parameters.push({
+        name,
+        in: location,
+        required: location === 'path' || required.includes(name),
+        schema,
+        ...(description ? { description } : {}),
+      });
+    });
+  }
+
+  return parameters;
+}
+
 function mapToSwaggerType(typeString: string): string {
   // Map inferred types to Swagger/OpenAPI types
   if (typeString.includes('number')) return 'number';
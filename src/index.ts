@@ -3,10 +3,16 @@ import * as path from 'path';
 import { glob } from 'glob';
 import { extractRoutes, analyzeControllerMethod } from './parser';
 import { generateSwaggerEndpoint } from './generator';
-import { SwaggerifyOptions, SimpleEndpointConfig } from './types';
+import { SwaggerifyOptions, SimpleEndpointConfig, RouteInfo } from './types';
 import { loadTypesFromDirectory } from './typeExtractor';
+import { resolveRouterMounts } from './mountResolver';
+import { SOURCE_FILE_EXTENSIONS } from './moduleResolver';
+import { discoverRuntimeRoutes, getRouteMatchKey } from './runtimeDiscovery';
+import { getDefaultSecurity, getSecuritySchemes, resolveRouteSecurity } from './security';
+import { DEFAULT_ALL_METHODS, DEFAULT_HANDLER_WRAPPERS, generateOperationId } from './routeExtractor';
 
-export { SwaggerifyOptions, SimpleEndpointConfig } from './types';
+export { SwaggerifyOptions, SimpleEndpointConfig, ValidatorExtractor, ValidatorSchemaResult } from './types';
+export { discoverRuntimeRoutes, RuntimeRoute } from './runtimeDiscovery';
 
 export async function swaggerifyRoutes(options: SwaggerifyOptions = {}): Promise<SimpleEndpointConfig[]> {
   const {
@@ -20,8 +26,8 @@ export async function swaggerifyRoutes(options: SwaggerifyOptions = {}): Promise
   console.log('\n🚀 Swaggerify Routes\n');
   console.log('='.repeat(80));
 
-  // Find all route files
-  const routeFiles = await glob(`${routesDir}/**/*.ts`, { cwd: process.cwd() });
+  // Find all route files (TypeScript and plain JavaScript)
+  const routeFiles = await glob(`${routesDir}/**/*.{ts,js,mjs,cjs}`, { cwd: process.cwd(), ignore: '**/*.d.ts' });
 
   if (routeFiles.length === 0) {
     console.log('❌ No route files found in', routesDir);
@@ -39,13 +45,31 @@ export async function swaggerifyRoutes(options: SwaggerifyOptions = {}): Promise
     console.log(`  ✅ Loaded ${availableTypeNames.size} type definition(s)\n`);
   }
 
-  // Parse router mounting structure from index.ts
-  const routerMounts = await parseRouterMounts(routesDir, basePath);
+  // Resolve the router mount graph by following use() calls from the app entry / routes index
+  const resolvedMounts = await resolveRouterMounts(routesDir, basePath, options.appEntry);
+
+  // Legacy name-based mapping, only used for files the mount graph didn't reach
+  let legacyMounts: Map<string, string> | undefined;
+
+  const handlerWrappers = [...DEFAULT_HANDLER_WRAPPERS, ...(options.handlerWrappers || [])];
+
+  // Controller files are shared by many routes, read each one once
+  const controllerContents = new Map<string, string | undefined>();
+  const readControllerFile = async (controllerFile: string): Promise<string | undefined> => {
+    if (!controllerContents.has(controllerFile)) {
+      const content = await fs.pathExists(controllerFile) ? await fs.readFile(controllerFile, 'utf-8') : undefined;
+      if (content !== undefined) {
+        console.log(`  📋 Controller: ${path.relative(process.cwd(), controllerFile)}`);
+      }
+      controllerContents.set(controllerFile, content);
+    }
+    return controllerContents.get(controllerFile);
+  };
 
   const allEndpoints: string[] = [];
 
   for (const routeFile of routeFiles) {
-    const fileName = path.basename(routeFile, '.ts');
+    const fileName = path.basename(routeFile, path.extname(routeFile));
     const routePath = path.join(process.cwd(), routeFile);
 
     console.log(`📝 ${fileName}`);
@@ -53,40 +77,50 @@ export async function swaggerifyRoutes(options: SwaggerifyOptions = {}): Promise
     try {
       const routeContent = await fs.readFile(routePath, 'utf-8');
 
-      // Convert camelCase fileName to kebab-case for route matching
-      // e.g., spatialRooms -> spatial-rooms
-      const kebabFileName = fileName.replace(/([a-z0-9])([A-Z])/g, '$1-$2').toLowerCase();
+      // Get the base path(s) this route file is mounted at, with the middleware applied on the way
+      let routeMounts = resolvedMounts?.get(routePath);
+      if (!routeMounts || routeMounts.length === 0) {
+        if (!legacyMounts) {
+          legacyMounts = await parseRouterMounts(routesDir, basePath);
+        }
 
-      // Get the correct base path for this route file
-      // Try both the original fileName and the kebab-case version
-      const routeBasePath = routerMounts.get(fileName) || routerMounts.get(kebabFileName) || basePath;
-      console.log(`  🎯 Using base path: ${routeBasePath} for ${fileName}`);
-      const routes = extractRoutes(routeContent, routeBasePath, routePath, options.validatorsDir);
+        // Convert camelCase fileName to kebab-case for route matching
+        // e.g., spatialRooms -> spatial-rooms
+        const kebabFileName = fileName.replace(/([a-z0-9])([A-Z])/g, '$1-$2').toLowerCase();
+
+        // Try both the original fileName and the kebab-case version
+        routeMounts = [{ basePath: legacyMounts.get(fileName) || legacyMounts.get(kebabFileName) || basePath, middleware: [] }];
+      }
+
+      const routes = routeMounts.flatMap(mount => {
+        console.log(`  🎯 Using base path: ${mount.basePath || '/'} for ${fileName}`);
+        return extractRoutes(routeContent, mount.basePath, routePath, options.validatorsDir, options, mount.middleware, mount.router);
+      });
 
       if (routes.length === 0) {
         console.log(`  ⚠️  No routes found`);
         continue;
       }
 
-      // Find corresponding controller file
-      const controllerFile = findControllerFile(routeFile, controllersDir);
-      let controllerContent: string | undefined;
-
-      if (controllerFile && await fs.pathExists(controllerFile)) {
-        controllerContent = await fs.readFile(controllerFile, 'utf-8');
-        console.log(`  📋 Controller: ${path.basename(controllerFile)}`);
-      }
+      // Controllers are resolved per handler through the route file's imports;
+      // the file name heuristic is only used for handlers that couldn't be resolved
+      const fallbackControllerFile = findControllerFile(routeFile, controllersDir);
 
       const endpoints: string[] = [];
 
       for (const route of routes) {
+        const controllerFile = route.handlerLocation?.filePath || fallbackControllerFile;
+        const controllerContent = controllerFile ? await readControllerFile(controllerFile) : undefined;
+
         let controllerInfo;
         if (controllerContent && controllerFile) {
           controllerInfo = analyzeControllerMethod(
-            controllerContent, 
-            route.controllerMethod, 
+            controllerContent,
+            route.handlerLocation?.name || route.controllerMethod,
             controllerFile,
-            availableTypeNames
+            availableTypeNames,
+            route.handlerLocation?.filePath === controllerFile ? route.handlerLocation.position : undefined,
+            handlerWrappers
           );
         }
 
@@ -114,14 +148,71 @@ export async function swaggerifyRoutes(options: SwaggerifyOptions = {}): Promise
   return endpointObjects;
 }
 
+/**
+ * Generate endpoint definitions for a live Express app. The exact method/path
+ * list comes from the app's router stack; controller and validator details
+ * come from the static analysis done by swaggerifyRoutes.
+ *
+ * Routes found only at runtime (e.g. registered in a loop) are documented with
+ * defaults and flagged `discovery: 'runtime-only'`; statically parsed routes the
+ * app doesn't serve are kept and flagged `discovery: 'source-only'`.
+ */
+export async function swaggerifyApp(app: any, options: SwaggerifyOptions = {}): Promise<SimpleEndpointConfig[]> {
+  const staticEndpoints = await swaggerifyRoutes(options);
+
+  console.log('🔍 Introspecting Express app routes...\n');
+  const runtimeRoutes = discoverRuntimeRoutes(
+    app,
+    options.allMethods || DEFAULT_ALL_METHODS,
+    staticEndpoints.map(endpoint => endpoint.path)
+  );
+
+  const runtimeKeys = new Set(runtimeRoutes.map(route => getRouteMatchKey(route.method, route.path)));
+  const staticKeys = new Set(staticEndpoints.map(endpoint => getRouteMatchKey(endpoint.method, endpoint.path)));
+
+  const endpoints: SimpleEndpointConfig[] = staticEndpoints.map(endpoint => {
+    if (runtimeRoutes.length > 0 && !runtimeKeys.has(getRouteMatchKey(endpoint.method, endpoint.path))) {
+      console.log(`  ⚠️  Only in source: ${endpoint.method} ${endpoint.path}`);
+      return { ...endpoint, discovery: 'source-only' };
+    }
+    return endpoint;
+  });
+
+  for (const runtimeRoute of runtimeRoutes) {
+    const key = getRouteMatchKey(runtimeRoute.method, runtimeRoute.path);
+    if (staticKeys.has(key)) continue;
+    staticKeys.add(key);
+
+    console.log(`  ⚠️  Only at runtime: ${runtimeRoute.method} ${runtimeRoute.path}`);
+    const route: RouteInfo = {
+      method: runtimeRoute.method,
+      path: runtimeRoute.path,
+      handlerName: runtimeRoute.handlerName || 'anonymous',
+      controllerMethod: runtimeRoute.handlerName || generateOperationId(runtimeRoute.method, runtimeRoute.path),
+      hasAuth: resolveRouteSecurity(runtimeRoute.middleware, options).length > 0,
+      middleware: runtimeRoute.middleware,
+      pathParameters: runtimeRoute.pathParameters,
+    };
+
+    const endpointStr = await generateSwaggerEndpoint(route, undefined, undefined, options);
+    endpoints.push({ ...(eval(`(${endpointStr})`) as SimpleEndpointConfig), discovery: 'runtime-only' });
+  }
+
+  console.log(`\n✨ ${runtimeRoutes.length} runtime route(s), ${endpoints.length} total endpoint definitions\n`);
+
+  return endpoints;
+}
+
 async function parseRouterMounts(routesDir: string, basePath: string): Promise<Map<string, string>> {
   const routerMounts = new Map<string, string>();
 
-  // Look for index.ts in the routes directory
-  const indexPath = path.join(process.cwd(), routesDir, 'index.ts');
+  // Look for index.ts (or index.js) in the routes directory
+  const indexPath = SOURCE_FILE_EXTENSIONS
+    .map(ext => path.join(process.cwd(), routesDir, `index${ext}`))
+    .find(candidate => fs.existsSync(candidate));
 
-  if (!await fs.pathExists(indexPath)) {
-    console.log('⚠️  No index.ts found in routes directory, using default base path');
+  if (!indexPath) {
+    console.log('⚠️  No index file found in routes directory, using default base path');
     return routerMounts;
   }
 
@@ -131,8 +222,8 @@ async function parseRouterMounts(routesDir: string, basePath: string): Promise<M
     console.log('📄 Index file content preview:');
     console.log(indexContent.split('\n').slice(10, 20).join('\n'));
 
-    // Parse router.use() statements to understand mounting structure
-    const routerUseRegex = /router\.use\s*\(\s*['"`]([^'"`]+)['"`]\s*,\s*(\w+)Routes\s*\)/g;
+    // Parse router.use() / app.use() statements on any router variable to understand mounting structure
+    const routerUseRegex = /\b\w+\.use\s*\(\s*['"`]([^'"`]+)['"`]\s*,\s*(\w+)Routes\s*\)/g;
     let match;
 
     while ((match = routerUseRegex.exec(indexContent)) !== null) {
@@ -170,19 +261,21 @@ async function parseRouterMounts(routesDir: string, basePath: string): Promise<M
 }
 
 function findControllerFile(routeFilePath: string, controllersDir: string): string | undefined {
-  const routeFileName = path.basename(routeFilePath, '.ts');
+  const routeFileName = path.basename(routeFilePath, path.extname(routeFilePath));
   const candidates: string[] = [];
 
   const addNamesFor = (name: string) => {
     const cap = name.charAt(0).toUpperCase() + name.slice(1);
-    candidates.push(
-      `${name}Controller.ts`,
-      `${cap}Controller.ts`,
-      `${name}.controller.ts`,
-      `${cap}.controller.ts`,
-      `${name}.ts`,
-      `${cap}.ts`
-    );
+    SOURCE_FILE_EXTENSIONS.forEach(ext => {
+      candidates.push(
+        `${name}Controller${ext}`,
+        `${cap}Controller${ext}`,
+        `${name}.controller${ext}`,
+        `${cap}.controller${ext}`,
+        `${name}${ext}`,
+        `${cap}${ext}`
+      );
+    });
   };
 
   // original name
@@ -217,6 +310,9 @@ export async function generateSwaggerDocs(
   } = options;
 
   const paths: any = {};
+  const securitySchemes = getSecuritySchemes(options);
+  const defaultSecurity = getDefaultSecurity(options);
+  const endpointSchemas: Record<string, any> = {};
 
   endpoints.forEach(endpoint => {
     const path = endpoint.path;
@@ -248,19 +344,31 @@ export async function generateSwaggerDocs(
       pathItem.responses = endpoint.responses;
     }
 
-    // Add security if not explicitly marked as noAuth
-    if (!endpoint.noAuth) {
-      pathItem.security = [{ bearerAuth: [] }];
+    if (endpoint.discovery) {
+      pathItem['x-discovery'] = endpoint.discovery;
+    }
+
+    // Per-operation security; endpoints without requirements only carry the noAuth flag
+    if (endpoint.security) {
+      pathItem.security = endpoint.security;
+    } else if (!endpoint.noAuth && defaultSecurity.length > 0) {
+      pathItem.security = defaultSecurity;
     }
 
+    if (endpoint.requiredRoles && endpoint.requiredRoles.length > 0) {
+      pathItem['x-required-roles'] = endpoint.requiredRoles;
+    }
+
+    Object.assign(endpointSchemas, endpoint.schemas || {});
+
     paths[path][method] = pathItem;
   });
 
   // Load TypeScript types from schemasDir if specified
-  let extractedSchemas: Record<string, any> = {};
+  let extractedSchemas: Record<string, any> = { ...endpointSchemas };
   if (options.schemasDir) {
     console.log(`\n📚 Loading type definitions from ${options.schemasDir}...`);
-    extractedSchemas = await loadTypesFromDirectory(options.schemasDir);
+    extractedSchemas = { ...extractedSchemas, ...(await loadTypesFromDirectory(options.schemasDir)) };
   }
 
   // Helper: resolve $ref like '#/components/schemas/TypeName' -> 'TypeName'
@@ -408,16 +516,10 @@ export async function generateSwaggerDocs(
         ...extractedSchemas,
         ...options.customSchemas,
       },
-      securitySchemes: {
-        bearerAuth: {
-          type: 'http',
-          scheme: 'bearer',
-          bearerFormat: 'JWT',
-          description: 'Enter JWT token',
-        },
-      },
+      securitySchemes,
     },
-    security: [{ bearerAuth: [] }],
+    // Default requirement for operations that don't declare their own
+    ...(defaultSecurity.length > 0 ? { security: defaultSecurity } : {}),
     paths,
   };
 }
@@ -0,0 +1,264 @@
+// Key a conditional Joi schema (when(), alternatives().conditional()) keeps its branches
+// under until resolveJoiConditionals turns them into oneOf
+export const JOI_CONDITIONAL_KEY = 'x-joi-conditional';
+
+// Subschema keywords resolveJoiConditionals looks into
+const SUBSCHEMA_KEYWORDS = ['items', 'additionalProperties', 'not', 'allOf', 'anyOf', 'oneOf'];
+
+export interface JoiConditionalBranch {
+  values?: any[]; // Values of the tested property this branch applies to - unset for otherwise
+  schema: Record<string, any>; // Applied on top of the conditional schema itself
+  presence?: 'required' | 'optional' | 'forbidden';
+}
+
+export interface JoiConditional {
+  ref?: string; // Property the condition tests - unset when it isn't an equality on one property
+  self?: boolean; // A property of the schema itself ('.type') rather than of its parent object
+  branches: JoiConditionalBranch[];
+}
+
+/**
+ * Add a condition's branches to a schema. Conditions on different properties
+ * can't share a discriminator, so the schema keeps only its branches then.
+ */
+export function addJoiConditional(schema: Record<string, any>, conditional: JoiConditional) {
+  const existing: JoiConditional | undefined = schema[JOI_CONDITIONAL_KEY];
+  if (!existing) {
+    schema[JOI_CONDITIONAL_KEY] = conditional;
+    return;
+  }
+
+  const sameRef = existing.ref === conditional.ref && existing.self === conditional.self;
+  schema[JOI_CONDITIONAL_KEY] = {
+    ...(sameRef && existing.ref ? { ref: existing.ref, self: existing.self } : {}),
+    // A single otherwise branch, after every other branch
+    branches: [
+      ...existing.branches.filter(branch => branch.values),
+      ...conditional.branches.filter(branch => branch.values),
+      ...[...existing.branches, ...conditional.branches].filter(branch => !branch.values).slice(0, 1),
+    ],
+  };
+}
+
+/**
+ * Turn the conditional schemas marked with JOI_CONDITIONAL_KEY into oneOf. A
+ * condition that tests a sibling property (Joi.when('method', { is: 'card', ... }))
+ * splits the parent object into one variant per value of that property, with
+ * an OpenAPI discriminator on it; a condition on the schema's own property
+ * (alternatives().conditional('.type', ...)) does the same with its branches.
+ * Other conditions (is: Joi.exist()) only give an anyOf of their branches.
+ */
+export function resolveJoiConditionals(schema: any): any {
+  return resolveNode(schema, false);
+}
+
+function resolveNode(schema: any, isProperty: boolean): any {
+  if (Array.isArray(schema)) return schema.map(item => resolveNode(item, false));
+  if (!schema || typeof schema !== 'object') return schema;
+
+  // Children first - conditionals on a sibling are left for this object to lift
+  const resolved: Record<string, any> = {};
+  Object.entries(schema).forEach(([key, value]: [string, any]) => {
+    if (key === JOI_CONDITIONAL_KEY) {
+      resolved[key] = {
+        ...value,
+        branches: value.branches.map((branch: JoiConditionalBranch) => ({ ...branch, schema: resolveNode(branch.schema, false) })),
+      };
+    } else if (key === 'properties' && value && typeof value === 'object') {
+      resolved.properties = Object.fromEntries(Object.entries(value).map(([name, child]) => [name, resolveNode(child, true)]));
+    } else if (SUBSCHEMA_KEYWORDS.includes(key)) {
+      resolved[key] = resolveNode(value, false);
+    } else {
+      resolved[key] = value;
+    }
+  });
+
+  let result = resolvePropertyConditionals(resolved);
+
+  const conditional: JoiConditional | undefined = result[JOI_CONDITIONAL_KEY];
+  if (conditional && !(isProperty && conditional.ref && !conditional.self)) {
+    // A property's sibling conditions are its object's to resolve; anywhere else
+    // a sibling condition can only mean the schema's own property
+    result = toOneOf(result, !!conditional.ref);
+  }
+
+  return result;
+}
+
+/**
+ * Resolve the conditional properties of an object: those testing a sibling property
+ * split the object into variants, the others become a plain oneOf
+ */
+function resolvePropertyConditionals(schema: Record<string, any>): Record<string, any> {
+  const lifted = liftSiblingConditionals(schema);
+  if (lifted !== schema || !schema.properties) return lifted;
+
+  return {
+    ...schema,
+    properties: Object.fromEntries(Object.entries<any>(schema.properties).map(([name, child]) => [
+      name,
+      child?.[JOI_CONDITIONAL_KEY] ? toOneOf(child, false) : child,
+    ])),
+  };
+}
+
+/**
+ * Replace an object's properties that are conditional on the same sibling property
+ * with one variant of the object per value of that property
+ */
+function liftSiblingConditionals(schema: Record<string, any>): Record<string, any> {
+  const properties: Record<string, any> | undefined = schema.properties;
+  if (!properties) return schema;
+
+  const conditionalOf = (name: string): JoiConditional | undefined => properties[name]?.[JOI_CONDITIONAL_KEY];
+  const isLiftable = (name: string) => {
+    const conditional = conditionalOf(name);
+    // Only equality conditions (is: 'card') make a discriminator
+    return !!conditional?.ref && !conditional.self && conditional.ref !== name && conditional.ref in properties &&
+      conditional.branches.every(branch => !branch.values || branch.values.length > 0);
+  };
+
+  const first = Object.keys(properties).find(isLiftable);
+  if (!first) return schema;
+
+  const ref = conditionalOf(first)!.ref!;
+  const group = Object.keys(properties).filter(name => isLiftable(name) && conditionalOf(name)!.ref === ref);
+  const branches = group.flatMap(name => conditionalOf(name)!.branches);
+  const values = [...new Set(branches.flatMap(branch => branch.values || []))];
+  const known: any[] | undefined = properties[ref].enum;
+  const hasOtherwise = branches.some(branch => !branch.values);
+
+  // One variant per value of the tested property, and one for any other value (undefined)
+  const buildVariant = (value: any) => {
+    const variant: Record<string, any> = { ...withoutAnnotations(schema), properties: { ...properties } };
+    const required = new Set<string>([...(schema.required || []), ref]);
+    variant.properties[ref] = restrictValues(properties[ref], value === undefined ? undefined : [value], values);
+
+    group.forEach(name => {
+      const { [JOI_CONDITIONAL_KEY]: conditional, ...base } = properties[name];
+      const { branches: propertyBranches } = conditional as JoiConditional;
+      const branch = (value !== undefined && propertyBranches.find(candidate => candidate.values?.includes(value))) ||
+        propertyBranches.find(candidate => !candidate.values);
+      applyBranch(variant.properties, required, name, base, branch);
+    });
+
+    variant.required = [...required];
+    // Properties conditional on another sibling split each variant in turn
+    return resolvePropertyConditionals(variant);
+  };
+
+  const variants = values.map(value => buildVariant(value));
+  if (hasOtherwise && (!known || known.some(value => !values.includes(value)))) {
+    variants.push(buildVariant(undefined));
+  }
+
+  if (variants.length === 1) return { ...pickAnnotations(schema), ...variants[0] };
+  return {
+    ...pickAnnotations(schema),
+    oneOf: variants,
+    discriminator: { propertyName: ref },
+  };
+}
+
+/**
+ * A conditional schema as the oneOf of its branches, discriminated by the tested
+ * property of each branch when asked to. Branches that can't be told apart that
+ * way may overlap, so they become anyOf.
+ */
+function toOneOf(schema: Record<string, any>, discriminate: boolean): Record<string, any> {
+  const { [JOI_CONDITIONAL_KEY]: conditional, ...base } = schema;
+  const { ref, branches } = conditional as JoiConditional;
+  const canDiscriminate = discriminate && !!ref &&
+    branches.every(branch => !branch.values || branch.values.length > 0);
+
+  const equalityValues = branches.flatMap(branch => branch.values || []);
+  const options = branches
+    .filter(branch => branch.presence !== 'forbidden')
+    .map(branch => {
+      const option = mergeSchemas(withoutAnnotations(base), branch.schema);
+      if (!canDiscriminate || !ref || !isObjectSchema(option)) return option;
+
+      // Each option only takes its own values of the discriminator property
+      const property = option.properties?.[ref] || {};
+      return {
+        ...option,
+        properties: { ...(option.properties || {}), [ref]: restrictValues(property, branch.values, equalityValues) },
+        required: [...new Set([...(option.required || []), ref])],
+      };
+    });
+
+  // Branches that only change presence (when(..., { then: Joi.required() })) leave one option
+  const uniqueOptions = options.filter((option, index) =>
+    options.findIndex(other => JSON.stringify(other) === JSON.stringify(option)) === index);
+
+  if (uniqueOptions.length === 0) return base;
+  if (uniqueOptions.length === 1) return { ...pickAnnotations(base), ...uniqueOptions[0] };
+
+  if (!canDiscriminate || !uniqueOptions.every(isObjectSchema)) {
+    return { ...pickAnnotations(base), anyOf: uniqueOptions };
+  }
+  return {
+    ...pickAnnotations(base),
+    oneOf: uniqueOptions,
+    discriminator: { propertyName: ref },
+  };
+}
+
+// Set a conditional property of one variant from the branch that applies to it
+function applyBranch(
+  properties: Record<string, any>,
+  required: Set<string>,
+  name: string,
+  base: Record<string, any>,
+  branch: JoiConditionalBranch | undefined
+) {
+  if (branch?.presence === 'forbidden') {
+    delete properties[name];
+    required.delete(name);
+    return;
+  }
+
+  properties[name] = branch ? mergeSchemas(base, branch.schema) : base;
+  if (branch?.presence === 'required') required.add(name);
+  if (branch?.presence === 'optional') required.delete(name);
+}
+
+/**
+ * The tested property of one variant: the values it's for, or - for the otherwise
+ * variant - anything but the values of the other variants
+ */
+function restrictValues(property: Record<string, any>, values: any[] | undefined, otherValues: any[]): Record<string, any> {
+  if (values) return { ...property, enum: values };
+  if (Array.isArray(property.enum)) {
+    return { ...property, enum: property.enum.filter((value: any) => !otherValues.includes(value)) };
+  }
+  return otherValues.length > 0 ? { ...property, not: { enum: otherValues } } : property;
+}
+
+function isObjectSchema(schema: Record<string, any>): boolean {
+  return schema.type === 'object' || !!schema.properties;
+}
+
+// A branch applies on top of the schema it's attached to, like Joi's concat()
+function mergeSchemas(base: Record<string, any>, branch: Record<string, any>): Record<string, any> {
+  const merged = { ...base, ...branch };
+  if (base.properties && branch.properties) {
+    merged.properties = { ...base.properties, ...branch.properties };
+  }
+  const required = [...new Set([...(base.required || []), ...(branch.required || [])])];
+  if (required.length > 0) merged.required = required;
+  return merged;
+}
+
+// Keywords describing a schema - they stay on it rather than on each variant when it is split
+function isAnnotation(key: string): boolean {
+  return ['title', 'description', 'deprecated'].includes(key) || key.startsWith('x-');
+}
+
+function pickAnnotations(schema: Record<string, any>): Record<string, any> {
+  return Object.fromEntries(Object.entries(schema).filter(([key]) => isAnnotation(key)));
+}
+
+function withoutAnnotations(schema: Record<string, any>): Record<string, any> {
+  return Object.fromEntries(Object.entries(schema).filter(([key]) => !isAnnotation(key)));
+}
@@ -1,137 +1,121 @@
 import * as fs from 'fs-extra';
 import * as path from 'path';
-// joi-to-json exports a parse function for converting Joi to JSON Schema
-const joiToJsonParse = require('joi-to-json');
+import { getSourceFile } from './moduleResolver';
+import { applyJoiMeta, extractStaticJoiSchema, interpretJoiExpression, JOI_COMPONENT_KEY } from './staticJoiExtractor';
+import {
+  addJoiConditional,
+  JOI_CONDITIONAL_KEY,
+  JoiConditional,
+  JoiConditionalBranch,
+  resolveJoiConditionals,
+} from './joiConditionals';
+import { loadJoiSchemaInWorker } from './joiWorker';
+import { SwaggerifyOptions, ValidatorSchemaResult } from './types';
+import {
+  isValidatorReference,
+  locateValidatorByConvention,
+  locateValidatorThroughImports,
+  ValidatorLocation,
+} from './validatorLocator';
+type JoiToJson = (joiObj: any, type?: string, definitions?: Record<string, any>, parserOptions?: Record<string, any>) => any;
+
+// joi-to-json's parse(), loaded on first conversion - see getJoiToJson
+let joiToJson: JoiToJson | null | undefined;
+
+// Schema Object keywords of OpenAPI 3.0, kept by cleanJsonSchema along with x- extensions
+const OPENAPI_SCHEMA_KEYWORDS = [
+  '$ref', 'title', 'description', 'type', 'format', 'default', 'enum', 'nullable',
+  'multipleOf', 'minimum', 'maximum', 'exclusiveMinimum', 'exclusiveMaximum',
+  'minLength', 'maxLength', 'pattern', 'minItems', 'maxItems', 'uniqueItems',
+  'minProperties', 'maxProperties', 'required', 'properties', 'additionalProperties', 'items',
+  'allOf', 'oneOf', 'anyOf', 'not', 'discriminator',
+  'readOnly', 'writeOnly', 'deprecated', 'example', 'externalDocs', 'xml',
+];
+
+// joi-to-json's types for Joi.any()
+const ANY_VALUE_TYPES = ['array', 'boolean', 'number', 'object', 'string'];
+
+// Try to import TypeScript, fallback gracefully if not available
+let tsModule: typeof import('typescript') | null = null;
+try {
+  tsModule = require('typescript');
+} catch (error) {
+  // TypeScript not available
+}
+
+type TypeScriptModule = typeof import('typescript');
 
 /**
  * Load and convert Joi schema from validator files
- * This uses ts-node to dynamically load TypeScript validator modules
+ * This uses ts-node to dynamically load TypeScript validator modules - in a
+ * child process with `joiMode: 'isolated'` - or with `joiMode: 'static'`
+ * interprets the schema's source without running it
  */
 export async function loadJoiSchemaFromValidator(
   schemaRef: string,
   routeFilePath?: string,
-  validatorsDir?: string
-): Promise<{ schema: any } | null> {
+  validatorsDir?: string,
+  options: SwaggerifyOptions = {}
+): Promise<ValidatorSchemaResult | null> {
   try {
-    // Parse schema reference (e.g., "authSchemas.register" -> "authSchemas" and "register")
-    const parts = schemaRef.split('.');
-    if (parts.length < 2) {
+    const isStatic = options.joiMode === 'static';
+    if (isStatic && !tsModule) {
+      console.log(`  ⚠️  TypeScript is required for static Joi extraction of ${schemaRef}`);
       return null;
     }
 
-    const schemaGroup = parts[0]; // e.g., "authSchemas"
-    const schemaName = parts[parts.length - 1]; // e.g., "register"
-
-    // Try to find validator file
-    const possibleValidatorFiles = [
-      path.join(process.cwd(), validatorsDir || 'src/api/v1/validators', `${schemaGroup.replace('Schemas', '')}.ts`),
-      path.join(process.cwd(), validatorsDir || 'src/api/v1/validators', `${schemaGroup.toLowerCase().replace('schemas', '')}.ts`),
-      path.join(process.cwd(), 'src', 'validators', `${schemaGroup.replace('Schemas', '')}.ts`),
-    ];
-
-    // Also try to resolve from route file location
-    if (routeFilePath) {
-      const routeDir = path.dirname(routeFilePath);
-      possibleValidatorFiles.push(
-        path.join(routeDir, '..', 'validators', `${schemaGroup.replace('Schemas', '')}.ts`),
-        path.join(routeDir, '..', '..', 'validators', `${schemaGroup.replace('Schemas', '')}.ts`),
-        path.join(routeDir, 'validators', `${schemaGroup.replace('Schemas', '')}.ts`),
-      );
-    }
-
-    let validatorFile: string | null = null;
-    for (const file of possibleValidatorFiles) {
-      if (await fs.pathExists(file)) {
-        validatorFile = file;
-        break;
+    // Only references like loginSchema or authSchemas.register can be loaded;
+    // inline schemas (celebrate({ body: Joi.object(...) })) can only be read statically
+    if (!isValidatorReference(schemaRef)) {
+      if (isStatic && routeFilePath) {
+        return extractInlineSchema(tsModule!, schemaRef, routeFilePath);
       }
-    }
-
-    if (!validatorFile) {
-      console.log(`  ⚠️  Validator file not found for ${schemaRef}`);
+      console.log(`  ⚠️  Cannot load validator ${schemaRef} - not a reference to an exported schema`);
       return null;
     }
 
-    console.log(`  ✅ Found validator file: ${validatorFile} for ${schemaRef}`);
+    // The route file's imports point at the exact module; naming conventions are the fallback
+    let locations = tsModule && routeFilePath ? locateValidatorThroughImports(tsModule, schemaRef, routeFilePath) : [];
+    if (locations.length === 0) {
+      locations = await locateValidatorByConvention(schemaRef, routeFilePath, validatorsDir);
+    }
 
-    // Use ts-node to dynamically require the TypeScript module
-    // We need to register ts-node with the project's tsconfig
-    let tsNode: any;
-    try {
-      tsNode = require('ts-node');
-    } catch (error) {
-      console.log(`  ⚠️  ts-node not found. Please install ts-node to use Joi schema extraction: npm install -D ts-node`);
+    if (locations.length === 0) {
+      console.log(`  ⚠️  Validator file not found for ${schemaRef}`);
       return null;
     }
 
-    const tsConfigPath = path.join(process.cwd(), 'tsconfig.json');
-
-    // Register ts-node if not already registered
-    // Check if ts-node is already registered by checking if .ts files can be required
-    if (!(global as any).__tsNodeRegistered) {
-      try {
-        tsNode.register({
-          project: (await fs.pathExists(tsConfigPath)) ? tsConfigPath : undefined,
-          transpileOnly: true,
-          compilerOptions: {
-            module: 'commonjs',
-          },
-        });
-        (global as any).__tsNodeRegistered = true;
-      } catch (error) {
-        // ts-node might already be registered, continue
+    if (isStatic) {
+      for (const location of locations) {
+        for (const propertyPath of location.propertyPaths) {
+          const schema = extractStaticJoiSchema(tsModule!, location.filePath, propertyPath);
+          if (schema) {
+            console.log(`  ✅ Read Joi schema ${schemaRef} from ${path.relative(process.cwd(), location.filePath)}`);
+            return liftJoiComponents(schema);
+          }
+        }
       }
+      console.log(`  ⚠️  Could not read Joi schema ${schemaRef} statically`);
+      return null;
     }
 
-    // Dynamically require the validator module
-    // Remove .ts extension and resolve the module
-    const modulePath = validatorFile.replace(/\.ts$/, '');
-    const validatorModule = require(modulePath);
-
-    // Extract the schema from the module
-    // Handle both: export const authSchemas = { register: Joi.object(...) }
-    // and: export const register = Joi.object(...)
-    let joiSchema: any = null;
-
-    if (validatorModule[schemaGroup] && validatorModule[schemaGroup][schemaName]) {
-      // Pattern: authSchemas.register
-      joiSchema = validatorModule[schemaGroup][schemaName];
-    } else if (validatorModule[schemaName]) {
-      // Pattern: direct export
-      joiSchema = validatorModule[schemaName];
-    } else {
-      // Try to find by removing 'Schemas' suffix
-      const groupWithoutSchemas = schemaGroup.replace('Schemas', '');
-      if (validatorModule[groupWithoutSchemas] && validatorModule[groupWithoutSchemas][schemaName]) {
-        joiSchema = validatorModule[groupWithoutSchemas][schemaName];
-      }
+    // Validator modules can hang or crash - load them in a child process when asked to
+    if (options.joiMode === 'isolated') {
+      return await loadJoiSchemaInWorker(schemaRef, locations, options.joiWorker);
     }
 
-    if (!joiSchema) {
-      console.log(`  ⚠️  Schema ${schemaName} not found in ${schemaGroup} from ${validatorFile}`);
+    if (!(await registerTsNode())) {
       return null;
     }
 
-    console.log(`  ✅ Found Joi schema: ${schemaName} in ${schemaGroup}`);
-
-    // Verify it's actually a Joi schema before converting
-    if (!joiSchema || (typeof joiSchema !== 'object' && typeof joiSchema !== 'function')) {
-      console.log(`  ⚠️  Schema ${schemaName} is not a valid Joi schema object`);
+    const joiSchema = findValidatorSchema(schemaRef, locations);
+    if (!joiSchema) {
       return null;
     }
 
     // Convert Joi schema to JSON Schema (OpenAPI compatible)
     try {
-      // Use 'open-api-3.1' for OpenAPI 3.1 or 'open-api' for OpenAPI 3.0
-      const jsonSchema = joiToJsonParse(joiSchema, 'open-api-3.1', {}, {
-        required: true, // Include required fields
-      });
-
-      // The result is already an OpenAPI-compatible schema
-      // Clean it up to ensure proper format
-      const openApiSchema = cleanJsonSchema(jsonSchema);
-
-      return { schema: openApiSchema };
+      return convertJoiSchema(joiSchema);
     } catch (error) {
       console.log(`  ⚠️  Error converting Joi schema ${schemaRef} to JSON Schema:`, (error as Error).message);
       return null;
@@ -144,90 +128,417 @@ export async function loadJoiSchemaFromValidator(
 }
 
 /**
- * Clean and normalize JSON Schema to be OpenAPI 3.0 compatible
+ * Register ts-node (and tsconfig-paths, when installed) so TypeScript validator
+ * modules can be required. Returns false when ts-node isn't installed.
  */
-function cleanJsonSchema(schema: any): any {
-  if (!schema || typeof schema !== 'object') {
-    return schema;
+export async function registerTsNode(): Promise<boolean> {
+  // We need to register ts-node with the project's tsconfig
+  let tsNode: any;
+  try {
+    tsNode = require('ts-node');
+  } catch (error) {
+    console.log(`  ⚠️  ts-node not found. Please install ts-node to use Joi schema extraction: npm install -D ts-node`);
+    return false;
   }
 
-  const cleaned: any = {};
+  const tsConfigPath = path.join(process.cwd(), 'tsconfig.json');
 
-  // Handle nullable types: convert type: ['string', 'null'] to type: 'string', nullable: true
-  if (schema.type !== undefined) {
-    if (Array.isArray(schema.type)) {
-      // Check if array contains 'null'
-      const hasNull = schema.type.includes('null');
-      const nonNullTypes = schema.type.filter((t: any) => t !== 'null');
-
-      if (hasNull && nonNullTypes.length === 1) {
-        // Convert ['string', 'null'] to type: 'string', nullable: true
-        cleaned.type = nonNullTypes[0];
-        cleaned.nullable = true;
-      } else if (hasNull && nonNullTypes.length > 1) {
-        // Multiple non-null types with null: keep as oneOf
-        cleaned.oneOf = [
-          ...nonNullTypes.map((t: any) => ({ type: t })),
-          { type: 'null' }
-        ];
-      } else {
-        // No null, just use the types as-is
-        cleaned.type = schema.type;
+  // Register ts-node if not already registered
+  // Check if ts-node is already registered by checking if .ts files can be required
+  if (!(global as any).__tsNodeRegistered) {
+    try {
+      tsNode.register({
+        project: (await fs.pathExists(tsConfigPath)) ? tsConfigPath : undefined,
+        transpileOnly: true,
+        compilerOptions: {
+          module: 'commonjs',
+        },
+      });
+      (global as any).__tsNodeRegistered = true;
+    } catch (error) {
+      // ts-node might already be registered, continue
+    }
+
+    // Path aliases used inside validator modules (@/schemas/...), when tsconfig-paths is installed
+    try {
+      require('tsconfig-paths/register');
+    } catch (error) {
+      // tsconfig-paths not available
+    }
+  }
+
+  return true;
+}
+
+/**
+ * Require the validator modules in turn and return the first schema found at
+ * one of their property paths
+ */
+export function findValidatorSchema(schemaRef: string, locations: ValidatorLocation[]): any {
+  // Dynamically require the validator module and look the schema up in it
+  let joiSchema: any = null;
+  for (const location of locations) {
+    let validatorModule: any;
+    try {
+      validatorModule = require(location.filePath.replace(/\.ts$/, ''));
+    } catch (error) {
+      console.log(`  ⚠️  Could not load ${path.relative(process.cwd(), location.filePath)}:`, (error as Error).message);
+      continue;
+    }
+
+    for (const propertyPath of location.propertyPaths) {
+      const value = propertyPath.reduce((current, key) => (current == null ? undefined : current[key]), validatorModule);
+      if (value) {
+        joiSchema = value;
+        console.log(`  ✅ Found validator file: ${location.filePath} for ${schemaRef}`);
+        break;
       }
-    } else {
-      cleaned.type = schema.type;
     }
+    if (joiSchema) break;
+  }
+
+  if (!joiSchema) {
+    console.log(`  ⚠️  Schema ${schemaRef} not found in ${locations.map(location => location.filePath).join(', ')}`);
+    return null;
+  }
+
+  console.log(`  ✅ Found Joi schema: ${schemaRef}`);
+
+  // Verify it's actually a Joi schema before converting
+  if (typeof joiSchema !== 'object' && typeof joiSchema !== 'function') {
+    console.log(`  ⚠️  Schema ${schemaRef} is not a valid Joi schema object`);
+    return null;
+  }
+
+  return joiSchema;
+}
+
+/**
+ * Convert a loaded Joi schema to an OpenAPI schema. Schemas named with
+ * meta({ ref }) or id() become components. Throws when joi-to-json can't convert it.
+ */
+export function convertJoiSchema(joiSchema: any): ValidatorSchemaResult {
+  if (typeof joiSchema?.describe !== 'function') {
+    throw new Error('Not a Joi schema');
+  }
+
+  // id() schemas come back as definitions, referenced as #/components/schemas/<id>
+  const context: JoiConversionContext = { definitions: {}, seenIds: new Set() };
+  const jsonSchema = convertJoiDescription(joiSchema.describe(), context);
+
+  const components: Record<string, any> = {};
+  Object.entries(context.definitions).forEach(([name, definition]) => {
+    components[name] = cleanJsonSchema(definition);
+  });
+
+  return liftJoiComponents(cleanJsonSchema(jsonSchema), components);
+}
+
+interface JoiConversionContext {
+  definitions: Record<string, any>; // id() schemas, shared by the schema and its condition branches
+  seenIds: Set<string>; // id() schemas applyJoiDescription has been through
+}
+
+/**
+ * joi-to-json's parse(), loaded on first use so a joi-to-json that is missing
+ * or broken only fails Joi conversion
+ */
+function getJoiToJson(): JoiToJson | null {
+  if (joiToJson === undefined) {
+    try {
+      joiToJson = require('joi-to-json') as JoiToJson;
+    } catch (error) {
+      console.log(`  ⚠️  Could not load joi-to-json:`, (error as Error).message);
+      joiToJson = null;
+    }
+  }
+  return joiToJson;
+}
+
+/**
+ * Convert a Joi describe() output with joi-to-json's public parse(). Conditions
+ * are left out of what it's given - applyJoiDescription reads them, along with
+ * the metadata joi-to-json drops.
+ */
+function convertJoiDescription(description: any, context: JoiConversionContext): Record<string, any> {
+  const parse = getJoiToJson();
+  if (!parse) {
+    throw new Error('joi-to-json could not be loaded');
+  }
+
+  const unconditional = withoutConditions(description);
+  // The root schema also carries the definitions - they are read from context instead
+  const { schemas, ...schema } = parse({ describe: () => unconditional }, 'open-api-3.1', context.definitions, {
+    required: true, // Include required fields
+  });
+  applyJoiDescription(schema, description, context);
+  return schema;
+}
+
+// A describe() output without when() conditions and alternatives().conditional() matches
+function withoutConditions(description: any): any {
+  if (Array.isArray(description)) return description.map(withoutConditions);
+  if (!description || typeof description !== 'object') return description;
+
+  const { whens, ...rest } = description;
+  const copy = Object.fromEntries(Object.entries(rest).map(([key, value]) => [key, withoutConditions(value)]));
+  if (isConditionalAlternatives(description)) copy.matches = [];
+  return copy;
+}
+
+function isConditionalAlternatives(description: any): boolean {
+  return description.type === 'alternatives' && description.matches?.length > 0 && !description.matches[0].schema;
+}
+
+/**
+ * Add what joi-to-json leaves out, walking the schema's describe() output
+ * alongside the converted schema: label() as the title, note() after the
+ * description, meta() keys, and the branches of when() and
+ * alternatives().conditional() for resolveJoiConditionals
+ */
+function applyJoiDescription(schema: any, description: any, context: JoiConversionContext) {
+  if (!schema || typeof schema !== 'object' || !description || typeof description !== 'object') return;
+  // Forbidden schemas convert to { not: {} }
+  if (description.flags?.presence === 'forbidden') return;
+
+  // id() schemas are converted once, into definitions
+  const id = description.flags?.id;
+  if (typeof id === 'string') {
+    if (context.seenIds.has(id) || !context.definitions[id]) return;
+    context.seenIds.add(id);
+    schema = context.definitions[id];
   }
 
-  if (schema.properties !== undefined) {
-    cleaned.properties = {};
-    Object.keys(schema.properties).forEach(key => {
-      cleaned.properties[key] = cleanJsonSchema(schema.properties[key]);
+  const notes: string[] = description.notes || [];
+  if (notes.length > 0) {
+    schema.description = [schema.description, ...notes].filter(Boolean).join('\n\n');
+  }
+  const label = description.flags?.label;
+  if (typeof label === 'string' && schema.title === undefined) schema.title = label;
+  (description.metas || []).forEach((meta: any) => {
+    if (meta && typeof meta === 'object') applyJoiMeta(schema, meta);
+  });
+
+  (description.whens || []).forEach((condition: any) => {
+    const conditional = readJoiCondition(condition, true, context);
+    if (conditional) addJoiConditional(schema, conditional);
+  });
+  if (isConditionalAlternatives(description)) {
+    // Left without matches, the alternatives keep their own type
+    if (schema.type === 'alternatives') delete schema.type;
+    description.matches.forEach((condition: any) => {
+      const conditional = readJoiCondition(condition, false, context);
+      if (conditional) addJoiConditional(schema, conditional);
     });
   }
 
-  if (schema.required !== undefined && Array.isArray(schema.required)) {
-    cleaned.required = schema.required;
+  Object.entries<any>(description.keys || {}).forEach(([name, key]) => {
+    applyJoiDescription(schema.properties?.[name], key, context);
+  });
+
+  // A single items() schema is the items schema, several are its anyOf
+  const items: any[] = description.items || [];
+  items.forEach((item, index) => {
+    applyJoiDescription(items.length === 1 ? schema.items : schema.items?.anyOf?.[index], item, context);
+  });
+
+  // alternatives().try() options are the schema's anyOf/oneOf/allOf - a single one is merged into it
+  const options: any[] = (description.matches || []).filter((match: any) => match.schema).map((match: any) => match.schema);
+  const mode = ['anyOf', 'oneOf', 'allOf'].find(keyword => schema[keyword]?.length === options.length);
+  options.forEach((option, index) => {
+    if (mode) applyJoiDescription(schema[mode][index], option, context);
+    else if (options.length === 1) applyJoiDescription(schema, option, context);
+  });
+}
+
+/**
+ * The branches of a described when() or alternatives().conditional() condition,
+ * with the values of the tested property each applies to
+ */
+function readJoiCondition(condition: any, isWhen: boolean, context: JoiConversionContext): JoiConditional | null {
+  const target = getConditionTarget(condition);
+  const branches: JoiConditionalBranch[] = [];
+
+  (condition.switch || [condition]).forEach((match: any) => {
+    const values = target.ref ? getConditionValues(target.isKey ? match.is?.keys?.[target.ref] : match.is) : [];
+    if (match.then) branches.push({ values, ...convertJoiBranch(match.then, context) });
+    if (match.otherwise) branches.push(convertJoiBranch(match.otherwise, context));
+  });
+
+  if (branches.length === 0) return null;
+
+  // A when() without otherwise leaves the schema as it is
+  if (isWhen && branches.every(branch => branch.values)) branches.push({ schema: {} });
+  return { ...(target.ref ? { ref: target.ref, self: target.self } : {}), branches };
+}
+
+function convertJoiBranch(description: any, context: JoiConversionContext): JoiConditionalBranch {
+  const presence = description.flags?.presence;
+  // Forbidden branches convert to { not: {} } - only their presence matters
+  const schema = presence === 'forbidden' ? {} : convertJoiDescription(description, context);
+  return presence ? { schema, presence } : { schema };
+}
+
+/**
+ * The property a described Joi condition tests: its ref (when('method'), '.type'
+ * for the schema's own property) or the one key a schema condition requires a value of
+ */
+function getConditionTarget(condition: any): { ref?: string; self?: boolean; isKey?: boolean } {
+  const ref = condition.ref;
+  if (ref) {
+    const ancestor = ref.ancestor === undefined ? 1 : ref.ancestor;
+    if (ref.path?.length !== 1 || (ancestor !== 0 && ancestor !== 1)) return {};
+    return ancestor === 0 ? { ref: ref.path[0], self: true } : { ref: ref.path[0] };
+  }
+
+  // alternatives().conditional(Joi.object({ type: Joi.valid('card') }).unknown(), ...)
+  const is = condition.is || condition.switch?.[0]?.is;
+  const keys = Object.entries<any>(is?.type === 'object' ? is.keys || {} : {}).filter(([, key]) => key.flags?.only);
+  return keys.length === 1 ? { ref: keys[0][0], self: true, isKey: true } : {};
+}
+
+// The values an is schema matches, or none when it isn't an equality (is: Joi.exist())
+function getConditionValues(is: any): any[] {
+  if (!is?.flags?.only) return [];
+  return (is.allow || []).filter((value: any) => !(value && typeof value === 'object'));
+}
+
+/**
+ * Move the schemas named with meta({ ref: 'User' }) into components, leaving
+ * $refs in their place, once conditionals are resolved into oneOf. A named root
+ * schema is returned as the type name.
+ */
+function liftJoiComponents(schema: any, components: Record<string, any> = {}): ValidatorSchemaResult {
+  Object.keys(components).forEach(name => {
+    components[name] = resolveJoiConditionals(components[name]);
+  });
+
+  const lift = (node: any): any => {
+    if (Array.isArray(node)) return node.map(lift);
+    if (!node || typeof node !== 'object') return node;
+
+    const { [JOI_COMPONENT_KEY]: name, ...rest } = node;
+    const lifted = Object.fromEntries(Object.entries(rest).map(([key, value]) => [key, lift(value)]));
+    if (typeof name !== 'string') return lifted;
+
+    components[name] = lifted;
+    return { $ref: `#/components/schemas/${name}` };
+  };
+
+  const { [JOI_COMPONENT_KEY]: typeName, ...root } = resolveJoiConditionals(schema);
+  const result: ValidatorSchemaResult = { schema: lift(root) };
+  if (typeof typeName === 'string') result.typeName = typeName;
+  if (Object.keys(components).length > 0) result.components = components;
+  return result;
+}
+
+/**
+ * Read a schema written inline in the route file, resolving its identifiers
+ * against the route file's imports
+ */
+function extractInlineSchema(ts: TypeScriptModule, schemaText: string, routeFilePath: string): ValidatorSchemaResult | null {
+  const routeFile = getSourceFile(ts, routeFilePath);
+  const expressionFile = ts.createSourceFile('inline-schema.ts', `(${schemaText})`, ts.ScriptTarget.Latest, true);
+  const statement = expressionFile.statements[0];
+  if (!routeFile || !statement || !ts.isExpressionStatement(statement)) {
+    return null;
   }
 
-  if (schema.items !== undefined) {
-    cleaned.items = cleanJsonSchema(schema.items);
+  const schema = interpretJoiExpression(ts, statement.expression, routeFile);
+  if (!schema) {
+    console.log(`  ⚠️  Could not read inline Joi schema ${schemaText}`);
+    return null;
   }
 
-  // Copy format, pattern, minLength, maxLength, minimum, maximum
-  if (schema.format !== undefined) cleaned.format = schema.format;
-  if (schema.pattern !== undefined) cleaned.pattern = schema.pattern;
-  if (schema.minLength !== undefined) cleaned.minLength = schema.minLength;
-  if (schema.maxLength !== undefined) cleaned.maxLength = schema.maxLength;
-  if (schema.minimum !== undefined) cleaned.minimum = schema.minimum;
-  if (schema.maximum !== undefined) cleaned.maximum = schema.maximum;
+  console.log(`  ✅ Read inline Joi schema`);
+  return liftJoiComponents(schema);
+}
 
-  // Handle enum: remove null from enum array and set nullable instead
-  if (schema.enum !== undefined) {
-    if (Array.isArray(schema.enum) && schema.enum.includes(null)) {
-      cleaned.enum = schema.enum.filter((v: any) => v !== null);
-      cleaned.nullable = true;
+/**
+ * Convert joi-to-json's OpenAPI 3.1 output to an OpenAPI 3.0 schema: every keyword
+ * 3.0 has is kept (x- extensions too), and the 3.1 forms of null types, const,
+ * examples and numeric exclusive bounds are rewritten
+ */
+function cleanJsonSchema(schema: any): any {
+  if (!schema || typeof schema !== 'object') {
+    return schema;
+  }
+
+  const cleaned: any = {};
+
+  Object.keys(schema).forEach(key => {
+    const value = schema[key];
+    if (key === JOI_COMPONENT_KEY) {
+      cleaned[key] = value;
+    } else if (key === JOI_CONDITIONAL_KEY) {
+      cleaned[key] = {
+        ...value,
+        branches: value.branches.map((branch: JoiConditionalBranch) => ({ ...branch, schema: cleanJsonSchema(branch.schema) })),
+      };
+    } else if (!OPENAPI_SCHEMA_KEYWORDS.includes(key) && !key.startsWith('x-')) {
+      return;
+    } else if (key === 'properties') {
+      cleaned.properties = {};
+      Object.keys(value).forEach(name => {
+        cleaned.properties[name] = cleanJsonSchema(value[name]);
+      });
+    } else if (['items', 'not', 'additionalProperties'].includes(key)) {
+      cleaned[key] = cleanJsonSchema(value);
+    } else if (['oneOf', 'anyOf', 'allOf'].includes(key) && Array.isArray(value)) {
+      cleaned[key] = value.map((s: any) => cleanJsonSchema(s));
     } else {
-      cleaned.enum = schema.enum;
+      cleaned[key] = value;
     }
+  });
+
+  // Handle nullable types: convert type: ['string', 'null'] to type: 'string', nullable: true
+  if (Array.isArray(cleaned.type)) {
+    const types: string[] = cleaned.type;
+    const nonNullTypes = types.filter(t => t !== 'null');
+    if (nonNullTypes.length < types.length) cleaned.nullable = true;
+
+    if (nonNullTypes.length === 1) {
+      cleaned.type = nonNullTypes[0];
+    } else if (ANY_VALUE_TYPES.every(t => nonNullTypes.includes(t))) {
+      // Joi.any() comes back as every type - that's no type at all
+      delete cleaned.type;
+      delete cleaned.nullable;
+    } else {
+      delete cleaned.type;
+      if (nonNullTypes.length > 1) cleaned.oneOf = nonNullTypes.map(t => ({ type: t }));
+    }
+  } else if (cleaned.type === 'null') {
+    delete cleaned.type;
+    cleaned.nullable = true;
   }
 
-  if (schema.default !== undefined) cleaned.default = schema.default;
-  if (schema.description !== undefined) cleaned.description = schema.description;
-  if (schema.example !== undefined) cleaned.example = schema.example;
+  // valid('admin') comes back as const
+  if (schema.const === null) {
+    cleaned.nullable = true;
+  } else if (schema.const !== undefined) {
+    cleaned.enum = [schema.const];
+    if (cleaned.type === undefined && ['string', 'number', 'boolean'].includes(typeof schema.const)) {
+      cleaned.type = typeof schema.const;
+    }
+  }
 
-  // Preserve nullable if explicitly set
-  if (schema.nullable !== undefined) cleaned.nullable = schema.nullable;
+  // Handle enum: remove null from enum array and set nullable instead
+  if (Array.isArray(cleaned.enum) && cleaned.enum.includes(null)) {
+    cleaned.enum = cleaned.enum.filter((v: any) => v !== null);
+    cleaned.nullable = true;
+  }
 
-  // Handle oneOf/anyOf/allOf
-  if (schema.oneOf !== undefined) {
-    cleaned.oneOf = schema.oneOf.map((s: any) => cleanJsonSchema(s));
+  // OpenAPI 3.0 has a single example and boolean exclusive bounds
+  if (Array.isArray(schema.examples) && schema.examples.length > 0 && cleaned.example === undefined) {
+    cleaned.example = schema.examples[0];
   }
-  if (schema.anyOf !== undefined) {
-    cleaned.anyOf = schema.anyOf.map((s: any) => cleanJsonSchema(s));
+  if (typeof cleaned.exclusiveMinimum === 'number') {
+    cleaned.minimum = cleaned.exclusiveMinimum;
+    cleaned.exclusiveMinimum = true;
   }
-  if (schema.allOf !== undefined) {
-    cleaned.allOf = schema.allOf.map((s: any) => cleanJsonSchema(s));
+  if (typeof cleaned.exclusiveMaximum === 'number') {
+    cleaned.maximum = cleaned.exclusiveMaximum;
+    cleaned.exclusiveMaximum = true;
   }
 
   return cleaned;
@@ -0,0 +1,145 @@
+import { fork } from 'child_process';
+import * as path from 'path';
+import { JoiWorkerOptions, ValidatorSchemaResult } from './types';
+import type { ValidatorLocation } from './validatorLocator';
+
+const DEFAULT_TIMEOUT = 10000;
+
+interface WorkerRequest {
+  schemaRef: string;
+  locations: ValidatorLocation[];
+  stubs: Record<string, any>;
+}
+
+type WorkerResponse = ValidatorSchemaResult | { error: string };
+
+/**
+ * Load a Joi validator in a child process and return its converted schema.
+ * A module that throws, hangs past the timeout or kills the process only
+ * fails this schema; the reason is logged and null returned.
+ */
+export function loadJoiSchemaInWorker(
+  schemaRef: string,
+  locations: ValidatorLocation[],
+  workerOptions: JoiWorkerOptions = {}
+): Promise<ValidatorSchemaResult | null> {
+  const timeout = workerOptions.timeout ?? DEFAULT_TIMEOUT;
+
+  return new Promise(resolve => {
+    // Running from source (ts-node) the worker needs ts-node too
+    const child = fork(__filename, [], {
+      cwd: process.cwd(),
+      env: { ...process.env, ...(workerOptions.env || {}) },
+      execArgv: path.extname(__filename) === '.ts' ? ['-r', require.resolve('ts-node/register/transpile-only')] : [],
+      stdio: ['ignore', 'inherit', 'pipe', 'ipc'],
+    });
+
+    let stderr = '';
+    let settled = false;
+    const finish = (result: ValidatorSchemaResult | null, failure?: string) => {
+      if (settled) return;
+      settled = true;
+      clearTimeout(timer);
+      if (failure) {
+        console.log(`  ⚠️  Validator worker failed for ${schemaRef}: ${failure}`);
+      }
+      if (child.exitCode === null) {
+        child.kill();
+      }
+      resolve(result);
+    };
+
+    const timer = setTimeout(() => finish(null, `timed out after ${timeout}ms`), timeout);
+
+    child.stderr?.on('data', chunk => {
+      stderr += chunk.toString();
+    });
+    child.on('message', (response: WorkerResponse) => {
+      if ('schema' in response) {
+        finish(response);
+      } else {
+        finish(null, response.error);
+      }
+    });
+    child.on('error', error => finish(null, error.message));
+    child.on('exit', (code, signal) => {
+      const lastError = stderr.trim().split('\n').slice(-3).join(' | ');
+      finish(null, `worker exited (${signal || `code ${code}`})${lastError ? `: ${lastError}` : ''}`);
+    });
+
+    const request: WorkerRequest = { schemaRef, locations, stubs: workerOptions.stubs || {} };
+    child.send(request);
+  });
+}
+
+/**
+ * Replace stubbed modules with their configured values. A stub key matches a
+ * require() specifier as written ('../db') or, for relative/absolute keys, the
+ * file it points at from cwd ('./src/db')
+ */
+function installModuleStubs(stubs: Record<string, any>) {
+  const keys = Object.keys(stubs);
+  if (keys.length === 0) return;
+
+  const Module = require('module');
+  const withoutExtension = (filePath: string) => filePath.replace(/\.[cm]?[jt]s$/, '').replace(/[\\/]index$/, '');
+  const stubPaths = new Map<string, string>(
+    keys
+      .filter(key => key.startsWith('.') || path.isAbsolute(key))
+      .map(key => [withoutExtension(path.resolve(process.cwd(), key)), key])
+  );
+
+  const originalLoad = Module._load;
+  Module._load = function (request: string, parent: any, ...rest: any[]) {
+    if (Object.prototype.hasOwnProperty.call(stubs, request)) {
+      return stubs[request];
+    }
+    if ((request.startsWith('.') || path.isAbsolute(request)) && parent?.filename) {
+      const target = withoutExtension(path.resolve(path.dirname(parent.filename), request));
+      const key = stubPaths.get(target);
+      if (key !== undefined) {
+        return stubs[key];
+      }
+    }
+    return originalLoad.call(this, request, parent, ...rest);
+  };
+}
+
+async function runWorker(request: WorkerRequest): Promise<WorkerResponse> {
+  // Loaded lazily so the parent process doesn't pay for it
+  const { convertJoiSchema, findValidatorSchema, registerTsNode } = await import('./joiExtractor');
+
+  installModuleStubs(request.stubs);
+
+  // Running from source, ts-node was already registered through execArgv
+  if (path.extname(__filename) === '.ts') {
+    (global as any).__tsNodeRegistered = true;
+  }
+
+  if (!(await registerTsNode())) {
+    return { error: 'ts-node is not installed' };
+  }
+
+  const joiSchema = findValidatorSchema(request.schemaRef, request.locations);
+  if (!joiSchema) {
+    return { error: 'schema not found' };
+  }
+
+  try {
+    // The schema goes back over IPC, so it must survive JSON serialization
+    return JSON.parse(JSON.stringify(convertJoiSchema(joiSchema)));
+  } catch (error) {
+    return { error: `conversion failed: ${(error as Error).message}` };
+  }
+}
+
+if (require.main === module) {
+  process.once('message', (request: WorkerRequest) => {
+    runWorker(request)
+      .catch(error => ({ error: (error as Error).message }))
+      .then(response => {
+        // Exit right away - validator modules may leave handles (DB pools, timers) open
+        process.send!(response, () => process.exit(0));
+      });
+  });
+}
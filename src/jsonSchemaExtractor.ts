@@ -0,0 +1,408 @@
+import * as path from 'path';
+import { findImportBinding } from './moduleResolver';
+import {
+  evaluateEnumValues,
+  evaluateLiteral,
+  getPropertyName,
+  MAX_DEPTH,
+  resolveReference,
+  ScopedExpression,
+  unwrap,
+} from './staticEvaluator';
+import { findValidatorExpressions } from './validatorLocator';
+
+// Try to import TypeScript, fallback gracefully if not available
+let tsModule: typeof import('typescript') | null = null;
+try {
+  tsModule = require('typescript');
+} catch (error) {
+  // TypeScript not available
+}
+
+type TypeScriptModule = typeof import('typescript');
+
+// Module specifiers Type can be imported from
+const TYPEBOX_MODULES = ['@sinclair/typebox', 'typebox'];
+
+// Base schemas created by Type.<kind>(), as TypeBox emits them
+const TYPEBOX_KINDS: Record<string, Record<string, any>> = {
+  String: { type: 'string' },
+  Number: { type: 'number' },
+  Integer: { type: 'integer' },
+  Boolean: { type: 'boolean' },
+  Null: { type: 'null' },
+  Date: { type: 'string', format: 'date-time' },
+  Object: { type: 'object' },
+  Array: { type: 'array' },
+  Tuple: { type: 'array' },
+  Record: { type: 'object' },
+  Union: {},
+  Intersect: {},
+  Literal: {},
+  Enum: {},
+  Optional: {},
+  Readonly: {},
+  ReadonlyOptional: {},
+  Partial: {},
+  Required: {},
+  Pick: {},
+  Omit: {},
+  Any: {},
+  Unknown: {},
+  Unsafe: {},
+};
+
+// Keywords that only make sense as JSON Schema document metadata
+const DOCUMENT_KEYWORDS = ['$schema', '$id', '$comment', 'definitions', '$defs'];
+
+// Marks a Type.Optional() property, as TypeBox does with its own symbol
+const OPTIONAL = Symbol('optional');
+
+/**
+ * Convert a TypeBox schema or a JSON Schema object (validated with AJV) to an
+ * OpenAPI schema - same contract as loadJoiSchemaFromValidator. Both already are
+ * JSON Schema, so they are passed through with only the OpenAPI 3.0 differences
+ * (const, null types, numeric exclusive bounds) rewritten.
+ */
+export async function loadJsonSchemaFromValidator(
+  schemaRef: string,
+  routeFilePath?: string,
+  validatorsDir?: string
+): Promise<{ schema: any } | null> {
+  if (!tsModule) {
+    console.log(`  ⚠️  TypeScript is required for JSON Schema extraction of ${schemaRef}`);
+    return null;
+  }
+  const ts = tsModule;
+
+  try {
+    const candidates = await findValidatorExpressions(ts, schemaRef, routeFilePath, validatorsDir);
+    if (candidates.length === 0) {
+      console.log(`  ⚠️  Validator file not found for ${schemaRef}`);
+      return null;
+    }
+
+    for (const { scoped, location } of candidates) {
+      const value = evaluate(ts, scoped, 0);
+      if (!isJsonSchemaObject(value)) continue;
+
+      console.log(location
+        ? `  ✅ Read JSON Schema ${schemaRef} from ${path.relative(process.cwd(), location.filePath)}`
+        : `  ✅ Read inline JSON Schema`);
+      return { schema: normalizeJsonSchema(value) };
+    }
+
+    console.log(`  ⚠️  Could not read JSON Schema ${schemaRef}`);
+    return null;
+  } catch (error) {
+    console.log(`  ⚠️  Error reading JSON Schema for ${schemaRef}:`, (error as Error).message);
+    return null;
+  }
+}
+
+/**
+ * Whether a validator reference (or inline schema) is a TypeBox schema or a
+ * JSON Schema object literal ({ type: 'object', properties: {...} })
+ */
+export async function isJsonSchemaValidator(schemaRef: string, routeFilePath?: string, validatorsDir?: string): Promise<boolean> {
+  if (!tsModule || !routeFilePath) return false;
+  const ts = tsModule;
+
+  try {
+    const candidates = await findValidatorExpressions(ts, schemaRef, routeFilePath, validatorsDir);
+    return candidates.some(({ scoped }) => isJsonSchemaExpression(ts, scoped, 0));
+  } catch (error) {
+    return false;
+  }
+}
+
+/**
+ * Evaluate a schema expression: TypeBox calls, object and array literals (which may
+ * mix in TypeBox calls), constants and references to any of those
+ */
+function evaluate(ts: TypeScriptModule, scoped: ScopedExpression, depth: number): any {
+  if (depth > MAX_DEPTH) return undefined;
+
+  const expr = unwrap(ts, scoped.expr);
+  const { sourceFile } = scoped;
+
+  if (ts.isCallExpression(expr)) {
+    const kind = getTypeBoxKind(ts, expr.expression, sourceFile);
+    if (kind) return createTypeBoxSchema(ts, kind, expr.arguments, sourceFile, depth);
+
+    // ajv.compile(schema) - the validator function of a schema
+    if (ts.isPropertyAccessExpression(expr.expression) && expr.expression.name.text === 'compile' && expr.arguments[0]) {
+      return evaluate(ts, { expr: expr.arguments[0], sourceFile }, depth + 1);
+    }
+    return undefined;
+  }
+
+  if (ts.isObjectLiteralExpression(expr)) {
+    const result: Record<string, any> = {};
+    expr.properties.forEach(property => {
+      if (ts.isSpreadAssignment(property)) {
+        const spread = evaluate(ts, { expr: property.expression, sourceFile }, depth + 1);
+        if (spread && typeof spread === 'object' && !Array.isArray(spread)) Object.assign(result, spread);
+        return;
+      }
+      const name = getPropertyName(ts, property);
+      const value = ts.isPropertyAssignment(property)
+        ? property.initializer
+        : ts.isShorthandPropertyAssignment(property)
+          ? property.name
+          : undefined;
+      if (name && value) {
+        const evaluated = evaluate(ts, { expr: value, sourceFile }, depth + 1);
+        if (evaluated !== undefined) result[name] = evaluated;
+      }
+    });
+    return result;
+  }
+
+  if (ts.isArrayLiteralExpression(expr)) {
+    return expr.elements.flatMap(element => {
+      if (ts.isSpreadElement(element)) {
+        const spread = evaluate(ts, { expr: element.expression, sourceFile }, depth + 1);
+        return Array.isArray(spread) ? spread : [];
+      }
+      const value = evaluate(ts, { expr: element, sourceFile }, depth + 1);
+      return value === undefined ? [] : [value];
+    });
+  }
+
+  if (ts.isIdentifier(expr) || ts.isPropertyAccessExpression(expr)) {
+    const target = resolveReference(ts, { expr, sourceFile }, depth);
+    if (target) return evaluate(ts, target, depth + 1);
+  }
+
+  // Strings, numbers, enum members, ...
+  return evaluateLiteral(ts, expr, sourceFile, depth);
+}
+
+function createTypeBoxSchema(
+  ts: TypeScriptModule,
+  kind: string,
+  args: readonly import('typescript').Expression[],
+  sourceFile: import('typescript').SourceFile,
+  depth: number
+): Record<string, any> | undefined {
+  const arg = (index: number) => args[index] && evaluate(ts, { expr: args[index], sourceFile }, depth + 1);
+  // Schema options (description, minLength, ...) are the last argument of each kind
+  const options = (index: number) => {
+    const value = arg(index);
+    return value && typeof value === 'object' && !Array.isArray(value) ? value : {};
+  };
+  const schema: Record<string, any> = { ...TYPEBOX_KINDS[kind] };
+
+  switch (kind) {
+    case 'String':
+    case 'Number':
+    case 'Integer':
+    case 'Boolean':
+    case 'Null':
+    case 'Date':
+    case 'Any':
+    case 'Unknown':
+    case 'Unsafe':
+      return { ...schema, ...options(0) };
+    case 'Object': {
+      const properties = options(0);
+      const required = Object.keys(properties).filter(name => !properties[name]?.[OPTIONAL]);
+      return { ...schema, properties, ...(required.length > 0 ? { required } : {}), ...options(1) };
+    }
+    case 'Array': {
+      const items = arg(0);
+      return { ...schema, ...(items ? { items } : {}), ...options(1) };
+    }
+    case 'Tuple': {
+      const items = Array.isArray(arg(0)) ? arg(0) as any[] : [];
+      return {
+        ...schema,
+        ...(items.length > 0 ? { items: items.length === 1 ? items[0] : { oneOf: items } } : {}),
+        minItems: items.length,
+        maxItems: items.length,
+        ...options(1),
+      };
+    }
+    case 'Record': {
+      const values = arg(1);
+      return { ...schema, ...(values ? { additionalProperties: values } : {}), ...options(2) };
+    }
+    case 'Union':
+    case 'Intersect': {
+      const members = Array.isArray(arg(0)) ? arg(0) as any[] : [];
+      return { [kind === 'Union' ? 'anyOf' : 'allOf']: members, ...options(1) };
+    }
+    case 'Literal': {
+      const value = arg(0);
+      const type = ['string', 'number', 'boolean'].includes(typeof value) ? typeof value : undefined;
+      return { const: value, ...(type ? { type } : {}), ...options(1) };
+    }
+    case 'Enum': {
+      const values = evaluateEnumValues(ts, args[0], sourceFile, depth);
+      const type = values.length > 0 && values.every(value => typeof value === 'number') ? 'number' : 'string';
+      return { type, enum: values, ...options(1) };
+    }
+    case 'Optional':
+    case 'Readonly':
+    case 'ReadonlyOptional': {
+      const inner = arg(0);
+      if (!inner || typeof inner !== 'object') return undefined;
+      return {
+        ...inner,
+        ...(kind !== 'Optional' ? { readOnly: true } : {}),
+        ...(kind !== 'Readonly' ? { [OPTIONAL]: true } : {}),
+      };
+    }
+    case 'Partial':
+    case 'Required': {
+      const inner = arg(0);
+      if (!inner || typeof inner !== 'object') return undefined;
+      const { required, ...rest } = inner;
+      return kind === 'Required' && rest.properties
+        ? { ...rest, required: Object.keys(rest.properties), ...options(1) }
+        : { ...rest, ...options(1) };
+    }
+    case 'Pick':
+    case 'Omit': {
+      const inner = arg(0);
+      if (!inner?.properties) return inner;
+      // Keys as a list (['id']) or a union of literals (Type.Union([Type.Literal('id')]))
+      const keysArg = arg(1);
+      const keys: string[] = Array.isArray(keysArg)
+        ? keysArg
+        : (keysArg?.anyOf || (keysArg?.const !== undefined ? [keysArg] : [])).map((key: any) => key.const);
+      const keep = (name: string) => (kind === 'Pick') === keys.includes(name);
+      const properties = Object.fromEntries(Object.entries(inner.properties).filter(([name]) => keep(name)));
+      const required = (inner.required || []).filter(keep);
+      const { required: _required, ...rest } = inner;
+      return { ...rest, properties, ...(required.length > 0 ? { required } : {}), ...options(2) };
+    }
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Rewrite JSON Schema keywords OpenAPI 3.0 doesn't have: `const`, `type: 'null'`
+ * and null in type lists become enum / nullable, numeric exclusiveMinimum and
+ * exclusiveMaximum become boolean flags, and document keywords are dropped
+ */
+function normalizeJsonSchema(schema: any): any {
+  if (Array.isArray(schema)) return schema.map(normalizeJsonSchema);
+  if (!schema || typeof schema !== 'object') return schema;
+
+  const result: Record<string, any> = {};
+  Object.entries(schema).forEach(([key, value]) => {
+    if (DOCUMENT_KEYWORDS.includes(key)) return;
+
+    if (['properties', 'patternProperties'].includes(key) && value && typeof value === 'object') {
+      result[key] = Object.fromEntries(Object.entries(value).map(([name, child]) => [name, normalizeJsonSchema(child)]));
+    } else if (['items', 'additionalProperties', 'not', 'allOf', 'anyOf', 'oneOf'].includes(key)) {
+      result[key] = normalizeJsonSchema(value);
+    } else {
+      result[key] = value;
+    }
+  });
+
+  if ('const' in result) {
+    result.enum = [result.const];
+    delete result.const;
+  }
+
+  if (result.type === 'null') {
+    delete result.type;
+    result.nullable = true;
+  } else if (Array.isArray(result.type)) {
+    const types = result.type.filter((type: string) => type !== 'null');
+    if (types.length < result.type.length) result.nullable = true;
+    if (types.length === 1) {
+      result.type = types[0];
+    } else {
+      delete result.type;
+      if (types.length > 1) result.oneOf = types.map((type: string) => ({ type }));
+    }
+  }
+
+  // anyOf: [X, { nullable: true }] is a nullable X
+  ['anyOf', 'oneOf'].forEach(keyword => {
+    if (!Array.isArray(result[keyword])) return;
+    const options = result[keyword].filter((option: any) => !(option?.nullable && Object.keys(option).length === 1));
+    if (options.length === result[keyword].length) return;
+    result.nullable = true;
+    if (options.length === 1) {
+      delete result[keyword];
+      Object.assign(result, options[0], { nullable: true });
+    } else {
+      result[keyword] = options;
+    }
+  });
+
+  (['Minimum', 'Maximum'] as const).forEach(bound => {
+    const exclusive = result[`exclusive${bound}`];
+    if (typeof exclusive === 'number') {
+      result[bound.toLowerCase()] = exclusive;
+      result[`exclusive${bound}`] = true;
+    }
+  });
+
+  if (Array.isArray(result.examples) && result.example === undefined) {
+    result.example = result.examples[0];
+    delete result.examples;
+  }
+
+  return result;
+}
+
+/**
+ * The kind a TypeBox call creates (Type.Object(...) -> 'Object'), or undefined
+ * when the callee isn't a member of TypeBox's Type
+ */
+function getTypeBoxKind(
+  ts: TypeScriptModule,
+  callee: import('typescript').Expression,
+  sourceFile: import('typescript').SourceFile
+): string | undefined {
+  const expr = unwrap(ts, callee);
+  if (!ts.isPropertyAccessExpression(expr) || !ts.isIdentifier(expr.expression) || !TYPEBOX_KINDS[expr.name.text]) {
+    return undefined;
+  }
+
+  const binding = findImportBinding(ts, sourceFile, expr.expression.text);
+  return binding && TYPEBOX_MODULES.includes(binding.specifier) && ['Type', 'default'].includes(binding.importedName)
+    ? expr.name.text
+    : undefined;
+}
+
+// A schema object with at least one JSON Schema keyword that says what it validates
+function isJsonSchemaObject(value: any): boolean {
+  return !!value && typeof value === 'object' && !Array.isArray(value) &&
+    (typeof value.type === 'string' || Array.isArray(value.type) ||
+      ['properties', 'anyOf', 'allOf', 'oneOf', 'enum', 'const', '$schema'].some(key => value[key] !== undefined));
+}
+
+/**
+ * Whether an expression is a TypeBox call or a JSON Schema object literal, or a reference to one
+ */
+function isJsonSchemaExpression(ts: TypeScriptModule, scoped: ScopedExpression, depth: number): boolean {
+  if (depth > MAX_DEPTH) return false;
+  const expr = unwrap(ts, scoped.expr);
+
+  if (ts.isCallExpression(expr)) {
+    if (getTypeBoxKind(ts, expr.expression, scoped.sourceFile)) return true;
+    return ts.isPropertyAccessExpression(expr.expression) && expr.expression.name.text === 'compile' && !!expr.arguments[0] &&
+      isJsonSchemaExpression(ts, { expr: expr.arguments[0], sourceFile: scoped.sourceFile }, depth + 1);
+  }
+
+  if (ts.isObjectLiteralExpression(expr)) {
+    // Only literal keywords count, so objects of Joi / Zod schemas aren't mistaken for JSON Schema
+    return isJsonSchemaObject(evaluateLiteral(ts, expr, scoped.sourceFile, depth));
+  }
+
+  if (ts.isIdentifier(expr) || ts.isPropertyAccessExpression(expr)) {
+    const target = resolveReference(ts, scoped, depth);
+    return !!target && isJsonSchemaExpression(ts, target, depth + 1);
+  }
+
+  return false;
+}
@@ -0,0 +1,456 @@
+import * as fs from 'fs-extra';
+import * as path from 'path';
+
+type TypeScriptModule = typeof import('typescript');
+
+// Extensions of route, controller and schema files that are parsed
+export const SOURCE_FILE_EXTENSIONS = ['.ts', '.js', '.mjs', '.cjs'];
+
+export interface ResolvedExport {
+  filePath: string;
+  // Name of the binding inside filePath ('default' when it is an anonymous default export)
+  localName: string;
+  sourceFile: import('typescript').SourceFile;
+}
+
+export interface ResolvedHandler {
+  filePath: string;
+  // Name to look the handler up by in filePath: a function, or a method of the controller class/object
+  name: string;
+}
+
+const sourceFileCache = new Map<string, import('typescript').SourceFile>();
+let cachedCompilerOptions: import('typescript').CompilerOptions | undefined;
+
+/**
+ * Read and parse a source file, caching the result for the rest of the run
+ */
+export function getSourceFile(
+  ts: TypeScriptModule,
+  filePath: string
+): import('typescript').SourceFile | undefined {
+  const cached = sourceFileCache.get(filePath);
+  if (cached) return cached;
+
+  if (!fs.existsSync(filePath)) return undefined;
+
+  const sourceFile = ts.createSourceFile(
+    filePath,
+    fs.readFileSync(filePath, 'utf-8'),
+    ts.ScriptTarget.Latest,
+    true
+  );
+  sourceFileCache.set(filePath, sourceFile);
+  return sourceFile;
+}
+
+/**
+ * Compiler options of the project being documented (tsconfig.json in cwd),
+ * used so path aliases and baseUrl resolve the same way they do in the app
+ */
+export function getCompilerOptions(ts: TypeScriptModule): import('typescript').CompilerOptions {
+  if (cachedCompilerOptions) return cachedCompilerOptions;
+
+  let options: import('typescript').CompilerOptions = {};
+  const configPath = ts.findConfigFile(process.cwd(), ts.sys.fileExists);
+  if (configPath) {
+    const config = ts.readConfigFile(configPath, ts.sys.readFile);
+    if (!config.error) {
+      options = ts.parseJsonConfigFileContent(config.config, ts.sys, path.dirname(configPath)).options;
+    }
+  }
+
+  cachedCompilerOptions = { ...options, allowJs: true };
+  return cachedCompilerOptions;
+}
+
+/**
+ * Resolve a module specifier (e.g. '../controllers/auth' or '@/routes/users')
+ * to a project source file. Packages from node_modules are ignored.
+ */
+export function resolveModulePath(
+  ts: TypeScriptModule,
+  specifier: string,
+  fromFile: string
+): string | undefined {
+  const result = ts.resolveModuleName(specifier, fromFile, getCompilerOptions(ts), ts.sys);
+  const resolved = result.resolvedModule;
+
+  if (!resolved || resolved.isExternalLibraryImport || resolved.resolvedFileName.endsWith('.d.ts')) {
+    return undefined;
+  }
+
+  return path.resolve(resolved.resolvedFileName);
+}
+
+export interface ImportBinding {
+  specifier: string;
+  // Name imported from the module: an export name, 'default' or '*'
+  importedName: string;
+}
+
+/**
+ * Find the import (ES import or require) that binds a name in a file
+ */
+export function findImportBinding(
+  ts: TypeScriptModule,
+  sourceFile: import('typescript').SourceFile,
+  name: string
+): ImportBinding | undefined {
+  for (const statement of sourceFile.statements) {
+    // import x from './x' / import { a as x } from './x' / import * as x from './x'
+    if (ts.isImportDeclaration(statement) && ts.isStringLiteral(statement.moduleSpecifier)) {
+      const clause = statement.importClause;
+      if (!clause) continue;
+
+      let importedName: string | undefined;
+      if (clause.name?.text === name) {
+        importedName = 'default';
+      } else if (clause.namedBindings) {
+        if (ts.isNamespaceImport(clause.namedBindings)) {
+          if (clause.namedBindings.name.text === name) importedName = '*';
+        } else {
+          const element = clause.namedBindings.elements.find(e => e.name.text === name);
+          if (element) importedName = (element.propertyName || element.name).text;
+        }
+      }
+
+      if (importedName) {
+        return { specifier: statement.moduleSpecifier.text, importedName };
+      }
+    }
+
+    // const x = require('./x') / const { a: x } = require('./x')
+    if (ts.isVariableStatement(statement)) {
+      for (const decl of statement.declarationList.declarations) {
+        const specifier = getRequireSpecifier(ts, decl.initializer);
+        if (!specifier) continue;
+
+        let importedName: string | undefined;
+        if (ts.isIdentifier(decl.name) && decl.name.text === name) {
+          importedName = 'default';
+        } else if (ts.isObjectBindingPattern(decl.name)) {
+          const element = decl.name.elements.find(e => ts.isIdentifier(e.name) && e.name.text === name);
+          if (element) importedName = (element.propertyName || element.name).getText(sourceFile);
+        }
+
+        if (importedName) {
+          return { specifier, importedName };
+        }
+      }
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Find where an identifier used in a file is declared, following its import
+ * (ES import or require) and any re-exports in barrel files.
+ * Returns the file and local name of the declaration.
+ */
+export function resolveIdentifier(
+  ts: TypeScriptModule,
+  sourceFile: import('typescript').SourceFile,
+  name: string
+): ResolvedExport | undefined {
+  const binding = findImportBinding(ts, sourceFile, name);
+  if (binding) {
+    const modulePath = resolveModulePath(ts, binding.specifier, sourceFile.fileName);
+    return modulePath ? resolveExport(ts, modulePath, binding.importedName) : undefined;
+  }
+
+  // Not imported - declared in this file
+  return findLocalDeclaration(ts, sourceFile, name)
+    ? { filePath: sourceFile.fileName, localName: name, sourceFile }
+    : undefined;
+}
+
+/**
+ * Resolve an exported name of a module to its declaring file and local name,
+ * following `export { x } from`, `export * from` and `export default x`.
+ */
+export function resolveExport(
+  ts: TypeScriptModule,
+  filePath: string,
+  exportName: string,
+  visited: Set<string> = new Set()
+): ResolvedExport | undefined {
+  const visitKey = `${filePath}#${exportName}`;
+  if (visited.has(visitKey)) return undefined;
+  visited.add(visitKey);
+
+  const sourceFile = getSourceFile(ts, filePath);
+  if (!sourceFile) return undefined;
+
+  // Namespace imports refer to the module itself
+  if (exportName === '*') {
+    return { filePath, localName: '*', sourceFile };
+  }
+
+  const starExports: string[] = [];
+
+  for (const statement of sourceFile.statements) {
+    // export default x / module.exports = x
+    if (exportName === 'default') {
+      if (ts.isExportAssignment(statement)) {
+        return ts.isIdentifier(statement.expression)
+          ? resolveLocalOrImported(ts, sourceFile, statement.expression.text, visited)
+          : { filePath, localName: 'default', sourceFile };
+      }
+      if (
+        ts.isExpressionStatement(statement) &&
+        ts.isBinaryExpression(statement.expression) &&
+        statement.expression.left.getText(sourceFile) === 'module.exports'
+      ) {
+        const right = statement.expression.right;
+        return ts.isIdentifier(right)
+          ? resolveLocalOrImported(ts, sourceFile, right.text, visited)
+          : { filePath, localName: 'default', sourceFile };
+      }
+      if (
+        (ts.isFunctionDeclaration(statement) || ts.isClassDeclaration(statement)) &&
+        hasModifier(ts, statement, ts.SyntaxKind.DefaultKeyword)
+      ) {
+        return { filePath, localName: statement.name?.text || 'default', sourceFile };
+      }
+    }
+
+    if (ts.isExportDeclaration(statement)) {
+      const specifier =
+        statement.moduleSpecifier && ts.isStringLiteral(statement.moduleSpecifier)
+          ? statement.moduleSpecifier.text
+          : undefined;
+
+      if (!statement.exportClause) {
+        // export * from './x'
+        if (specifier) starExports.push(specifier);
+        continue;
+      }
+
+      if (ts.isNamedExports(statement.exportClause)) {
+        const element = statement.exportClause.elements.find(e => e.name.text === exportName);
+        if (!element) continue;
+        const sourceName = (element.propertyName || element.name).text;
+
+        if (specifier) {
+          const modulePath = resolveModulePath(ts, specifier, filePath);
+          return modulePath ? resolveExport(ts, modulePath, sourceName, visited) : undefined;
+        }
+        return resolveLocalOrImported(ts, sourceFile, sourceName, visited);
+      }
+
+      // export * as ns from './x'
+      if (ts.isNamespaceExport(statement.exportClause) && statement.exportClause.name.text === exportName && specifier) {
+        const modulePath = resolveModulePath(ts, specifier, filePath);
+        return modulePath ? resolveExport(ts, modulePath, '*', visited) : undefined;
+      }
+    }
+  }
+
+  // export const x / export function x / export class x / exports.x = ...
+  if (exportName !== 'default' && findLocalDeclaration(ts, sourceFile, exportName)) {
+    return { filePath, localName: exportName, sourceFile };
+  }
+
+  // require('./x') of a CommonJS module that only assigns exports.x - the binding is the exports object
+  if (exportName === 'default' && !hasEsModuleSyntax(ts, sourceFile)) {
+    return { filePath, localName: '*', sourceFile };
+  }
+
+  for (const specifier of starExports) {
+    const modulePath = resolveModulePath(ts, specifier, filePath);
+    const resolved = modulePath && resolveExport(ts, modulePath, exportName, visited);
+    if (resolved) return resolved;
+  }
+
+  return undefined;
+}
+
+/**
+ * Resolve the handler of a route (`login` or `authController.login`) to the file
+ * that implements it, following imports and barrel re-exports. Controller
+ * instances (`new AuthController()`) resolve to the class and object literals
+ * (`{ login }`) to the function they reference.
+ */
+export function resolveHandler(
+  ts: TypeScriptModule,
+  sourceFile: import('typescript').SourceFile,
+  handler: import('typescript').Identifier | import('typescript').PropertyAccessExpression
+): ResolvedHandler | undefined {
+  if (ts.isIdentifier(handler)) {
+    const resolved = resolveIdentifier(ts, sourceFile, handler.text);
+    return resolved && {
+      filePath: resolved.filePath,
+      name: resolved.localName === 'default' ? handler.text : resolved.localName,
+    };
+  }
+
+  if (!ts.isIdentifier(handler.expression)) {
+    return undefined;
+  }
+
+  const methodName = handler.name.text;
+  const controller = resolveIdentifier(ts, sourceFile, handler.expression.text);
+  if (!controller) {
+    return undefined;
+  }
+
+  // import * as authController from './auth.handlers'
+  if (controller.localName === '*') {
+    const member = resolveExport(ts, controller.filePath, methodName);
+    return member
+      ? { filePath: member.filePath, name: member.localName === 'default' ? methodName : member.localName }
+      : { filePath: controller.filePath, name: methodName };
+  }
+
+  const value = getDeclaredValue(ts, controller);
+
+  // export const authController = new AuthController()
+  if (value && ts.isNewExpression(value) && ts.isIdentifier(value.expression)) {
+    const controllerClass = resolveIdentifier(ts, controller.sourceFile, value.expression.text);
+    if (controllerClass) {
+      return { filePath: controllerClass.filePath, name: methodName };
+    }
+  }
+
+  // export const authController = { login, register: registerUser }
+  if (value && ts.isObjectLiteralExpression(value)) {
+    for (const property of value.properties) {
+      if (!property.name || property.name.getText(controller.sourceFile) !== methodName) continue;
+
+      const target = ts.isShorthandPropertyAssignment(property)
+        ? property.name
+        : ts.isPropertyAssignment(property) && ts.isIdentifier(property.initializer)
+          ? property.initializer
+          : undefined;
+      const member = target && resolveIdentifier(ts, controller.sourceFile, target.text);
+      if (member) {
+        return { filePath: member.filePath, name: member.localName === 'default' ? target!.text : member.localName };
+      }
+    }
+  }
+
+  return { filePath: controller.filePath, name: methodName };
+}
+
+/**
+ * The expression a resolved binding is initialized with
+ * (`const x = <expr>`, `export default <expr>`, `module.exports = <expr>`)
+ */
+export function getDeclaredValue(
+  ts: TypeScriptModule,
+  resolved: ResolvedExport
+): import('typescript').Expression | undefined {
+  const { sourceFile, localName } = resolved;
+
+  if (localName === 'default') {
+    for (const statement of sourceFile.statements) {
+      if (ts.isExportAssignment(statement)) {
+        return statement.expression;
+      }
+      if (
+        ts.isExpressionStatement(statement) &&
+        ts.isBinaryExpression(statement.expression) &&
+        statement.expression.left.getText(sourceFile) === 'module.exports'
+      ) {
+        return statement.expression.right;
+      }
+    }
+    return undefined;
+  }
+
+  const declaration = findLocalDeclaration(ts, sourceFile, localName);
+  if (declaration && ts.isVariableDeclaration(declaration)) {
+    return declaration.initializer;
+  }
+  if (declaration && ts.isBinaryExpression(declaration)) {
+    return declaration.right;
+  }
+  return undefined;
+}
+
+function resolveLocalOrImported(
+  ts: TypeScriptModule,
+  sourceFile: import('typescript').SourceFile,
+  name: string,
+  visited: Set<string>
+): ResolvedExport | undefined {
+  if (findLocalDeclaration(ts, sourceFile, name)) {
+    return { filePath: sourceFile.fileName, localName: name, sourceFile };
+  }
+  // export { x } where x was itself imported
+  const resolved = resolveIdentifier(ts, sourceFile, name);
+  if (resolved && !visited.has(`${resolved.filePath}#${resolved.localName}`)) {
+    return resolved;
+  }
+  return undefined;
+}
+
+/**
+ * Find the top-level declaration of a name in a file
+ * (variable, function, class, enum, or `exports.name = ...` assignment)
+ */
+export function findLocalDeclaration(
+  ts: TypeScriptModule,
+  sourceFile: import('typescript').SourceFile,
+  name: string
+): import('typescript').Node | undefined {
+  for (const statement of sourceFile.statements) {
+    if (ts.isVariableStatement(statement)) {
+      const decl = statement.declarationList.declarations.find(
+        d => ts.isIdentifier(d.name) && d.name.text === name
+      );
+      if (decl) return decl;
+    } else if (
+      (ts.isFunctionDeclaration(statement) || ts.isClassDeclaration(statement) || ts.isEnumDeclaration(statement)) &&
+      statement.name?.text === name
+    ) {
+      return statement;
+    } else if (
+      ts.isExpressionStatement(statement) &&
+      ts.isBinaryExpression(statement.expression) &&
+      statement.expression.operatorToken.kind === ts.SyntaxKind.EqualsToken &&
+      /^(module\.)?exports\./.test(statement.expression.left.getText(sourceFile)) &&
+      statement.expression.left.getText(sourceFile).endsWith(`.${name}`)
+    ) {
+      return statement.expression;
+    }
+  }
+  return undefined;
+}
+
+function getRequireSpecifier(
+  ts: TypeScriptModule,
+  expr: import('typescript').Expression | undefined
+): string | undefined {
+  if (
+    expr &&
+    ts.isCallExpression(expr) &&
+    ts.isIdentifier(expr.expression) &&
+    expr.expression.text === 'require' &&
+    expr.arguments.length > 0 &&
+    ts.isStringLiteral(expr.arguments[0])
+  ) {
+    return expr.arguments[0].text;
+  }
+  return undefined;
+}
+
+/**
+ * Whether a file uses import/export declarations, as opposed to CommonJS require()/exports
+ */
+function hasEsModuleSyntax(ts: TypeScriptModule, sourceFile: import('typescript').SourceFile): boolean {
+  return sourceFile.statements.some(statement =>
+    ts.isImportDeclaration(statement) ||
+    ts.isImportEqualsDeclaration(statement) ||
+    ts.isExportDeclaration(statement) ||
+    ts.isExportAssignment(statement) ||
+    hasModifier(ts, statement, ts.SyntaxKind.ExportKeyword)
+  );
+}
+
+function hasModifier(ts: TypeScriptModule, node: import('typescript').Node, kind: import('typescript').SyntaxKind): boolean {
+  const modifiers = ts.canHaveModifiers(node) ? ts.getModifiers(node) : undefined;
+  return !!modifiers?.some(m => m.kind === kind);
+}
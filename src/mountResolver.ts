@@ -0,0 +1,127 @@
+import * as fs from 'fs-extra';
+import * as path from 'path';
+import {
+  collectStringConstants,
+  collectUseCalls,
+  createRootRouterResolver,
+  createRouterMatcher,
+  createUseMiddlewareResolver,
+  getLocalRouterPrefixes,
+  joinRoutePaths,
+  normalizeWhitespace,
+  resolveMountedRouter,
+  splitUseCallHandlers,
+  unwrapExpression,
+} from './routeExtractor';
+import { getSourceFile, SOURCE_FILE_EXTENSIONS } from './moduleResolver';
+
+// Try to import TypeScript, fallback gracefully if not available
+let tsModule: typeof import('typescript') | null = null;
+try {
+  tsModule = require('typescript');
+} catch (error) {
+  // TypeScript not available
+}
+
+export interface RouterMount {
+  basePath: string;
+  // Middleware applied on the way to the router, outermost first
+  middleware: string[];
+  // Local name of the mounted router in its file - unset when the mount covers every
+  // router in the file (the app entry, the routes index)
+  router?: string;
+}
+
+/**
+ * Build the router mount graph by following `use()` calls from the entry
+ * points to the modules that declare the mounted routers.
+ *
+ * Entry points are the app entry file (if given), whose mount paths are used
+ * as-is, and `routesDir/index.ts`, which is mounted at basePath unless it was
+ * already reached from the app entry.
+ *
+ * Returns absolute route file path -> mounts of the file's routers (full base
+ * path plus middleware inherited from the parents, e.g. `app.use(helmet())`
+ * and `router.use('/admin', requireAdmin, adminRoutes)`), or null when
+ * TypeScript is not available. A file exporting several routers gets a mount
+ * per router, naming the router it applies to.
+ */
+export async function resolveRouterMounts(
+  routesDir: string,
+  basePath: string,
+  appEntry?: string
+): Promise<Map<string, RouterMount[]> | null> {
+  if (!tsModule) {
+    return null;
+  }
+
+  const ts = tsModule;
+  const mounts = new Map<string, RouterMount[]>();
+  const visited = new Set<string>();
+
+  const visitRouterFile = (filePath: string, prefix: string, inheritedMiddleware: string[], router?: string) => {
+    const visitKey = `${filePath}|${router || '*'}|${prefix}|${inheritedMiddleware.join(',')}`;
+    if (visited.has(visitKey)) return;
+    visited.add(visitKey);
+
+    const fileMounts = mounts.get(filePath) || [];
+    fileMounts.push(router ? { basePath: prefix, middleware: inheritedMiddleware, router } : { basePath: prefix, middleware: inheritedMiddleware });
+    mounts.set(filePath, fileMounts);
+
+    const sourceFile = getSourceFile(ts, filePath);
+    if (!sourceFile) return;
+
+    const isRouter = createRouterMatcher(ts, sourceFile, filePath);
+    const useCalls = collectUseCalls(ts, sourceFile, isRouter, collectStringConstants(ts, sourceFile));
+    const localPrefixes = getLocalRouterPrefixes(ts, sourceFile, useCalls, isRouter);
+    const getUseMiddleware = createUseMiddlewareResolver(ts, sourceFile, useCalls, isRouter);
+    const getRootRouter = createRootRouterResolver(ts, sourceFile, useCalls, isRouter);
+
+    for (const useCall of useCalls) {
+      // Only the routers mounted on this router belong under its prefix
+      if (router && getRootRouter(useCall.receiver) !== router) continue;
+
+      const receiverKey = unwrapExpression(ts, useCall.receiver).getText(sourceFile).replace(/\s+/g, '');
+      const mountPrefix = joinRoutePaths(prefix, localPrefixes.get(receiverKey) || '', useCall.mountPath);
+      const { middleware } = splitUseCallHandlers(ts, sourceFile, useCall, isRouter);
+
+      useCall.handlers.forEach((handler, index) => {
+        const target = resolveMountedRouter(ts, sourceFile, handler);
+        if (target && target.filePath !== filePath) {
+          console.log(`🔗 Found router mount: ${path.relative(process.cwd(), target.filePath)} (${target.localName}) → ${mountPrefix || '/'}`);
+          visitRouterFile(target.filePath, mountPrefix, [
+            ...inheritedMiddleware,
+            ...getUseMiddleware(useCall.receiver, useCall.mountPath, useCall.position),
+            ...useCall.handlers
+              .slice(0, index)
+              .filter(previous => middleware.includes(previous))
+              .map(previous => normalizeWhitespace(previous.getText(sourceFile))),
+          ], target.localName);
+        }
+      });
+    }
+  };
+
+  try {
+    if (appEntry) {
+      const appEntryPath = path.resolve(process.cwd(), appEntry);
+      if (await fs.pathExists(appEntryPath)) {
+        visitRouterFile(appEntryPath, '', []);
+      } else {
+        console.log(`⚠️  App entry not found: ${appEntry}`);
+      }
+    }
+
+    const routesIndex = SOURCE_FILE_EXTENSIONS
+      .map(ext => path.join(process.cwd(), routesDir, `index${ext}`))
+      .find(candidate => fs.existsSync(candidate));
+
+    if (routesIndex && !mounts.has(routesIndex)) {
+      visitRouterFile(routesIndex, basePath, []);
+    }
+  } catch (error) {
+    console.log('⚠️  Error resolving router mounts:', (error as Error).message);
+  }
+
+  return mounts;
+}
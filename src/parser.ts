@@ -1,6 +1,16 @@
-import { RouteInfo, ControllerInfo, FieldInfo } from './types';
+import { RouteInfo, ControllerInfo, FieldInfo, SwaggerifyOptions } from './types';
 import * as path from 'path';
 import * as fs from 'fs-extra';
+import {
+  createWrapperMatcher,
+  DEFAULT_ALL_METHODS,
+  DEFAULT_HANDLER_WRAPPERS,
+  extractRoutesFromAst,
+  generateOperationId,
+  ROUTER_TYPE_NAMES,
+} from './routeExtractor';
+import { convertExpressPath, ExpressVersion, resolveExpressVersion } from './pathConverter';
+import { resolveRouteSecurity } from './security';
 
 // Try to import TypeScript, fallback gracefully if not available
 let tsModule: typeof import('typescript') | null = null;
@@ -14,12 +24,49 @@ export function extractRoutes(
   fileContent: string,
   basePath: string,
   routeFilePath?: string,
-  validatorsDir?: string
+  validatorsDir?: string,
+  options: SwaggerifyOptions = {},
+  inheritedMiddleware: string[] = [],
+  router?: string
+): RouteInfo[] {
+  const extraction = {
+    expressVersion: resolveExpressVersion(options.expressVersion),
+    allMethods: options.allMethods || DEFAULT_ALL_METHODS,
+    handlerWrappers: [...DEFAULT_HANDLER_WRAPPERS, ...(options.handlerWrappers || [])],
+    inheritedMiddleware,
+    router,
+    security: options,
+  };
+
+  // Prefer the AST-based extractor; the regex scanner is only a fallback
+  // for environments where TypeScript is not installed
+  if (tsModule) {
+    return extractRoutesFromAst(tsModule, fileContent, basePath, routeFilePath, extraction);
+  }
+
+  return extractRoutesWithRegex(fileContent, basePath, extraction.expressVersion, options);
+}
+
+function extractRoutesWithRegex(
+  fileContent: string,
+  basePath: string,
+  expressVersion: ExpressVersion,
+  options: SwaggerifyOptions
 ): RouteInfo[] {
   const routes: RouteInfo[] = [];
+  const routerNames = findRouterNamesWithRegex(fileContent);
+  if (routerNames.length === 0) {
+    return routes;
+  }
 
-  // Use a regex to find router.METHOD( calls, then manually parse to handle nested parentheses
-  const routeRegex = /router\.(get|post|put|patch|delete)\s*\(\s*['"`]([^'"`]+)['"`]/g;
+  // Use a regex to find <router>.METHOD( calls, then manually parse to handle nested parentheses
+  // (router.all() is only expanded by the AST extractor)
+  // Class properties are declared as `router` and used as `this.router`
+  const receivers = routerNames.map(name => name.replace(/^this\./, '').replace(/[$.]/g, '\\$&')).join('|');
+  const routeRegex = new RegExp(
+    `(?<![\\w$.])(?:this\\s*\\.\\s*)?(?:${receivers})\\s*\\.\\s*(get|post|put|patch|delete|head|options)\\s*\\(\\s*['"\`]([^'"\`]+)['"\`]`,
+    'g'
+  );
 
   let match;
   while ((match = routeRegex.exec(fileContent)) !== null) {
@@ -45,8 +92,6 @@ export function extractRoutes(
     // Extract the middleware and handler section (inside the router.METHOD parentheses)
     let middlewareAndHandler = fileContent.substring(startPos, endPos);
 
-    const fullPath =
-      basePath + routePath.replace(/:\w+/g, match => `{${match.substring(1)}}`);
 
     // Extract middleware from the full middleware and handler string
     const middleware: string[] = [];
@@ -85,9 +130,7 @@ export function extractRoutes(
       }
     }
 
-    const hasAuth = middleware.some(
-      m => m.includes('authenticate') || m.includes('requireAdmin')
-    );
+    const hasAuth = resolveRouteSecurity(middleware, options).length > 0;
 
     // Extract handler name (look for controller.method or anonymous functions)
     let handlerName = 'unknown';
@@ -119,47 +162,72 @@ export function extractRoutes(
       controllerMethod = generateOperationId(method, routePath);
     }
 
-    routes.push({
-      method,
-      path: fullPath,
-      handlerName,
-      controllerMethod,
-      hasAuth,
-      middleware,
-      validatorSchema,
+    convertExpressPath(basePath + routePath, expressVersion).forEach((converted, index) => {
+      routes.push({
+        method,
+        path: converted.path,
+        handlerName,
+        controllerMethod,
+        operationId: index === 0 ? undefined : `${controllerMethod}${index + 1}`,
+        hasAuth,
+        middleware,
+        validatorSchema,
+        pathParameters: converted.parameters,
+      });
     });
   }
 
   return routes;
 }
 
-function generateOperationId(method: string, routePath: string): string {
-  // Convert route path to a meaningful operation ID
-  // Remove leading slash and replace slashes and special chars with camelCase
-  const cleanPath = routePath
-    .replace(/^\//, '') // Remove leading slash
-    .replace(/[{}]/g, '') // Remove path parameters like {id}
-    .replace(/[^a-zA-Z0-9/]/g, '') // Remove special characters except slashes
-    .split('/') // Split by slashes
-    .filter(Boolean) // Remove empty parts
-    .map((part, index) =>
-      index === 0 ? part.toLowerCase() : part.charAt(0).toUpperCase() + part.slice(1).toLowerCase()
-    )
-    .join('');
-
-  // Combine method with path
-  const operationId = method.toLowerCase() + cleanPath.charAt(0).toUpperCase() + cleanPath.slice(1);
-
-  return operationId;
+/**
+ * Names of the Express routers and apps in a file, found the way
+ * createRouterMatcher finds them without a type checker: variables and class
+ * properties initialised with express(), express.Router() or Router() (under
+ * any local name of the express module or its Router export), or annotated
+ * with a router type
+ */
+function findRouterNamesWithRegex(fileContent: string): string[] {
+  const expressNames = new Set<string>(['express']);
+  const routerFactoryNames = new Set<string>(['Router']);
+  const routerNames = new Set<string>();
+  const fromExpress = `\\s*(?:from\\s*|=\\s*require\\s*\\(\\s*)['"]express['"]`;
+
+  // import express from 'express', import * as e from 'express', const e = require('express')
+  for (const match of fileContent.matchAll(new RegExp(`(?:import\\s+(?:\\*\\s+as\\s+)?|(?:const|let|var)\\s+)([\\w$]+)${fromExpress}`, 'g'))) {
+    expressNames.add(match[1]);
+  }
+  // import { Router as R } from 'express', const { Router: R } = require('express')
+  for (const match of fileContent.matchAll(new RegExp(`\\{([^}]*)\\}${fromExpress}`, 'g'))) {
+    for (const binding of match[1].matchAll(/\bRouter\s*(?:as|:)\s*([\w$]+)/g)) {
+      routerFactoryNames.add(binding[1]);
+    }
+  }
+
+  const escape = (names: Set<string>) => [...names].map(name => name.replace(/\$/g, '\\$')).join('|');
+  const factoryCall = `(?:new\\s+)?(?:(?:${escape(expressNames)})(?:\\s*\\.\\s*Router)?|${escape(routerFactoryNames)})\\s*\\(`;
+  const routerType = `(?:[\\w$]+\\.)?(?:${ROUTER_TYPE_NAMES.join('|')})\\b`;
+
+  // const router = express.Router(), this.router = Router(), router: Router = ..., (app: Express)
+  const declaration = new RegExp(
+    `(?<![\\w$.])((?:this\\.)?[\\w$]+)\\s*(?:(?::\\s*${routerType})|(?::\\s*[\\w$.<>]+\\s*)?=\\s*${factoryCall})`,
+    'g'
+  );
+  for (const match of fileContent.matchAll(declaration)) {
+    routerNames.add(match[1]);
+  }
+
+  return [...routerNames];
 }
 
 export function analyzeControllerMethod(
   controllerContent: string,
   methodName: string,
   controllerFilePath?: string,
-  availableTypeNames?: Set<string>
+  availableTypeNames?: Set<string>,
+  handlerPosition?: number,
+  handlerWrappers: string[] = DEFAULT_HANDLER_WRAPPERS
 ): ControllerInfo {
-  const lines = controllerContent.split('\n');
   const statusCodes: number[] = [];
   let requestBodyType: string | undefined;
   let requestBodyFields: FieldInfo[] = [];
@@ -167,6 +235,21 @@ export function analyzeControllerMethod(
   let inMethod = false;
   let braceCount = 0;
 
+  // Locate the handler in the AST (function, arrow function, class member or the
+  // inline handler at handlerPosition) and scan only its own source
+  let handlerSourceFile: import('typescript').SourceFile | undefined;
+  let handlerNode: HandlerNode | undefined;
+  if (tsModule) {
+    handlerSourceFile = tsModule.createSourceFile(
+      controllerFilePath || 'controller.ts',
+      controllerContent,
+      tsModule.ScriptTarget.Latest,
+      true
+    );
+    handlerNode = findHandlerNode(tsModule, handlerSourceFile, methodName, handlerPosition, handlerWrappers);
+  }
+  const lines = (handlerNode ? handlerNode.fn.getText(handlerSourceFile) : controllerContent).split('\n');
+
   // Build candidate method names (original and without HTTP verb prefix)
   const methodCandidates: string[] = [methodName];
   const stripped = methodName.replace(/^(get|post|put|patch|delete)/i, '');
@@ -178,7 +261,7 @@ export function analyzeControllerMethod(
     const line = lines[i];
 
     // Find method definition
-    if ((line.includes('async') || line.includes('=')) && methodCandidates.some(c => line.toLowerCase().includes(c.toLowerCase()))) {
+    if (handlerNode || ((line.includes('async') || line.includes('=')) && methodCandidates.some(c => line.toLowerCase().includes(c.toLowerCase())))) {
         inMethod = true;
     }
 
@@ -187,9 +270,8 @@ export function analyzeControllerMethod(
       braceCount += (line.match(/{/g) || []).length;
       braceCount -= (line.match(/}/g) || []).length;
 
-      // Extract status codes from res.status()
-      const statusMatch = line.match(/res\.status\((\d+)\)/);
-      if (statusMatch) {
+      // Extract status codes from res.status() (inline handlers often fit on one line)
+      for (const statusMatch of line.matchAll(/res\.status\((\d+)\)/g)) {
         const code = parseInt(statusMatch[1]);
         if (!statusCodes.includes(code)) {
           statusCodes.push(code);
@@ -218,8 +300,8 @@ export function analyzeControllerMethod(
         }
       }
 
-      // End of method
-      if (inMethod && braceCount === 0 && line.includes('}')) {
+      // End of method (the located handler's source ends by itself)
+      if (!handlerNode && inMethod && braceCount === 0 && line.includes('}')) {
         break;
       }
     }
@@ -231,9 +313,36 @@ export function analyzeControllerMethod(
   }
 
   // Extract response types using TypeScript compiler API if available
-  const responseTypesByStatus = tsModule && controllerFilePath
-    ? extractResponseTypesFromMethod(controllerContent, controllerFilePath, methodName, availableTypeNames)
+  let responseTypesByStatus = tsModule && controllerFilePath
+    ? extractResponseTypesFromMethod(controllerContent, controllerFilePath, methodName, availableTypeNames, handlerPosition, handlerWrappers)
+    : undefined;
+
+  // JSDoc annotations fill in what the code itself doesn't say (mostly JavaScript controllers)
+  const jsDocTypes = tsModule && handlerSourceFile && handlerNode
+    ? extractJsDocTypesFromMethod(tsModule, handlerSourceFile, handlerNode)
     : undefined;
+  let requestBodyTypeName: string | undefined;
+
+  if (jsDocTypes) {
+    if (requestBodyFields.length === 0 && jsDocTypes.requestBodyFields.length > 0) {
+      requestBodyFields = jsDocTypes.requestBodyFields;
+    }
+    if (jsDocTypes.requestBodyTypeName && (!availableTypeNames || availableTypeNames.has(jsDocTypes.requestBodyTypeName))) {
+      requestBodyTypeName = jsDocTypes.requestBodyTypeName;
+    }
+
+    const returnTypeName = jsDocTypes.returnTypeName;
+    const successCode = statusCodes.find(code => code >= 200 && code < 300 && code !== 204);
+    if (
+      returnTypeName &&
+      successCode &&
+      !responseTypesByStatus?.has(successCode) &&
+      (!availableTypeNames || availableTypeNames.has(returnTypeName))
+    ) {
+      responseTypesByStatus = responseTypesByStatus || new Map<number, string>();
+      responseTypesByStatus.set(successCode, returnTypeName);
+    }
+  }
 
   if (responseTypesByStatus && responseTypesByStatus.size > 0) {
     console.log(`  📊 Extracted response types for ${methodName}:`, Array.from(responseTypesByStatus.entries()).map(([code, type]) => `${code}: ${type}`).join(', '));
@@ -245,7 +354,193 @@ export function analyzeControllerMethod(
     }
   }
 
-  return { requestBodyType, requestBodyFields, responseType, statusCodes, responseTypesByStatus };
+  return { requestBodyType, requestBodyFields, requestBodyTypeName, responseType, statusCodes, responseTypesByStatus };
+}
+
+interface HandlerNode {
+  declaration: import('typescript').Node; // The method/function/variable declaration that carries JSDoc
+  fn: import('typescript').FunctionLikeDeclaration;
+}
+
+/**
+ * Find a handler implementation by name (or by name without its HTTP verb prefix):
+ * - class methods and arrow-function properties
+ * - `export async function login(req, res)`
+ * - `export const login: RequestHandler = async (req, res) => {}`
+ * - `exports.login = ...` and members of exported object literals
+ * - any of the above wrapped in a handler wrapper: `export const login = catchAsync(async (req, res) => {})`
+ * With a position, the inline function starting there is returned instead.
+ */
+function findHandlerNode(
+  ts: typeof import('typescript'),
+  sourceFile: import('typescript').SourceFile,
+  methodName: string,
+  position?: number,
+  handlerWrappers: string[] = DEFAULT_HANDLER_WRAPPERS,
+  visitedNames: Set<string> = new Set()
+): HandlerNode | undefined {
+  if (position !== undefined) {
+    let inline: HandlerNode | undefined;
+    const visitInline = (node: import('typescript').Node) => {
+      if (inline) return;
+      if ((ts.isArrowFunction(node) || ts.isFunctionExpression(node)) && node.getStart(sourceFile) === position) {
+        inline = { declaration: node, fn: node };
+        return;
+      }
+      ts.forEachChild(node, visitInline);
+    };
+    visitInline(sourceFile);
+    return inline;
+  }
+
+  const methodCandidates: string[] = [methodName];
+  const stripped = methodName.replace(/^(get|post|put|patch|delete)/i, '');
+  if (stripped && stripped !== methodName) methodCandidates.push(stripped);
+
+  visitedNames.add(methodName);
+  const isHandlerWrapper = createWrapperMatcher(ts, sourceFile, handlerWrappers);
+  const found: HandlerNode[] = [];
+  const nameMatches = (name: string | undefined) =>
+    !!name && methodCandidates.some(c => name.toLowerCase() === c.toLowerCase());
+  const asFunction = (expr: import('typescript').Expression | undefined): import('typescript').FunctionLikeDeclaration | undefined => {
+    while (expr && (ts.isParenthesizedExpression(expr) || ts.isAsExpression(expr) || ts.isSatisfiesExpression(expr))) {
+      expr = expr.expression;
+    }
+    if (expr && ts.isCallExpression(expr) && isHandlerWrapper(expr)) {
+      const wrapped = expr.arguments[0];
+      // catchAsync(loginImpl) - the implementation is declared elsewhere in the file
+      if (ts.isIdentifier(wrapped) && !visitedNames.has(wrapped.text)) {
+        return findHandlerNode(ts, sourceFile, wrapped.text, undefined, handlerWrappers, visitedNames)?.fn;
+      }
+      return asFunction(wrapped);
+    }
+    return expr && (ts.isArrowFunction(expr) || ts.isFunctionExpression(expr)) ? expr : undefined;
+  };
+
+  const addMember = (member: import('typescript').Node) => {
+    if ((ts.isMethodDeclaration(member) || ts.isPropertyDeclaration(member) || ts.isPropertyAssignment(member)) &&
+      nameMatches(member.name?.getText(sourceFile))) {
+      const fn = ts.isMethodDeclaration(member) ? member : asFunction(member.initializer);
+      if (fn) found.push({ declaration: member, fn });
+    }
+  };
+  const addObjectMembers = (expr: import('typescript').Expression | undefined) => {
+    if (expr && ts.isObjectLiteralExpression(expr)) expr.properties.forEach(addMember);
+  };
+
+  ts.forEachChild(sourceFile, (node) => {
+    if (ts.isClassDeclaration(node)) {
+      node.members.forEach(addMember);
+    } else if (ts.isFunctionDeclaration(node) && node.body && nameMatches(node.name?.text)) {
+      found.push({ declaration: node, fn: node });
+    } else if (ts.isVariableStatement(node)) {
+      node.declarationList.declarations.forEach(decl => {
+        const fn = asFunction(decl.initializer);
+        if (fn && nameMatches(decl.name.getText(sourceFile))) {
+          found.push({ declaration: decl, fn });
+        } else {
+          addObjectMembers(decl.initializer);
+        }
+      });
+    } else if (ts.isExpressionStatement(node) && ts.isBinaryExpression(node.expression) &&
+      node.expression.operatorToken.kind === ts.SyntaxKind.EqualsToken) {
+      // exports.login = async (req, res) => {} / module.exports = { login }
+      const target = node.expression.left.getText(sourceFile);
+      const fn = asFunction(node.expression.right);
+      if (fn && /^(module\.)?exports\./.test(target) && nameMatches(target.split('.').pop())) {
+        found.push({ declaration: node, fn });
+      } else if (target === 'module.exports') {
+        addObjectMembers(node.expression.right);
+      }
+    } else if (ts.isExportAssignment(node)) {
+      addObjectMembers(node.expression);
+    } else {
+      addMember(node);
+    }
+  });
+
+  // Name a handler is declared under: login() {}, const login = ..., exports.login = ...
+  const getDeclaredName = (declaration: import('typescript').Node): string | undefined => {
+    if (ts.isFunctionLike(declaration) || ts.isVariableDeclaration(declaration) ||
+      ts.isPropertyDeclaration(declaration) || ts.isPropertyAssignment(declaration)) {
+      return declaration.name?.getText(sourceFile);
+    }
+    if (ts.isExpressionStatement(declaration) && ts.isBinaryExpression(declaration.expression)) {
+      return declaration.expression.left.getText(sourceFile).split('.').pop();
+    }
+    return undefined;
+  };
+
+  // Prefer an exact name match over one without the HTTP verb prefix
+  return found.find(handler => getDeclaredName(handler.declaration) === methodName) || found[0];
+}
+
+interface JsDocMethodTypes {
+  requestBodyTypeName?: string;
+  requestBodyFields: FieldInfo[];
+  returnTypeName?: string;
+}
+
+/**
+ * Read JSDoc type annotations of a controller method, the type source for
+ * JavaScript controllers:
+ *
+ *   @param {LoginBody} req.body          -> request body type
+ *   @param {string} req.body.email       -> request body field (after `@param {Object} req.body`;
+ *                                           [req.body.email] is optional)
+ *   @returns {Promise<UserResponse>}     -> success response type
+ */
+function extractJsDocTypesFromMethod(
+  ts: typeof import('typescript'),
+  sourceFile: import('typescript').SourceFile,
+  handlerNode: HandlerNode
+): JsDocMethodTypes {
+  const { declaration: methodNode, fn: functionNode } = handlerNode;
+  const bodyParamName = functionNode.parameters[0] && ts.isIdentifier(functionNode.parameters[0].name)
+    ? functionNode.parameters[0].name.text
+    : 'req';
+
+  // Type names like LoginBody or ApiResponse<User> -> ApiResponse; plain objects and primitives are skipped
+  const toTypeName = (typeNode: import('typescript').TypeNode | undefined): string | undefined => {
+    let text = typeNode?.getText(sourceFile).trim();
+    const promise = text?.match(/^Promise<(.+)>$/);
+    if (promise) text = promise[1].trim();
+    const name = text?.match(/^([A-Z][A-Za-z0-9_]*)/)?.[1];
+    return name && !['Object', 'Promise', 'Array', 'Function'].includes(name) ? name : undefined;
+  };
+
+  const result: JsDocMethodTypes = { requestBodyFields: [] };
+  // Arrow functions share the JSDoc of their declaration, so the same tags can come back twice
+  const tags = new Set([...ts.getJSDocTags(methodNode), ...(functionNode !== methodNode ? ts.getJSDocTags(functionNode) : [])]);
+
+  for (const tag of tags) {
+    if (ts.isJSDocParameterTag(tag) && ts.isQualifiedName(tag.name)) {
+      const paramPath = tag.name.getText(sourceFile);
+      const typeNode = tag.typeExpression?.type;
+
+      if (paramPath === `${bodyParamName}.body`) {
+        result.requestBodyTypeName = toTypeName(typeNode);
+
+        // `@param {Object} req.body` followed by `@param {string} req.body.email` lines
+        // are nested by the parser into a type literal
+        if (typeNode && ts.isJSDocTypeLiteral(typeNode)) {
+          typeNode.jsDocPropertyTags?.forEach(propertyTag => {
+            const fieldName = ts.isQualifiedName(propertyTag.name) ? propertyTag.name.right.text : propertyTag.name.text;
+            result.requestBodyFields.push({
+              name: fieldName,
+              type: propertyTag.typeExpression ? propertyTag.typeExpression.type.getText(sourceFile) : 'string',
+              required: !propertyTag.isBracketed,
+            });
+          });
+        }
+      }
+    } else if (ts.isJSDocReturnTag(tag) && !functionNode.type) {
+      // Only used when there is no TypeScript return type annotation
+      result.returnTypeName = toTypeName(tag.typeExpression?.type);
+    }
+  }
+
+  return result;
 }
 
 /**
@@ -255,7 +550,9 @@ function extractResponseTypesFromMethod(
   controllerContent: string,
   controllerFilePath: string,
   methodName: string,
-  availableTypeNames?: Set<string>
+  availableTypeNames?: Set<string>,
+  handlerPosition?: number,
+  handlerWrappers: string[] = DEFAULT_HANDLER_WRAPPERS
 ): Map<number, string> | undefined {
   if (!tsModule) {
     return undefined;
@@ -284,7 +581,7 @@ function extractResponseTypesFromMethod(
     const program = ts.createProgram([controllerFilePath], {
       target: ts.ScriptTarget.Latest,
       module: ts.ModuleKind.CommonJS,
-      allowJs: false,
+      allowJs: true,
       skipLibCheck: true,
     });
 
@@ -295,40 +592,16 @@ function extractResponseTypesFromMethod(
       return undefined;
     }
 
-    // Find the method declaration (try original and without HTTP verb)
-    const methodCandidates: string[] = [methodName];
-    const stripped = methodName.replace(/^(get|post|put|patch|delete)/i, '');
-    if (stripped && stripped !== methodName) methodCandidates.push(stripped);
-    let methodNode: any = null;
-    ts.forEachChild(sourceFile, (node) => {
-      if (ts.isClassDeclaration(node)) {
-        // Traverse class members
-        ts.forEachChild(node, (member) => {
-          if (ts.isMethodDeclaration(member) || ts.isPropertyDeclaration(member)) {
-            const name = member.name?.getText(sourceFile);
-            if (name && methodCandidates.some(c => name.toLowerCase() === c.toLowerCase())) {
-              methodNode = member;
-            }
-          }
-        });
-      } else if (ts.isMethodDeclaration(node) || ts.isPropertyDeclaration(node)) {
-        const name = node.name?.getText(sourceFile);
-        if (name && methodCandidates.some(c => name.toLowerCase() === c.toLowerCase())) {
-          methodNode = node;
-        }
-      }
-    });
+    // Find the handler (try original and without HTTP verb, or the inline handler at handlerPosition)
+    const handlerNode = findHandlerNode(ts, sourceFile, methodName, handlerPosition, handlerWrappers);
 
-    if (!methodNode) {
+    if (!handlerNode) {
       console.log(`  ⚠️  Method ${methodName} not found in ${controllerFilePath}`);
       return undefined;
     }
 
-    // If this is a class property with an arrow function, use the function node for params/body
-    let functionNode: any = methodNode;
-    if (ts.isPropertyDeclaration(methodNode) && methodNode.initializer && (ts.isArrowFunction(methodNode.initializer) || ts.isFunctionExpression(methodNode.initializer))) {
-      functionNode = methodNode.initializer;
-    }
+    // Use the function node (not e.g. the property holding an arrow function) for params/body
+    const functionNode: any = handlerNode.fn;
 
     // Collect potential Response parameter names (e.g., res)
     const responseParamNames = new Set<string>();
@@ -355,8 +628,8 @@ function extractResponseTypesFromMethod(
     }
 
     // Check if method has a return type annotation (e.g., Promise<ApiResponse<User>>)
-    if (ts.isMethodDeclaration(methodNode) && methodNode.type) {
-      const returnType = checker.getTypeAtLocation(methodNode.type);
+    if (functionNode.type) {
+      const returnType = checker.getTypeAtLocation(functionNode.type);
       const returnTypeString = checker.typeToString(returnType);
       // Try to extract type name from return type
       const returnTypeMatch = returnTypeString.match(/([A-Z][a-zA-Z0-9]+)/);
@@ -382,9 +655,10 @@ function extractResponseTypesFromMethod(
           list.push(node);
           variableDeclarations.set(varName, list);
           
-          // Check if there's an explicit type annotation
-          if (node.type) {
-            const type = checker.getTypeAtLocation(node.type);
+          // Check if there's an explicit type annotation (or a JSDoc @type in JavaScript)
+          const declaredType = node.type || ts.getJSDocType(node);
+          if (declaredType) {
+            const type = checker.getTypeAtLocation(declaredType);
             const typeString = checker.typeToString(type);
             
             // Extract full type name
@@ -539,7 +813,7 @@ function extractResponseTypesFromMethod(
                       const builtInTypes = ['Object', 'Promise', 'Partial', 'Pick', 'Omit', 'Record'];
                       if (symbolName && symbolName[0] === symbolName[0].toUpperCase() && !builtInTypes.includes(symbolName)) {
                         const typeDecl = symbol.getDeclarations()?.[0];
-                        if (typeDecl && (ts.isInterfaceDeclaration(typeDecl) || ts.isTypeAliasDeclaration(typeDecl))) {
+                        if (typeDecl && (ts.isInterfaceDeclaration(typeDecl) || ts.isTypeAliasDeclaration(typeDecl) || ts.isJSDocTypedefTag(typeDecl))) {
                           extractedType = symbolName;
                         }
                       }
@@ -556,7 +830,7 @@ function extractResponseTypesFromMethod(
                               const builtInTypes = ['Object', 'Promise', 'Partial', 'Pick', 'Omit', 'Record'];
                               if (symbolName && symbolName[0] === symbolName[0].toUpperCase() && !builtInTypes.includes(symbolName)) {
                                 const typeDecl = dataSymbol.getDeclarations()?.[0];
-                                if (typeDecl && (ts.isInterfaceDeclaration(typeDecl) || ts.isTypeAliasDeclaration(typeDecl))) {
+                                if (typeDecl && (ts.isInterfaceDeclaration(typeDecl) || ts.isTypeAliasDeclaration(typeDecl) || ts.isJSDocTypedefTag(typeDecl))) {
                                   if (!availableTypeNames || availableTypeNames.has(symbolName)) {
                                     extractedType = symbolName;
                                   }
@@ -724,7 +998,7 @@ function extractResponseTypesFromMethod(
                       if (symbolName && symbolName[0] === symbolName[0].toUpperCase() && !builtInTypes.includes(symbolName)) {
                         // Additional check: make sure it's not an anonymous object type
                         const typeDecl = symbol.getDeclarations()?.[0];
-                        if (typeDecl && (ts.isInterfaceDeclaration(typeDecl) || ts.isTypeAliasDeclaration(typeDecl))) {
+                        if (typeDecl && (ts.isInterfaceDeclaration(typeDecl) || ts.isTypeAliasDeclaration(typeDecl) || ts.isJSDocTypedefTag(typeDecl))) {
                           const declared = checker.getDeclaredTypeOfSymbol(symbol);
                           if (declared && isResponseEnvelopeType(declared)) {
                             extractedType = symbolName;
@@ -769,7 +1043,7 @@ function extractResponseTypesFromMethod(
                               const builtInTypes = ['Object', 'Promise', 'Partial', 'Pick', 'Omit', 'Record'];
                               if (symbolName && symbolName[0] === symbolName[0].toUpperCase() && !builtInTypes.includes(symbolName)) {
                                 const typeDecl = dataSymbol.getDeclarations()?.[0];
-                                if (typeDecl && (ts.isInterfaceDeclaration(typeDecl) || ts.isTypeAliasDeclaration(typeDecl))) {
+                                if (typeDecl && (ts.isInterfaceDeclaration(typeDecl) || ts.isTypeAliasDeclaration(typeDecl) || ts.isJSDocTypedefTag(typeDecl))) {
                                   // Only treat as response schema if the declared type has response envelope shape
                                   const declared = checker.getDeclaredTypeOfSymbol(dataSymbol);
                                   if (declared && isResponseEnvelopeType(declared)) {
@@ -0,0 +1,352 @@
+import * as fs from 'fs-extra';
+import * as path from 'path';
+import { PathParameterInfo } from './types';
+
+export interface ConvertedPath {
+  path: string; // OpenAPI path, e.g. /users/{id}
+  parameters: PathParameterInfo[];
+}
+
+export type ExpressVersion = 4 | 5;
+
+type PathToken =
+  | { kind: 'literal'; value: string }
+  | { kind: 'param'; name: string; pattern?: string; optional: boolean; wildcard?: boolean };
+
+// Express 5 paths can nest optional groups: /users{/:id}, /:file{.:ext}
+type Express5Node = PathToken | { kind: 'group'; children: Express5Node[] };
+
+let detectedExpressVersion: ExpressVersion | undefined;
+
+/**
+ * Resolve the Express major version routes are written for. 'auto' (the
+ * default) reads the express dependency range from the project's package.json
+ * and falls back to Express 4.
+ */
+export function resolveExpressVersion(option?: ExpressVersion | 'auto'): ExpressVersion {
+  if (option === 4 || option === 5) {
+    return option;
+  }
+
+  if (detectedExpressVersion === undefined) {
+    detectedExpressVersion = 4;
+    try {
+      const packageJsonPath = path.join(process.cwd(), 'package.json');
+      if (fs.existsSync(packageJsonPath)) {
+        const packageJson = fs.readJsonSync(packageJsonPath);
+        const range: string | undefined =
+          packageJson.dependencies?.express || packageJson.devDependencies?.express || packageJson.peerDependencies?.express;
+        const major = range?.match(/(\d+)/)?.[1];
+        if (major && parseInt(major) >= 5) {
+          detectedExpressVersion = 5;
+        }
+      }
+    } catch (error) {
+      // Keep the Express 4 default
+    }
+  }
+
+  return detectedExpressVersion;
+}
+
+/**
+ * Convert an Express route path into one or more OpenAPI paths.
+ * Express 5 paths are handled by parseExpress5Path; for Express 4:
+ *
+ * - `:id` → `{id}`
+ * - `:id(\\d+)` → `{id}` with pattern `^\d+$`
+ * - `:id?` → two paths, with and without the segment
+ * - `:from-:to` → `{from}-{to}`
+ * - `*` → `{wildcard}`
+ */
+export function convertExpressPath(expressPath: string, expressVersion: ExpressVersion = 4): ConvertedPath[] {
+  if (expressVersion === 5) {
+    return expandExpress5Nodes(parseExpress5Path(expressPath)).map(tokens => renderTokens(tokens, new Set()));
+  }
+
+  const tokens = tokenizeExpressPath(expressPath);
+  const optionalParams = tokens.filter(t => t.kind === 'param' && t.optional);
+
+  // Every combination of optional params present/absent, starting with all present
+  const variants: ConvertedPath[] = [];
+  const combinations = 1 << Math.min(optionalParams.length, 4);
+  for (let mask = 0; mask < combinations; mask++) {
+    const omitted = new Set(optionalParams.filter((_, index) => mask & (1 << index)));
+    variants.push(renderTokens(tokens, omitted));
+  }
+
+  return variants;
+}
+
+/**
+ * Convert the source of a regular expression route (e.g. /^\/users\/(\d+)$/)
+ * into Express 4 path strings that convertExpressPath understands, whichever
+ * Express version the app runs on.
+ * Top-level alternations produce one path each; capture groups become
+ * parameters named like Express exposes them (`req.params[0]`, or the group name).
+ * Returns an empty array when the expression cannot be expressed as a path.
+ */
+export function regexToExpressPaths(source: string): string[] {
+  const paths: string[] = [];
+
+  for (const alternative of splitTopLevel(source, '|')) {
+    let body = alternative.replace(/^\^/, '').replace(/\$$/, '').replace(/\\\/\?$/, '');
+    let groupIndex = 0;
+    let result = '';
+    let valid = true;
+
+    for (let i = 0; i < body.length && valid; i++) {
+      const char = body[i];
+
+      if (char === '\\' && i + 1 < body.length) {
+        const next = body[i + 1];
+        if (/[\/.\-_~]/.test(next)) {
+          result += next;
+          i++;
+        } else {
+          valid = false;
+        }
+      } else if (char === '(') {
+        const end = findClosingParen(body, i);
+        if (end === -1) {
+          valid = false;
+          break;
+        }
+        let group = body.substring(i + 1, end);
+        let name = String(groupIndex);
+        const named = group.match(/^\?<([A-Za-z_]\w*)>/);
+        if (named) {
+          name = named[1];
+          group = group.substring(named[0].length);
+        } else if (group.startsWith('?:')) {
+          valid = false;
+          break;
+        } else {
+          groupIndex++;
+        }
+        result += `:${name}(${group})`;
+        i = end;
+      } else if (char === '.' && (body[i + 1] === '*' || body[i + 1] === '+')) {
+        result += '*';
+        i++;
+      } else if (/[\[\]{}+*?.^$]/.test(char)) {
+        valid = false;
+      } else {
+        result += char;
+      }
+    }
+
+    if (valid && result) {
+      paths.push(result.startsWith('/') ? result : `/${result}`);
+    }
+  }
+
+  return paths;
+}
+
+function tokenizeExpressPath(expressPath: string): PathToken[] {
+  const tokens: PathToken[] = [];
+  let literal = '';
+  let wildcardCount = 0;
+
+  const flushLiteral = () => {
+    if (literal) tokens.push({ kind: 'literal', value: literal });
+    literal = '';
+  };
+
+  for (let i = 0; i < expressPath.length; i++) {
+    const char = expressPath[i];
+
+    if (char === ':' && /\w/.test(expressPath[i + 1] || '')) {
+      flushLiteral();
+      const name = expressPath.substring(i + 1).match(/^\w+/)![0];
+      i += name.length;
+
+      let pattern: string | undefined;
+      if (expressPath[i + 1] === '(') {
+        const end = findClosingParen(expressPath, i + 1);
+        if (end !== -1) {
+          pattern = expressPath.substring(i + 2, end);
+          i = end;
+        }
+      }
+
+      let optional = false;
+      if (expressPath[i + 1] === '?') {
+        optional = true;
+        i++;
+      }
+
+      tokens.push({ kind: 'param', name, pattern, optional });
+    } else if (char === '*') {
+      flushLiteral();
+      wildcardCount++;
+      tokens.push({
+        kind: 'param',
+        name: wildcardCount === 1 ? 'wildcard' : `wildcard${wildcardCount}`,
+        optional: false,
+        wildcard: true,
+      });
+    } else {
+      literal += char;
+    }
+  }
+
+  flushLiteral();
+  return tokens;
+}
+
+/**
+ * Parse an Express 5 (path-to-regexp v8) path:
+ * - `:name` / `:"quoted name"` parameters
+ * - `*name` named wildcards matching one or more segments
+ * - `{...}` optional groups, which may be nested
+ * - `\\` escapes the next character
+ */
+function parseExpress5Path(expressPath: string): Express5Node[] {
+  let index = 0;
+
+  const readName = (): string => {
+    if (expressPath[index] === '"') {
+      const end = expressPath.indexOf('"', index + 1);
+      const name = expressPath.substring(index + 1, end === -1 ? expressPath.length : end);
+      index = end === -1 ? expressPath.length : end + 1;
+      return name;
+    }
+    const name = expressPath.substring(index).match(/^[A-Za-z_$][\w$]*/)?.[0] || '';
+    index += name.length;
+    return name;
+  };
+
+  const parseSequence = (insideGroup: boolean): Express5Node[] => {
+    const nodes: Express5Node[] = [];
+    let literal = '';
+    const flushLiteral = () => {
+      if (literal) nodes.push({ kind: 'literal', value: literal });
+      literal = '';
+    };
+
+    while (index < expressPath.length) {
+      const char = expressPath[index];
+
+      if (char === '\\') {
+        literal += expressPath[index + 1] || '';
+        index += 2;
+      } else if (char === ':' || char === '*') {
+        index++;
+        const name = readName();
+        if (!name) {
+          literal += char;
+          continue;
+        }
+        flushLiteral();
+        nodes.push({ kind: 'param', name, optional: false, wildcard: char === '*' });
+      } else if (char === '{') {
+        flushLiteral();
+        index++;
+        nodes.push({ kind: 'group', children: parseSequence(true) });
+      } else if (char === '}' && insideGroup) {
+        index++;
+        break;
+      } else {
+        literal += char;
+        index++;
+      }
+    }
+
+    flushLiteral();
+    return nodes;
+  };
+
+  return parseSequence(false);
+}
+
+/**
+ * Expand optional groups into every combination of present/absent,
+ * starting with all groups present
+ */
+function expandExpress5Nodes(nodes: Express5Node[]): PathToken[][] {
+  let variants: PathToken[][] = [[]];
+
+  nodes.forEach(node => {
+    if (node.kind === 'group') {
+      const groupVariants = [...expandExpress5Nodes(node.children), []];
+      variants = variants.flatMap(prefix => groupVariants.map(group => [...prefix, ...group]));
+    } else {
+      variants = variants.map(prefix => [...prefix, node]);
+    }
+  });
+
+  return variants.slice(0, 16);
+}
+
+function renderTokens(tokens: PathToken[], omitted: Set<PathToken>): ConvertedPath {
+  let result = '';
+  const parameters: PathParameterInfo[] = [];
+
+  tokens.forEach(token => {
+    if (token.kind === 'literal') {
+      result += token.value;
+      return;
+    }
+
+    if (omitted.has(token)) {
+      // Drop the slash that introduced the optional segment
+      result = result.replace(/\/$/, '');
+      return;
+    }
+
+    result += `{${token.name}}`;
+    const parameter: PathParameterInfo = { name: token.name };
+    if (token.pattern) {
+      parameter.pattern = `^${token.pattern}$`;
+    }
+    if (token.wildcard) {
+      parameter.description = 'Wildcard path segment(s)';
+    }
+    parameters.push(parameter);
+  });
+
+  return { path: result || '/', parameters };
+}
+
+function findClosingParen(text: string, openIndex: number): number {
+  let depth = 0;
+  for (let i = openIndex; i < text.length; i++) {
+    if (text[i] === '\\') {
+      i++;
+    } else if (text[i] === '(') {
+      depth++;
+    } else if (text[i] === ')') {
+      depth--;
+      if (depth === 0) return i;
+    }
+  }
+  return -1;
+}
+
+function splitTopLevel(text: string, separator: string): string[] {
+  const parts: string[] = [];
+  let depth = 0;
+  let current = '';
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (char === '\\') {
+      current += char + (text[i + 1] || '');
+      i++;
+      continue;
+    }
+    if (char === '(' || char === '[') depth++;
+    if (char === ')' || char === ']') depth--;
+    if (char === separator && depth === 0) {
+      parts.push(current);
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+
+  parts.push(current);
+  return parts;
+}
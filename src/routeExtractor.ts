@@ -0,0 +1,1112 @@
+import * as fs from 'fs-extra';
+import { HttpMethod, RouteInfo, SwaggerifyOptions, ValidatorLibrary, ValidatorReference, ValidatorSegment } from './types';
+import { convertExpressPath, ExpressVersion, regexToExpressPaths } from './pathConverter';
+import { findLocalDeclaration, resolveExport, ResolvedExport, resolveHandler, resolveIdentifier } from './moduleResolver';
+import { extractExpressValidatorFields } from './expressValidatorExtractor';
+import { resolveRouteSecurity } from './security';
+
+type TypeScriptModule = typeof import('typescript');
+
+const ROUTE_METHODS = ['get', 'post', 'put', 'patch', 'delete', 'head', 'options', 'all'];
+
+// Methods router.all() is documented under unless configured otherwise
+export const DEFAULT_ALL_METHODS: HttpMethod[] = ['GET', 'POST', 'PUT', 'PATCH', 'DELETE', 'HEAD', 'OPTIONS'];
+
+// Higher-order functions known to wrap a route handler, e.g. asyncHandler(controller.list)
+export const DEFAULT_HANDLER_WRAPPERS = [
+  'asyncHandler',
+  'catchAsync',
+  'asyncWrapper',
+  'wrapAsync',
+  'asyncMiddleware',
+  'catchErrors',
+  'expressAsyncHandler',
+];
+
+export interface RouteExtractionOptions {
+  expressVersion: ExpressVersion;
+  allMethods: HttpMethod[];
+  handlerWrappers: string[];
+  // Middleware applied where the file's routers are mounted (app.use('/api', authenticate, routes))
+  inheritedMiddleware?: string[];
+  // Local name of the router the mount is for - only its routes, and those of routers
+  // mounted on it in the file, are extracted. Unset for every router in the file.
+  router?: string;
+  // Security configuration (securitySchemes, securityMiddleware) a route's hasAuth is derived from
+  security?: SwaggerifyOptions;
+}
+
+// A route's path argument, in the Express syntax it's written in
+interface RoutePath {
+  path: string;
+  // Paths translated from a regular expression are always Express 4 syntax: :0(\d+)
+  expressVersion?: ExpressVersion;
+}
+
+interface RouteBuildContext {
+  expressVersion: ExpressVersion;
+  security: SwaggerifyOptions;
+  resolveHandlerFile: boolean;
+  isHandlerWrapper: (call: import('typescript').CallExpression) => boolean;
+}
+
+// Names a validator's target is given by: validate(schema, 'query'), celebrate({ [Segments.QUERY]: schema })
+const VALIDATOR_SEGMENTS: Record<string, ValidatorSegment> = {
+  body: 'body',
+  query: 'query',
+  params: 'params',
+  param: 'params',
+  headers: 'headers',
+  header: 'headers',
+};
+
+// Validators taking an object of schemas per request part: celebrate({ body, query }), validateRequest({ body, params })
+const SEGMENT_OBJECT_VALIDATORS: Record<string, ValidatorLibrary> = {
+  celebrate: 'joi',
+  validateRequest: 'zod',
+  processRequest: 'zod',
+};
+
+// Validators taking a schema of any library and an optional segment: validate(schema[, 'query'])
+const GENERIC_VALIDATORS = ['validate', 'validateSchema'];
+
+// Zod middleware taking the request body schema
+const ZOD_BODY_VALIDATORS = ['zodMiddleware', 'zodValidate', 'validateZod'];
+
+// class-validator middleware taking a DTO class: validateDto(CreateOrderDto[, 'query'])
+const DTO_VALIDATORS = ['validateDto', 'validationMiddleware', 'transformAndValidate'];
+
+// Type names that identify an Express router or application
+export const ROUTER_TYPE_NAMES = ['Router', 'IRouter', 'Express', 'Application'];
+
+/**
+ * Extract routes by walking the TypeScript AST of a route file.
+ * Only real call expressions are considered, so commented-out routes, parens
+ * inside strings and template-literal paths no longer confuse the parser.
+ */
+export function extractRoutesFromAst(
+  ts: TypeScriptModule,
+  fileContent: string,
+  basePath: string,
+  routeFilePath?: string,
+  extraction: RouteExtractionOptions = { expressVersion: 4, allMethods: DEFAULT_ALL_METHODS, handlerWrappers: DEFAULT_HANDLER_WRAPPERS }
+): RouteInfo[] {
+  const sourceFile = ts.createSourceFile(
+    routeFilePath || 'routes.ts',
+    fileContent,
+    ts.ScriptTarget.Latest,
+    true
+  );
+  const constants = collectStringConstants(ts, sourceFile);
+  const isRouter = createRouterMatcher(ts, sourceFile, routeFilePath);
+  const useCalls = collectUseCalls(ts, sourceFile, isRouter, constants);
+  const localPrefixes = getLocalRouterPrefixes(ts, sourceFile, useCalls, isRouter);
+  const getUseMiddleware = createUseMiddlewareResolver(ts, sourceFile, useCalls, isRouter);
+  const getRootRouter = createRootRouterResolver(ts, sourceFile, useCalls, isRouter);
+  const routes: RouteInfo[] = [];
+  const buildContext: RouteBuildContext = {
+    expressVersion: extraction.expressVersion,
+    security: extraction.security || {},
+    resolveHandlerFile: !!routeFilePath,
+    isHandlerWrapper: createWrapperMatcher(ts, sourceFile, extraction.handlerWrappers),
+  };
+
+  // Routers mounted on another router in this file inherit its mount path
+  const basePathFor = (receiver: import('typescript').Expression) =>
+    joinRoutePaths(basePath, localPrefixes.get(getRouterKey(ts, sourceFile, receiver)) || '');
+
+  const addRoutes = (
+    methodName: string,
+    routePaths: RoutePath[],
+    handlerArgs: readonly import('typescript').Expression[],
+    receiver: import('typescript').Expression,
+    position: number
+  ) => {
+    if (extraction.router && getRootRouter(receiver) !== extraction.router) return;
+
+    const routeBasePath = basePathFor(receiver);
+    // Mount-site middleware first, then router.use() calls that precede the route
+    const inheritedMiddleware = [
+      ...(extraction.inheritedMiddleware || []),
+      ...getUseMiddleware(receiver, routePaths[0].path, position),
+    ];
+    const build = (method: string) =>
+      buildRouteInfo(ts, sourceFile, method, routePaths, handlerArgs, routeBasePath, inheritedMiddleware, buildContext);
+
+    if (methodName !== 'all') {
+      routes.push(...build(methodName.toUpperCase()));
+      return;
+    }
+
+    // router.all() - one operation per configured method, with method-specific operationIds
+    extraction.allMethods.forEach(method => {
+      build(method).forEach(route => {
+        const baseId = route.operationId || route.controllerMethod;
+        route.operationId = method.toLowerCase() + baseId.charAt(0).toUpperCase() + baseId.slice(1);
+        routes.push(route);
+      });
+    });
+  };
+
+  const visit = (node: import('typescript').Node) => {
+    // Visit children first so chained calls are reported in source order
+    ts.forEachChild(node, visit);
+
+    if (ts.isCallExpression(node) && ts.isPropertyAccessExpression(node.expression)) {
+      const methodName = node.expression.name.text;
+      const receiver = node.expression.expression;
+
+      if (ROUTE_METHODS.includes(methodName)) {
+        if (node.arguments.length >= 2 && isRouter(receiver)) {
+          // router.METHOD(path, ...middleware, handler)
+          const routePaths = resolveRoutePaths(ts, node.arguments[0], constants);
+          if (routePaths.length > 0) {
+            addRoutes(methodName, routePaths, node.arguments.slice(1), receiver, node.getStart(sourceFile));
+          }
+        } else if (node.arguments.length >= 1) {
+          // router.route(path).get(...).put(...) - every verb call shares the route() path
+          const routeCall = findChainedRouteCall(ts, receiver, isRouter);
+          if (routeCall && ts.isPropertyAccessExpression(routeCall.expression)) {
+            const routePaths = resolveRoutePaths(ts, routeCall.arguments[0], constants);
+            if (routePaths.length > 0) {
+              addRoutes(methodName, routePaths, node.arguments, routeCall.expression.expression, routeCall.getStart(sourceFile));
+            }
+          }
+        }
+      }
+    }
+  };
+
+  visit(sourceFile);
+
+  return routes;
+}
+
+/**
+ * Create a predicate that tells whether an expression is an Express Router or
+ * app instance. Identifiers are resolved by their initializer
+ * (`express.Router()`, `Router()`, `express()`) or type annotation, falling
+ * back to the type checker for anything else (e.g. routers passed in as
+ * parameters or imported from another module).
+ */
+export function createRouterMatcher(
+  ts: TypeScriptModule,
+  sourceFile: import('typescript').SourceFile,
+  filePath?: string
+): (expr: import('typescript').Expression) => boolean {
+  // Local names bound to the express module and to its Router factory
+  const expressNames = new Set<string>(['express']);
+  const routerFactoryNames = new Set<string>(['Router']);
+  const routerNames = new Set<string>();
+
+  const isExpressModule = (expr: import('typescript').Expression | undefined): boolean =>
+    !!expr && ts.isStringLiteral(expr) && expr.text === 'express';
+
+  const isRequireOfExpress = (expr: import('typescript').Expression): boolean =>
+    ts.isCallExpression(expr) &&
+    ts.isIdentifier(expr.expression) &&
+    expr.expression.text === 'require' &&
+    isExpressModule(expr.arguments[0]);
+
+  const isRouterFactoryCall = (expr: import('typescript').Expression): boolean => {
+    const unwrapped = unwrapExpression(ts, expr);
+    if (!ts.isCallExpression(unwrapped) && !ts.isNewExpression(unwrapped)) return false;
+    const callee = unwrapped.expression;
+    if (ts.isIdentifier(callee)) {
+      return routerFactoryNames.has(callee.text) || expressNames.has(callee.text);
+    }
+    return (
+      ts.isPropertyAccessExpression(callee) &&
+      callee.name.text === 'Router' &&
+      ts.isIdentifier(callee.expression) &&
+      expressNames.has(callee.expression.text)
+    );
+  };
+
+  const isRouterTypeNode = (typeNode: import('typescript').TypeNode | undefined): boolean => {
+    if (!typeNode) return false;
+    const typeName = typeNode.getText(sourceFile).replace(/<.*$/, '').split('.').pop();
+    return !!typeName && ROUTER_TYPE_NAMES.includes(typeName);
+  };
+
+  // First pass: express imports and requires
+  sourceFile.statements.forEach(statement => {
+    if (ts.isImportDeclaration(statement) && isExpressModule(statement.moduleSpecifier)) {
+      const clause = statement.importClause;
+      if (clause?.name) expressNames.add(clause.name.text);
+      if (clause?.namedBindings) {
+        if (ts.isNamespaceImport(clause.namedBindings)) {
+          expressNames.add(clause.namedBindings.name.text);
+        } else {
+          clause.namedBindings.elements.forEach(element => {
+            if ((element.propertyName || element.name).text === 'Router') {
+              routerFactoryNames.add(element.name.text);
+            }
+          });
+        }
+      }
+    } else if (ts.isVariableStatement(statement)) {
+      statement.declarationList.declarations.forEach(decl => {
+        if (!decl.initializer || !isRequireOfExpress(unwrapExpression(ts, decl.initializer))) return;
+        if (ts.isIdentifier(decl.name)) {
+          expressNames.add(decl.name.text);
+        } else if (ts.isObjectBindingPattern(decl.name)) {
+          decl.name.elements.forEach(element => {
+            const importedName = element.propertyName?.getText(sourceFile) || element.name.getText(sourceFile);
+            if (importedName === 'Router' && ts.isIdentifier(element.name)) {
+              routerFactoryNames.add(element.name.text);
+            }
+          });
+        }
+      });
+    }
+  });
+
+  // Second pass: variables, parameters and class properties holding routers
+  const visit = (node: import('typescript').Node) => {
+    if ((ts.isVariableDeclaration(node) || ts.isParameter(node)) && ts.isIdentifier(node.name)) {
+      if (isRouterTypeNode(node.type) || (node.initializer && isRouterFactoryCall(node.initializer))) {
+        routerNames.add(node.name.text);
+      }
+    } else if (ts.isPropertyDeclaration(node) && ts.isIdentifier(node.name)) {
+      if (isRouterTypeNode(node.type) || (node.initializer && isRouterFactoryCall(node.initializer))) {
+        routerNames.add(`this.${node.name.text}`);
+      }
+    } else if (
+      ts.isBinaryExpression(node) &&
+      node.operatorToken.kind === ts.SyntaxKind.EqualsToken &&
+      isRouterFactoryCall(node.right)
+    ) {
+      // router = express.Router() / this.router = Router()
+      routerNames.add(node.left.getText(sourceFile).replace(/\s+/g, ''));
+    }
+    ts.forEachChild(node, visit);
+  };
+  visit(sourceFile);
+
+  // Type checker fallback, created lazily and only when the file on disk
+  // matches the content being parsed so node positions line up
+  let checkerState: { checker: import('typescript').TypeChecker; sourceFile: import('typescript').SourceFile } | null | undefined;
+  const getChecker = () => {
+    if (checkerState !== undefined) return checkerState;
+    checkerState = null;
+    try {
+      if (filePath && fs.existsSync(filePath)) {
+        const program = ts.createProgram([filePath], {
+          target: ts.ScriptTarget.Latest,
+          module: ts.ModuleKind.CommonJS,
+          allowJs: true,
+          skipLibCheck: true,
+        });
+        const programSourceFile = program.getSourceFile(filePath);
+        if (programSourceFile && programSourceFile.text === sourceFile.text) {
+          checkerState = { checker: program.getTypeChecker(), sourceFile: programSourceFile };
+        }
+      }
+    } catch (error) {
+      // Type information is optional
+    }
+    return checkerState;
+  };
+
+  const isRouterByType = (expr: import('typescript').Expression): boolean => {
+    const state = getChecker();
+    if (!state) return false;
+    const programNode = findNodeAtRange(ts, state.sourceFile, expr.getStart(sourceFile), expr.getEnd());
+    if (!programNode) return false;
+    const type = state.checker.getTypeAtLocation(programNode);
+    const typeName = type.aliasSymbol?.getName() || type.getSymbol()?.getName() || state.checker.typeToString(type);
+    return ROUTER_TYPE_NAMES.includes(typeName.split('.').pop() || '');
+  };
+
+  return (expr: import('typescript').Expression) => {
+    const unwrapped = unwrapExpression(ts, expr);
+    if (!ts.isIdentifier(unwrapped) && !ts.isPropertyAccessExpression(unwrapped)) {
+      return false;
+    }
+    if (routerNames.has(unwrapped.getText(sourceFile).replace(/\s+/g, ''))) {
+      return true;
+    }
+    return isRouterByType(unwrapped);
+  };
+}
+
+export interface RouterUseCall {
+  // The router or app the middleware / sub-router is mounted on
+  receiver: import('typescript').Expression;
+  // Mount path, '' when use() is called without one
+  mountPath: string;
+  // Remaining arguments with middleware arrays flattened
+  handlers: import('typescript').Expression[];
+  // Start of the use() call, to tell which routes it precedes
+  position: number;
+}
+
+/**
+ * Collect every `router.use([path], ...handlers)` call made on a router or app
+ */
+export function collectUseCalls(
+  ts: TypeScriptModule,
+  sourceFile: import('typescript').SourceFile,
+  isRouter: (expr: import('typescript').Expression) => boolean,
+  constants: Map<string, string> = collectStringConstants(ts, sourceFile)
+): RouterUseCall[] {
+  const useCalls: RouterUseCall[] = [];
+
+  const visit = (node: import('typescript').Node) => {
+    if (
+      ts.isCallExpression(node) &&
+      ts.isPropertyAccessExpression(node.expression) &&
+      node.expression.name.text === 'use' &&
+      node.arguments.length > 0 &&
+      isRouter(node.expression.expression)
+    ) {
+      const [first, ...rest] = node.arguments;
+      const mountPath = resolvePathArgument(ts, first, constants);
+      const args = mountPath !== undefined ? rest : node.arguments;
+
+      const handlers: import('typescript').Expression[] = [];
+      const flatten = (expr: import('typescript').Expression) => {
+        if (ts.isArrayLiteralExpression(expr)) {
+          expr.elements.forEach(flatten);
+        } else if (ts.isSpreadElement(expr)) {
+          flatten(expr.expression);
+        } else {
+          handlers.push(expr);
+        }
+      };
+      args.forEach(flatten);
+
+      useCalls.push({ receiver: node.expression.expression, mountPath: mountPath || '', handlers, position: node.getStart(sourceFile) });
+    }
+    ts.forEachChild(node, visit);
+  };
+
+  visit(sourceFile);
+  return useCalls;
+}
+
+/**
+ * Work out the mount path of routers that are declared and mounted within the
+ * same file, e.g. `const api = Router(); router.use('/api', api);`
+ */
+export function getLocalRouterPrefixes(
+  ts: TypeScriptModule,
+  sourceFile: import('typescript').SourceFile,
+  useCalls: RouterUseCall[],
+  isRouter: (expr: import('typescript').Expression) => boolean
+): Map<string, string> {
+  const parents = getLocalRouterParents(ts, sourceFile, useCalls, isRouter);
+
+  const prefixes = new Map<string, string>();
+  const resolvePrefix = (key: string, seen: Set<string>): string => {
+    const entry = parents.get(key);
+    if (!entry || seen.has(key)) return '';
+    seen.add(key);
+    return joinRoutePaths(resolvePrefix(entry.parent, seen), entry.mountPath);
+  };
+  parents.forEach((_, key) => prefixes.set(key, resolvePrefix(key, new Set())));
+
+  return prefixes;
+}
+
+/**
+ * Create a resolver of the router a route's receiver belongs to: the receiver
+ * itself, or for a router mounted on another one in the same file, the
+ * outermost router it's mounted under (the one other files mount)
+ */
+export function createRootRouterResolver(
+  ts: TypeScriptModule,
+  sourceFile: import('typescript').SourceFile,
+  useCalls: RouterUseCall[],
+  isRouter: (expr: import('typescript').Expression) => boolean
+): (receiver: import('typescript').Expression) => string {
+  const parents = getLocalRouterParents(ts, sourceFile, useCalls, isRouter);
+
+  return (receiver) => {
+    let key = getRouterKey(ts, sourceFile, receiver);
+    const seen = new Set<string>();
+    while (parents.has(key) && !seen.has(key)) {
+      seen.add(key);
+      key = parents.get(key)!.parent;
+    }
+    return key;
+  };
+}
+
+interface LocalRouterParent {
+  parent: string;
+  mountPath: string;
+  useCall: RouterUseCall;
+  handler: import('typescript').Expression;
+}
+
+// child router -> the router it's mounted on and the use() call mounting it
+function getLocalRouterParents(
+  ts: TypeScriptModule,
+  sourceFile: import('typescript').SourceFile,
+  useCalls: RouterUseCall[],
+  isRouter: (expr: import('typescript').Expression) => boolean
+): Map<string, LocalRouterParent> {
+  const parents = new Map<string, LocalRouterParent>();
+
+  useCalls.forEach(useCall => {
+    useCall.handlers.forEach(handler => {
+      const key = getRouterKey(ts, sourceFile, handler);
+      if (!parents.has(key) && isLocalDeclaration(ts, sourceFile, handler) && isRouter(handler)) {
+        parents.set(key, {
+          parent: getRouterKey(ts, sourceFile, useCall.receiver),
+          mountPath: useCall.mountPath,
+          useCall,
+          handler,
+        });
+      }
+    });
+  });
+
+  return parents;
+}
+
+/**
+ * Split the handlers of a use() call into middleware and mounted routers.
+ * Besides known routers, the last plain reference of a use() with a mount path
+ * (`router.use('/users', authenticate, userRoutes)`) is taken as a router.
+ */
+export function splitUseCallHandlers(
+  ts: TypeScriptModule,
+  sourceFile: import('typescript').SourceFile,
+  useCall: RouterUseCall,
+  isRouter: (expr: import('typescript').Expression) => boolean
+): { middleware: import('typescript').Expression[]; routers: import('typescript').Expression[] } {
+  const middleware: import('typescript').Expression[] = [];
+  const routers: import('typescript').Expression[] = [];
+
+  useCall.handlers.forEach((handler, index) => {
+    const unwrapped = unwrapExpression(ts, handler);
+    const isLastReference =
+      !!useCall.mountPath &&
+      index === useCall.handlers.length - 1 &&
+      (ts.isIdentifier(unwrapped) || ts.isPropertyAccessExpression(unwrapped));
+
+    if (isLastReference || isRouter(handler) || resolveMountedRouter(ts, sourceFile, handler)) {
+      routers.push(handler);
+    } else {
+      middleware.push(handler);
+    }
+  });
+
+  return { middleware, routers };
+}
+
+/**
+ * Create a lookup for the router-level middleware a route inherits within its
+ * file: `router.use(mw)` / `router.use('/admin', mw)` calls on its router made
+ * before the route, and for routers mounted locally, the parent's middleware
+ * up to the mount plus any middleware passed alongside it.
+ */
+export function createUseMiddlewareResolver(
+  ts: TypeScriptModule,
+  sourceFile: import('typescript').SourceFile,
+  useCalls: RouterUseCall[],
+  isRouter: (expr: import('typescript').Expression) => boolean
+): (receiver: import('typescript').Expression, routePath: string, position: number) => string[] {
+  const parents = getLocalRouterParents(ts, sourceFile, useCalls, isRouter);
+  const splitCalls = new Map(useCalls.map(useCall => [useCall, splitUseCallHandlers(ts, sourceFile, useCall, isRouter)]));
+  const toText = (expr: import('typescript').Expression) => normalizeWhitespace(expr.getText(sourceFile));
+
+  const resolve = (receiverKey: string, routePath: string, position: number, seen: Set<string>): string[] => {
+    const middleware: string[] = [];
+
+    const parent = parents.get(receiverKey);
+    if (parent && !seen.has(receiverKey)) {
+      seen.add(receiverKey);
+      middleware.push(
+        ...resolve(parent.parent, joinRoutePaths(parent.mountPath, routePath), parent.useCall.position, seen),
+        ...parent.useCall.handlers
+          .slice(0, parent.useCall.handlers.indexOf(parent.handler))
+          .filter(handler => splitCalls.get(parent.useCall)?.middleware.includes(handler))
+          .map(toText)
+      );
+    }
+
+    useCalls
+      .filter(useCall =>
+        useCall.position < position &&
+        getRouterKey(ts, sourceFile, useCall.receiver) === receiverKey &&
+        hasPathPrefix(routePath, useCall.mountPath)
+      )
+      .forEach(useCall => middleware.push(...(splitCalls.get(useCall)?.middleware || []).map(toText)));
+
+    return middleware;
+  };
+
+  return (receiver, routePath, position) =>
+    resolve(getRouterKey(ts, sourceFile, receiver), routePath, position, new Set());
+}
+
+/**
+ * Whether a use() mount path applies to a route path: '' and '/' apply to
+ * everything, otherwise whole segments must match
+ */
+export function hasPathPrefix(routePath: string, mountPath: string): boolean {
+  const prefix = joinRoutePaths(mountPath);
+  if (!prefix || prefix === '/') return true;
+  const target = joinRoutePaths(routePath);
+  return target === prefix || target.startsWith(`${prefix}/`);
+}
+
+/**
+ * Resolve a use() argument to the module-level router it refers to.
+ * Handles imported identifiers (including re-exports) and namespace access
+ * like `routes.users`. Middleware and local routers resolve to undefined.
+ */
+export function resolveMountedRouter(
+  ts: TypeScriptModule,
+  sourceFile: import('typescript').SourceFile,
+  handler: import('typescript').Expression
+): ResolvedExport | undefined {
+  const expr = unwrapExpression(ts, handler);
+
+  let resolved: ResolvedExport | undefined;
+  if (ts.isIdentifier(expr)) {
+    resolved = resolveIdentifier(ts, sourceFile, expr.text);
+  } else if (ts.isPropertyAccessExpression(expr) && ts.isIdentifier(expr.expression)) {
+    const namespace = resolveIdentifier(ts, sourceFile, expr.expression.text);
+    if (namespace && namespace.localName === '*') {
+      resolved = resolveExport(ts, namespace.filePath, expr.name.text);
+    }
+  }
+
+  return resolved && isRouterDeclaration(ts, resolved) ? resolved : undefined;
+}
+
+function isRouterDeclaration(ts: TypeScriptModule, resolved: ResolvedExport): boolean {
+  if (resolved.localName === '*' || resolved.localName === 'default') {
+    return false;
+  }
+
+  const isRouter = createRouterMatcher(ts, resolved.sourceFile, resolved.filePath);
+
+  let declaration: import('typescript').Identifier | undefined;
+  const visit = (node: import('typescript').Node) => {
+    if (declaration) return;
+    if (ts.isVariableDeclaration(node) && ts.isIdentifier(node.name) && node.name.text === resolved.localName) {
+      declaration = node.name;
+      return;
+    }
+    ts.forEachChild(node, visit);
+  };
+  visit(resolved.sourceFile);
+
+  return !!declaration && isRouter(declaration);
+}
+
+function isLocalDeclaration(
+  ts: TypeScriptModule,
+  sourceFile: import('typescript').SourceFile,
+  expr: import('typescript').Expression
+): boolean {
+  const unwrapped = unwrapExpression(ts, expr);
+  if (ts.isPropertyAccessExpression(unwrapped)) {
+    return unwrapped.expression.kind === ts.SyntaxKind.ThisKeyword;
+  }
+  if (!ts.isIdentifier(unwrapped)) return false;
+
+  let declared = false;
+  const visit = (node: import('typescript').Node) => {
+    if (declared) return;
+    if (ts.isVariableDeclaration(node) && ts.isIdentifier(node.name) && node.name.text === unwrapped.text) {
+      declared = true;
+      return;
+    }
+    ts.forEachChild(node, visit);
+  };
+  visit(sourceFile);
+  return declared;
+}
+
+function getRouterKey(
+  ts: TypeScriptModule,
+  sourceFile: import('typescript').SourceFile,
+  expr: import('typescript').Expression
+): string {
+  return unwrapExpression(ts, expr).getText(sourceFile).replace(/\s+/g, '');
+}
+
+/**
+ * Join route path segments, avoiding duplicate and trailing slashes
+ */
+export function joinRoutePaths(...parts: string[]): string {
+  const joined = parts
+    .filter(Boolean)
+    .join('/')
+    .replace(/\/{2,}/g, '/')
+    .replace(/(.)\/$/, '$1');
+
+  if (!joined) return '';
+  return joined.startsWith('/') ? joined : `/${joined}`;
+}
+
+function findNodeAtRange(
+  ts: TypeScriptModule,
+  root: import('typescript').Node,
+  start: number,
+  end: number
+): import('typescript').Node | undefined {
+  let found: import('typescript').Node | undefined;
+  const visit = (node: import('typescript').Node) => {
+    if (found || node.getEnd() < end || node.pos > start) return;
+    if (node.getStart() === start && node.getEnd() === end) {
+      found = node;
+      return;
+    }
+    ts.forEachChild(node, visit);
+  };
+  visit(root);
+  return found;
+}
+
+export function unwrapExpression(ts: TypeScriptModule, expr: import('typescript').Expression): import('typescript').Expression {
+  let current = expr;
+  while (ts.isParenthesizedExpression(current) || ts.isAsExpression(current) || ts.isNonNullExpression(current)) {
+    current = current.expression;
+  }
+  return current;
+}
+
+/**
+ * Walk down a chain like router.route('/x').get(a).put(b) and return the
+ * router.route('/x') call at its base, if there is one.
+ */
+function findChainedRouteCall(
+  ts: TypeScriptModule,
+  expr: import('typescript').Expression,
+  isRouter: (expr: import('typescript').Expression) => boolean
+): import('typescript').CallExpression | undefined {
+  let current = expr;
+
+  while (ts.isCallExpression(current) && ts.isPropertyAccessExpression(current.expression)) {
+    const name = current.expression.name.text;
+    const receiver = current.expression.expression;
+
+    if (name === 'route') {
+      return current.arguments.length > 0 && isRouter(receiver) ? current : undefined;
+    }
+    if (!ROUTE_METHODS.includes(name)) {
+      return undefined;
+    }
+    current = receiver;
+  }
+
+  return undefined;
+}
+
+/**
+ * Build RouteInfo entries from the arguments that follow the path in a route call.
+ * The last argument is the handler, everything before it is middleware.
+ * One entry is produced per path (array paths) and per optional-parameter variant.
+ */
+function buildRouteInfo(
+  ts: TypeScriptModule,
+  sourceFile: import('typescript').SourceFile,
+  method: string,
+  routePaths: RoutePath[],
+  handlerArgs: readonly import('typescript').Expression[],
+  basePath: string,
+  inheritedMiddleware: string[],
+  context: RouteBuildContext
+): RouteInfo[] {
+  const middleware: string[] = [...inheritedMiddleware];
+  const validators: ValidatorReference[] = [];
+  // express-validator rules of each request part, spread over several arguments
+  const expressValidatorRules = new Map<ValidatorSegment, string[]>();
+
+  handlerArgs.slice(0, -1).forEach(arg => {
+    const text = normalizeWhitespace(arg.getText(sourceFile));
+    middleware.push(text);
+
+    // body('email').isEmail(), checkSchema({...}), [rules] - grouped by request part below
+    const ruleSegments = new Set(extractExpressValidatorFields(ts, arg, sourceFile).map(field => field.segment));
+    if (ruleSegments.size > 0) {
+      ruleSegments.forEach(segment => expressValidatorRules.set(segment, [...(expressValidatorRules.get(segment) || []), text]));
+      return;
+    }
+
+    // validate(schemaRef[, segment]) / celebrate({...}) - keep the schema references for Joi extraction
+    validators.push(...getValidatorReferences(ts, sourceFile, arg));
+  });
+
+  expressValidatorRules.forEach((rules, segment) => {
+    validators.push({
+      segment,
+      schemaRef: rules.length === 1 ? rules[0] : `[${rules.join(', ')}]`,
+      library: 'express-validator',
+    });
+  });
+
+  const validatorSchema = validators.find(validator => validator.segment === 'body')?.schemaRef;
+
+  const hasAuth = resolveRouteSecurity(middleware, context.security).length > 0;
+
+  // Extract handler name (controller.method, bare function or anonymous function)
+  let handlerName = 'unknown';
+  let controllerMethod = 'unknown';
+
+  const handlerRef = findHandlerReference(ts, handlerArgs[handlerArgs.length - 1], context.isHandlerWrapper);
+  if (handlerRef && (ts.isArrowFunction(handlerRef) || ts.isFunctionExpression(handlerRef))) {
+    handlerName = 'anonymous';
+  } else if (handlerRef && ts.isPropertyAccessExpression(handlerRef)) {
+    handlerName = normalizeWhitespace(handlerRef.getText(sourceFile));
+    controllerMethod = handlerRef.name.text;
+  } else if (handlerRef && ts.isIdentifier(handlerRef)) {
+    handlerName = handlerRef.text;
+    controllerMethod = handlerRef.text;
+  }
+
+  // If we still don't have a good controllerMethod, generate one
+  if (controllerMethod === 'unknown' || controllerMethod === 'bind') {
+    controllerMethod = generateOperationId(method, routePaths[0].path);
+  }
+
+  // Follow the route file's imports to where the handler is implemented;
+  // inline handlers are located by their position in the route file
+  let handlerLocation: RouteInfo['handlerLocation'];
+  if (context.resolveHandlerFile && handlerRef) {
+    handlerLocation = ts.isArrowFunction(handlerRef) || ts.isFunctionExpression(handlerRef)
+      ? { filePath: sourceFile.fileName, name: controllerMethod, position: handlerRef.getStart(sourceFile) }
+      : resolveHandler(ts, sourceFile, handlerRef);
+  }
+
+  // Mount paths can carry parameters too (e.g. /orgs/:orgId), so convert the joined path
+  const convertedPaths = routePaths.flatMap(routePath =>
+    convertExpressPath(joinRoutePaths(basePath, routePath.path), routePath.expressVersion || context.expressVersion)
+  );
+
+  return convertedPaths.map((converted, index) => ({
+    method,
+    path: converted.path,
+    handlerName,
+    controllerMethod,
+    // Keep operationIds unique when one handler is documented under several paths
+    operationId: index === 0 ? undefined : `${controllerMethod}${index + 1}`,
+    hasAuth,
+    middleware: [...middleware],
+    validatorSchema,
+    validators: validators.length > 0 ? [...validators] : undefined,
+    pathParameters: converted.parameters,
+    handlerLocation,
+  }));
+}
+
+/**
+ * Validator references in a middleware argument:
+ * - validate(schema) for the body, validate(schema, 'query') / validate(schema, Segments.QUERY),
+ *   also as validateSchema(schema) - the library is detected from the schema
+ * - validateQuery(schema), validateParams(schema), ...
+ * - celebrate({ [Segments.BODY]: schema, query: schema })
+ * - Zod: zodMiddleware(schema), validateRequest({ body, query, params }),
+ *   validateRequestBody(schema), ...
+ * - class-validator: validateDto(CreateOrderDto), validationMiddleware(QueryDto, 'query')
+ */
+function getValidatorReferences(
+  ts: TypeScriptModule,
+  sourceFile: import('typescript').SourceFile,
+  arg: import('typescript').Expression
+): ValidatorReference[] {
+  const call = unwrapExpression(ts, arg);
+  if (!ts.isCallExpression(call) || call.arguments.length === 0) return [];
+
+  const calleeName = getCalleeName(ts, call.expression);
+  const toSegment = (expr: import('typescript').Node | undefined): ValidatorSegment | undefined => {
+    if (!expr) return undefined;
+    const name = ts.isStringLiteral(expr) || ts.isIdentifier(expr)
+      ? expr.text
+      : normalizeWhitespace(expr.getText(sourceFile)).split('.').pop() || '';
+    return VALIDATOR_SEGMENTS[name.toLowerCase()];
+  };
+  const schemaRef = normalizeWhitespace(call.arguments[0].getText(sourceFile));
+
+  if (calleeName && ZOD_BODY_VALIDATORS.includes(calleeName)) {
+    return [{ segment: 'body', schemaRef, library: 'zod' }];
+  }
+
+  // zod-express-middleware: validateRequestBody(schema), validateRequestQuery(schema), ...
+  const zodSegment = calleeName?.match(/^validateRequest(Body|Query|Params)$/);
+  if (zodSegment) {
+    return [{ segment: VALIDATOR_SEGMENTS[zodSegment[1].toLowerCase()], schemaRef, library: 'zod' }];
+  }
+
+  if (calleeName && DTO_VALIDATORS.includes(calleeName)) {
+    const segmentArg = call.arguments[1] && unwrapExpression(ts, call.arguments[1]);
+    return [{ segment: toSegment(segmentArg) || 'body', schemaRef, library: 'class-validator' }];
+  }
+
+  if (calleeName && GENERIC_VALIDATORS.includes(calleeName)) {
+    const segmentArg = call.arguments[1] && unwrapExpression(ts, call.arguments[1]);
+    return [{ segment: toSegment(segmentArg) || 'body', schemaRef }];
+  }
+
+  const suffixSegment = calleeName?.match(/^validate(Body|Query|Params?|Headers?)$/);
+  if (suffixSegment) {
+    return [{ segment: VALIDATOR_SEGMENTS[suffixSegment[1].toLowerCase()], schemaRef }];
+  }
+
+  const segments = unwrapExpression(ts, call.arguments[0]);
+  const segmentLibrary = calleeName && SEGMENT_OBJECT_VALIDATORS[calleeName];
+  if (segmentLibrary && ts.isObjectLiteralExpression(segments)) {
+    return segments.properties.flatMap(property => {
+      if (!ts.isPropertyAssignment(property)) return [];
+      const segment = toSegment(ts.isComputedPropertyName(property.name) ? property.name.expression : property.name);
+      return segment
+        ? [{ segment, schemaRef: normalizeWhitespace(property.initializer.getText(sourceFile)), library: segmentLibrary }]
+        : [];
+    });
+  }
+  if (segmentLibrary === 'zod') {
+    // validateRequest(schema) - a body schema on its own
+    return [{ segment: 'body', schemaRef, library: 'zod' }];
+  }
+
+  return [];
+}
+
+/**
+ * Find the expression that names the handler:
+ * - controller.method / controller.method.bind(controller)
+ * - a bare function identifier
+ * - the handler passed to a wrapper, e.g. asyncHandler(controller.method) or
+ *   catchAsync(async (req, res) => ...); for other calls the last argument
+ * - an inline function expression, returned as-is
+ */
+function findHandlerReference(
+  ts: TypeScriptModule,
+  expr: import('typescript').Expression | undefined,
+  isHandlerWrapper: (call: import('typescript').CallExpression) => boolean = () => false
+):
+  | import('typescript').PropertyAccessExpression
+  | import('typescript').Identifier
+  | import('typescript').ArrowFunction
+  | import('typescript').FunctionExpression
+  | undefined {
+  if (!expr) return undefined;
+
+  if (ts.isParenthesizedExpression(expr) || ts.isAsExpression(expr)) {
+    return findHandlerReference(ts, expr.expression, isHandlerWrapper);
+  }
+  if (ts.isArrowFunction(expr) || ts.isFunctionExpression(expr)) {
+    return expr;
+  }
+  if (ts.isPropertyAccessExpression(expr) || ts.isIdentifier(expr)) {
+    return expr;
+  }
+  if (ts.isCallExpression(expr)) {
+    if (isHandlerWrapper(expr)) {
+      return findHandlerReference(ts, expr.arguments[0], isHandlerWrapper);
+    }
+    // controller.method.bind(controller)
+    if (ts.isPropertyAccessExpression(expr.expression) && expr.expression.name.text === 'bind') {
+      return findHandlerReference(ts, expr.expression.expression, isHandlerWrapper);
+    }
+    // Any other call (makeHandler(service)) builds the handler at runtime - its arguments aren't the handler
+    return undefined;
+  }
+
+  return undefined;
+}
+
+/**
+ * Create a predicate telling whether a call wraps a route handler: its callee is
+ * one of the configured wrapper names, or resolves to a function that just returns
+ * a new handler, e.g. `const catchAsync = fn => (req, res, next) => fn(req, res, next).catch(next)`
+ */
+export function createWrapperMatcher(
+  ts: TypeScriptModule,
+  sourceFile: import('typescript').SourceFile,
+  wrapperNames: string[]
+): (call: import('typescript').CallExpression) => boolean {
+  const detected = new Map<string, boolean>();
+
+  const returnsFunction = (fn: import('typescript').SignatureDeclaration | undefined): boolean => {
+    if (!fn || !(ts.isFunctionDeclaration(fn) || ts.isArrowFunction(fn) || ts.isFunctionExpression(fn)) || !fn.body) {
+      return false;
+    }
+    if (fn.parameters.length === 0) return false;
+
+    const isFunction = (expr: import('typescript').Expression | undefined) => {
+      const unwrapped = expr && unwrapExpression(ts, expr);
+      return !!unwrapped && (ts.isArrowFunction(unwrapped) || ts.isFunctionExpression(unwrapped));
+    };
+    if (!ts.isBlock(fn.body)) {
+      return isFunction(fn.body);
+    }
+    return fn.body.statements.some(statement => ts.isReturnStatement(statement) && isFunction(statement.expression));
+  };
+
+  const isWrapperFunction = (name: string): boolean => {
+    if (!detected.has(name)) {
+      let isWrapper = false;
+      try {
+        const resolved = resolveIdentifier(ts, sourceFile, name);
+        const declaration = resolved && resolved.localName !== '*' && resolved.localName !== 'default'
+          ? findLocalDeclaration(ts, resolved.sourceFile, resolved.localName)
+          : undefined;
+        if (declaration && ts.isFunctionDeclaration(declaration)) {
+          isWrapper = returnsFunction(declaration);
+        } else if (declaration && ts.isVariableDeclaration(declaration) && declaration.initializer) {
+          const initializer = unwrapExpression(ts, declaration.initializer);
+          isWrapper = (ts.isArrowFunction(initializer) || ts.isFunctionExpression(initializer)) && returnsFunction(initializer);
+        }
+      } catch (error) {
+        // Unresolvable callee - not a wrapper
+      }
+      detected.set(name, isWrapper);
+    }
+    return detected.get(name)!;
+  };
+
+  return (call) => {
+    const name = getCalleeName(ts, call.expression);
+    if (!name || call.arguments.length === 0) return false;
+    if (wrapperNames.includes(name)) return true;
+    return ts.isIdentifier(call.expression) && isWrapperFunction(name);
+  };
+}
+
+/**
+ * Resolve the path argument of a route call to Express-style path strings.
+ * Arrays of paths yield one entry per path, and regular expression literals
+ * are translated into equivalent paths where possible.
+ */
+function resolveRoutePaths(
+  ts: TypeScriptModule,
+  expr: import('typescript').Expression,
+  constants: Map<string, string>
+): RoutePath[] {
+  if (ts.isArrayLiteralExpression(expr)) {
+    return expr.elements.flatMap(element => resolveRoutePaths(ts, element, constants));
+  }
+
+  if (ts.isRegularExpressionLiteral(expr)) {
+    const source = expr.text.substring(1, expr.text.lastIndexOf('/'));
+    const paths = regexToExpressPaths(source);
+    if (paths.length === 0) {
+      console.log(`  ⚠️  Cannot convert regular expression route ${expr.text} to an OpenAPI path - skipping`);
+    }
+    return paths.map(routePath => ({ path: routePath, expressVersion: 4 }));
+  }
+
+  const routePath = resolvePathArgument(ts, expr, constants);
+  return routePath !== undefined ? [{ path: routePath }] : [];
+}
+
+/**
+ * Resolve the path argument of a route call to a string.
+ * Supports string literals, template literals (substitutions are resolved from
+ * string constants, otherwise treated as path parameters) and constant references.
+ */
+export function resolvePathArgument(
+  ts: TypeScriptModule,
+  expr: import('typescript').Expression,
+  constants: Map<string, string>
+): string | undefined {
+  if (ts.isStringLiteral(expr) || ts.isNoSubstitutionTemplateLiteral(expr)) {
+    return expr.text;
+  }
+
+  if (ts.isTemplateExpression(expr)) {
+    let result = expr.head.text;
+    for (const span of expr.templateSpans) {
+      const resolved = resolveConstant(ts, span.expression, constants);
+      if (resolved !== undefined) {
+        result += resolved;
+      } else {
+        // Unknown substitution - document it as a path parameter
+        const name = span.expression.getText().replace(/^.*\./, '').replace(/[^A-Za-z0-9_]/g, '');
+        result += `:${name || 'param'}`;
+      }
+      result += span.literal.text;
+    }
+    return result;
+  }
+
+  return resolveConstant(ts, expr, constants);
+}
+
+function resolveConstant(
+  ts: TypeScriptModule,
+  expr: import('typescript').Expression,
+  constants: Map<string, string>
+): string | undefined {
+  if (ts.isStringLiteral(expr) || ts.isNoSubstitutionTemplateLiteral(expr)) {
+    return expr.text;
+  }
+  if (ts.isIdentifier(expr) || ts.isPropertyAccessExpression(expr)) {
+    return constants.get(expr.getText().replace(/\s+/g, ''));
+  }
+  return undefined;
+}
+
+/**
+ * Collect `const NAME = '...'` and `const PATHS = { key: '...' }` declarations
+ * so route paths built from constants can be resolved.
+ */
+export function collectStringConstants(
+  ts: TypeScriptModule,
+  sourceFile: import('typescript').SourceFile
+): Map<string, string> {
+  const constants = new Map<string, string>();
+
+  const visit = (node: import('typescript').Node) => {
+    if (ts.isVariableDeclaration(node) && ts.isIdentifier(node.name) && node.initializer) {
+      const name = node.name.text;
+      const init = node.initializer;
+      if (ts.isStringLiteral(init) || ts.isNoSubstitutionTemplateLiteral(init)) {
+        constants.set(name, init.text);
+      } else if (ts.isObjectLiteralExpression(init)) {
+        init.properties.forEach(prop => {
+          if (
+            ts.isPropertyAssignment(prop) &&
+            (ts.isIdentifier(prop.name) || ts.isStringLiteral(prop.name)) &&
+            (ts.isStringLiteral(prop.initializer) || ts.isNoSubstitutionTemplateLiteral(prop.initializer))
+          ) {
+            constants.set(`${name}.${prop.name.text}`, prop.initializer.text);
+          }
+        });
+      }
+    }
+    ts.forEachChild(node, visit);
+  };
+
+  visit(sourceFile);
+  return constants;
+}
+
+function getCalleeName(ts: TypeScriptModule, expr: import('typescript').Expression): string | undefined {
+  if (ts.isIdentifier(expr)) return expr.text;
+  if (ts.isPropertyAccessExpression(expr)) return expr.name.text;
+  return undefined;
+}
+
+export function normalizeWhitespace(text: string): string {
+  return text.trim().replace(/\s+/g, ' ');
+}
+
+export function generateOperationId(method: string, routePath: string): string {
+  // Convert route path to a meaningful operation ID
+  // Remove leading slash and replace slashes and special chars with camelCase
+  const cleanPath = routePath
+    .replace(/^\//, '') // Remove leading slash
+    .replace(/[{}]/g, '') // Remove path parameters like {id}
+    .replace(/[^a-zA-Z0-9/]/g, '') // Remove special characters except slashes
+    .split('/') // Split by slashes
+    .filter(Boolean) // Remove empty parts
+    .map((part, index) =>
+      index === 0 ? part.toLowerCase() : part.charAt(0).toUpperCase() + part.slice(1).toLowerCase()
+    )
+    .join('');
+
+  // Combine method with path
+  const operationId = method.toLowerCase() + cleanPath.charAt(0).toUpperCase() + cleanPath.slice(1);
+
+  return operationId;
+}
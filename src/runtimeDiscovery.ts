@@ -0,0 +1,208 @@
+import { HttpMethod, PathParameterInfo } from './types';
+import { convertExpressPath, ExpressVersion } from './pathConverter';
+import { DEFAULT_ALL_METHODS, hasPathPrefix, joinRoutePaths } from './routeExtractor';
+
+export interface RuntimeRoute {
+  method: HttpMethod;
+  path: string; // OpenAPI path, e.g. /api/v1/users/{id}
+  pathParameters: PathParameterInfo[];
+  handlerName?: string; // Name of the final handler function, when it has one
+  middleware: string[]; // Function names of the middleware the route runs behind: app.use()/router.use() ones first, then its own
+}
+
+const HTTP_METHODS: HttpMethod[] = ['GET', 'POST', 'PUT', 'PATCH', 'DELETE', 'HEAD', 'OPTIONS'];
+
+// Middleware Express 4 adds to every app
+const EXPRESS_INTERNAL_MIDDLEWARE = ['query', 'expressInit'];
+
+/**
+ * Discover the routes registered on a live Express app (or Router) by walking
+ * its router stack. Unlike static parsing this also sees routes registered in
+ * loops or by factories.
+ *
+ * Express 4 keeps the stack on `app._router`, Express 5 on `app.router`; the
+ * version, and with it the path syntax, is read from the stack's layers.
+ * knownPaths (OpenAPI paths found by static parsing) are used to recover the
+ * mount paths of nested Express 5 routers, whose layers don't keep their path.
+ */
+export function discoverRuntimeRoutes(
+  app: any,
+  allMethods: HttpMethod[] = DEFAULT_ALL_METHODS,
+  knownPaths: string[] = []
+): RuntimeRoute[] {
+  const rootStack = app?._router?.stack || app?.router?.stack || app?.stack;
+  if (!Array.isArray(rootStack)) {
+    console.log('⚠️  No router stack found on the given app - has any route been registered yet?');
+    return [];
+  }
+
+  const expressVersion = detectExpressVersion(app, rootStack);
+  const routes: RuntimeRoute[] = [];
+
+  // /users/{id} -> /users/__id__ so params matched by a layer can be mapped back to names
+  const probePaths = knownPaths.map(knownPath => knownPath.replace(/\{([^}]+)\}/g, '__$1__'));
+
+  const walk = (stack: any[], prefix: string, probes: string[], inheritedMiddleware: string[]) => {
+    // app.use(fn) / router.use('/admin', fn) layers seen so far in this stack
+    const useMiddleware: Array<{ mountPath: string; name: string }> = [];
+    const middlewareFor = (routePath: string) => [
+      ...inheritedMiddleware,
+      ...useMiddleware.filter(use => hasPathPrefix(routePath, use.mountPath)).map(use => use.name),
+    ];
+
+    for (const layer of stack) {
+      if (layer.route) {
+        const route = layer.route;
+        const routePaths: string[] = Array.isArray(route.path) ? route.path : [route.path];
+        const methods = Object.keys(route.methods || {})
+          .filter(m => route.methods[m])
+          .flatMap(m => (m === '_all' ? allMethods : [m.toUpperCase() as HttpMethod]))
+          .filter(m => HTTP_METHODS.includes(m));
+        const routeStack: any[] = route.stack || [];
+
+        for (const routePath of routePaths) {
+          if (typeof routePath !== 'string') {
+            console.log(`  ⚠️  Skipping runtime route with non-string path: ${String(routePath)}`);
+            continue;
+          }
+          for (const converted of convertExpressPath(joinRoutePaths(prefix, routePath), expressVersion)) {
+            for (const method of new Set(methods)) {
+              const { handlerName, middleware } = getMethodHandlers(routeStack, method);
+              routes.push({
+                method,
+                path: converted.path,
+                pathParameters: converted.parameters,
+                handlerName,
+                middleware: [...middlewareFor(routePath), ...middleware],
+              });
+            }
+          }
+        }
+      } else if (Array.isArray(layer.handle?.stack)) {
+        const mountPath = getLayerMountPath(layer, probes);
+        if (mountPath === undefined) {
+          console.log(`  ⚠️  Cannot determine mount path of nested router '${layer.name}' - skipping its routes`);
+          continue;
+        }
+        const childProbes = probes
+          .map(probe => {
+            const matched = matchLayerPrefix(layer, probe);
+            return matched === undefined ? undefined : probe.substring(matched.length);
+          })
+          .filter((probe): probe is string => probe !== undefined);
+        walk(layer.handle.stack, joinRoutePaths(prefix, mountPath), childProbes, middlewareFor(mountPath));
+      } else if (typeof layer.handle === 'function' && layer.handle.length < 4 && !EXPRESS_INTERNAL_MIDDLEWARE.includes(layer.name)) {
+        // Error handlers (4 arguments) don't run for requests that succeed. Path-scoped
+        // Express 5 middleware whose path no known path matches is left out.
+        const mountPath = getLayerMountPath(layer, probes);
+        if (mountPath !== undefined) {
+          useMiddleware.push({ mountPath, name: layer.handle.name || layer.name || 'anonymous' });
+        }
+      }
+    }
+  };
+
+  walk(rootStack, '', probePaths, []);
+  return routes;
+}
+
+/**
+ * Express major version of a router stack, from the shape of its layers:
+ * Express 4 compiles each path to `regexp`/`keys`, Express 5 keeps `matchers`.
+ * A bare Express 4 Router has no `_router`, so the app property alone can't tell.
+ */
+function detectExpressVersion(app: any, stack: any[]): ExpressVersion {
+  for (const layer of stack) {
+    if (Array.isArray(layer.matchers)) return 5;
+    if (layer.regexp instanceof RegExp) return 4;
+  }
+  return app?._router ? 4 : 5;
+}
+
+/**
+ * Handler and middleware names for one method of a route. A route's stack
+ * holds the layers of all its methods (`.post(a).delete(b)`, or one layer per
+ * method for `app.all()`), so only layers registered for this method - or for
+ * every method via `route.all()` - are taken into account
+ */
+function getMethodHandlers(routeStack: any[], method: HttpMethod): { handlerName?: string; middleware: string[] } {
+  const methodStack = routeStack.filter(
+    routeLayer => !routeLayer.method || routeLayer.method === '_all' || routeLayer.method.toUpperCase() === method
+  );
+  const lastHandler = methodStack[methodStack.length - 1]?.handle;
+  const handlerName = lastHandler?.name && lastHandler.name !== 'anonymous' ? lastHandler.name : undefined;
+  const middleware = methodStack.slice(0, -1).map(routeLayer => routeLayer.handle?.name || routeLayer.name || 'anonymous');
+  return { handlerName, middleware };
+}
+
+/**
+ * Recover the mount path of a router layer.
+ * Express 4 compiles `app.use('/users/:id', router)` into
+ * /^\/users(?:\/([^/]+?))\/?(?=\/|$)/i (older releases: \/(?:([^\/]+?))) with
+ * `keys` holding the param names.
+ * Express 5 layers only keep matcher functions, so the mount path is found by
+ * matching the concrete probe paths against them.
+ */
+function getLayerMountPath(layer: any, probes: string[]): string | undefined {
+  if (layer.slash) {
+    return '';
+  }
+
+  const regexp: RegExp | undefined = layer.regexp;
+  if (regexp) {
+    if ((regexp as any).fast_slash || regexp.source === '^\\/?(?=\\/|$)') {
+      return '';
+    }
+
+    const keys: Array<{ name: string | number }> = layer.keys || [];
+    let keyIndex = 0;
+
+    const source = regexp.source
+      .replace(/^\^/, '')
+      .replace(/\\\/\?\(\?=\\\/\|\$\)$/, '')
+      .replace(/\(\?:(\\\/)?\(\[\^\\?\/\]\+\?\)\)/g, (_, slash) => `${slash ? '/' : ''}:${keys[keyIndex++]?.name ?? keyIndex - 1}`);
+
+    // Anything still looking like regex syntax cannot be turned back into a path
+    if (!/[()[\]{}*+?^$|]/.test(source.replace(/\\./g, ''))) {
+      return source.replace(/\\(.)/g, '$1');
+    }
+  }
+
+  for (const probe of probes) {
+    const match = Array.isArray(layer.matchers)
+      ? layer.matchers.map((matcher: (path: string) => any) => matcher(probe)).find(Boolean)
+      : undefined;
+    if (!match) continue;
+
+    let mountPath: string = match.path;
+    for (const [name, value] of Object.entries<any>(match.params || {})) {
+      mountPath = mountPath.replace(String(value), `:${name}`);
+    }
+    return mountPath.replace(/\/$/, '');
+  }
+
+  return undefined;
+}
+
+/**
+ * The part of a concrete path a router layer consumes, or undefined when the
+ * layer doesn't match it
+ */
+function matchLayerPrefix(layer: any, concretePath: string): string | undefined {
+  if (layer.slash || layer.regexp?.fast_slash) {
+    return '';
+  }
+  if (Array.isArray(layer.matchers)) {
+    const match = layer.matchers.map((matcher: (path: string) => any) => matcher(concretePath)).find(Boolean);
+    return match ? match.path.replace(/\/$/, '') : undefined;
+  }
+  const match = layer.regexp?.exec(concretePath);
+  return match ? match[0].replace(/\/$/, '') : undefined;
+}
+
+/**
+ * Key used to match runtime and static routes, ignoring parameter names
+ */
+export function getRouteMatchKey(method: string, openApiPath: string): string {
+  return `${method.toUpperCase()} ${openApiPath.replace(/\{[^}]+\}/g, '{}')}`;
+}
@@ -0,0 +1,161 @@
+import { AuthorizationKind, SecurityRequirement, SwaggerifyOptions } from './types';
+
+// Scheme used when no securitySchemes are configured
+export const DEFAULT_SECURITY_SCHEMES: Record<string, any> = {
+  bearerAuth: {
+    type: 'http',
+    scheme: 'bearer',
+    bearerFormat: 'JWT',
+    description: 'Enter JWT token',
+  },
+};
+
+// Authorization middleware recognised out of the box
+export const DEFAULT_AUTHORIZATION_MIDDLEWARE: Record<string, AuthorizationKind> = {
+  requireScope: 'scopes',
+  requireScopes: 'scopes',
+  requireRole: 'roles',
+  requireRoles: 'roles',
+  hasRole: 'roles',
+  authorize: 'roles',
+};
+
+export interface RouteAuthorization {
+  scopes: string[];
+  roles: string[];
+}
+
+/**
+ * Security schemes for components.securitySchemes
+ */
+export function getSecuritySchemes(options: SwaggerifyOptions): Record<string, any> {
+  return options.securitySchemes || DEFAULT_SECURITY_SCHEMES;
+}
+
+/**
+ * Requirement of the first configured scheme, for operations that don't declare
+ * their own - none when no schemes are configured (`securitySchemes: {}`)
+ */
+export function getDefaultSecurity(options: SwaggerifyOptions): SecurityRequirement[] {
+  const schemeName = Object.keys(getSecuritySchemes(options))[0];
+  return schemeName ? [{ [schemeName]: [] }] : [];
+}
+
+/**
+ * Work out the security requirements of a route from its middleware.
+ *
+ * With `securityMiddleware` configured, each middleware matching a key adds its
+ * scheme(s): schemes of one middleware are alternatives, separate middleware are
+ * all required. An empty array means the route is public.
+ *
+ * Without it, the legacy detection applies: any middleware mentioning
+ * authenticate/requireAdmin requires the first configured scheme.
+ *
+ * Scopes from authorization middleware are added to OAuth2/OpenID Connect schemes.
+ */
+export function resolveRouteSecurity(middleware: string[], options: SwaggerifyOptions): SecurityRequirement[] {
+  const { scopes, roles } = resolveRouteAuthorization(middleware, options);
+  const requirements = resolveAuthenticationRequirements(middleware, options);
+  const schemes = getSecuritySchemes(options);
+  const acceptsScopes = (schemeName: string) => ['oauth2', 'openIdConnect'].includes(schemes[schemeName]?.type);
+
+  // requireScope()/requireRole() without a separate authentication middleware still implies one
+  if (requirements.length === 0 && (scopes.length > 0 || roles.length > 0)) {
+    const schemeNames = Object.keys(schemes);
+    const schemeName = (scopes.length > 0 && schemeNames.find(acceptsScopes)) || schemeNames[0];
+    if (schemeName) {
+      requirements.push({ [schemeName]: [] });
+    }
+  }
+
+  // OAuth2 scopes only apply to scopeable schemes; other schemes keep an empty list
+  if (scopes.length > 0) {
+    for (const requirement of requirements) {
+      for (const schemeName of Object.keys(requirement)) {
+        if (acceptsScopes(schemeName)) {
+          requirement[schemeName] = [...new Set([...requirement[schemeName], ...scopes])];
+        }
+      }
+    }
+  }
+
+  return requirements;
+}
+
+/**
+ * Scopes and roles passed to authorization middleware, e.g.
+ * `requireScope('orders:write')`, `requireRole('admin', 'support')`, `authorize(['billing'])`.
+ * Only string literal arguments are picked up.
+ */
+export function resolveRouteAuthorization(middleware: string[], options: SwaggerifyOptions): RouteAuthorization {
+  const mapping = { ...DEFAULT_AUTHORIZATION_MIDDLEWARE, ...options.authorizationMiddleware };
+  const authorization: RouteAuthorization = { scopes: [], roles: [] };
+
+  for (const text of middleware) {
+    const key = Object.keys(mapping).find(candidate => middlewareMatches(text, candidate));
+    const argsStart = text.indexOf('(');
+    if (!key || argsStart === -1) continue;
+
+    const values = [...text.substring(argsStart).matchAll(/(['"`])([^'"`]+)\1/g)].map(match => match[2]);
+    const target = authorization[mapping[key]];
+    values.forEach(value => {
+      if (!target.includes(value)) target.push(value);
+    });
+  }
+
+  return authorization;
+}
+
+/**
+ * Requirements from authentication middleware alone (securityMiddleware mapping,
+ * or the legacy authenticate/requireAdmin detection)
+ */
+function resolveAuthenticationRequirements(middleware: string[], options: SwaggerifyOptions): SecurityRequirement[] {
+  const mapping = options.securityMiddleware;
+
+  if (!mapping) {
+    const hasAuth = middleware.some(m => m.includes('authenticate') || m.includes('requireAdmin'));
+    return hasAuth ? getDefaultSecurity(options) : [];
+  }
+
+  let requirements: SecurityRequirement[] = [];
+
+  for (const text of middleware) {
+    const key = Object.keys(mapping).find(candidate => middlewareMatches(text, candidate));
+    if (!key) continue;
+
+    const schemes = ([] as string[]).concat(mapping[key]);
+    const alternatives: SecurityRequirement[] = schemes.map(scheme => ({ [scheme]: [] }));
+
+    // Every requirement so far combined with each alternative of this middleware
+    requirements = requirements.length === 0
+      ? alternatives
+      : requirements.flatMap(requirement => alternatives.map(alternative => ({ ...requirement, ...alternative })));
+  }
+
+  return requirements;
+}
+
+/**
+ * Match a middleware expression (as written in the route) against a mapping key.
+ *
+ * - `requireApiKey` matches `requireApiKey`, `requireApiKey()` and `auth.requireApiKey`
+ * - `passport.authenticate('jwt')` matches calls whose arguments start the same way,
+ *   e.g. `passport.authenticate("jwt", { session: false })`
+ */
+export function middlewareMatches(middleware: string, key: string): boolean {
+  const normalize = (text: string) => text.replace(/\s+/g, '').replace(/"/g, "'").replace(/`/g, "'");
+  const text = normalize(middleware);
+  const pattern = normalize(key);
+
+  const [textName, ...textArgParts] = text.split('(');
+  const [patternName, ...patternArgParts] = pattern.split('(');
+
+  const nameMatches = textName === patternName || textName.endsWith(`.${patternName}`);
+  if (!nameMatches) return false;
+  if (patternArgParts.length === 0) return true;
+
+  const patternArgs = patternArgParts.join('(').replace(/\)$/, '');
+  const textArgs = textArgParts.join('(');
+  return textArgs.startsWith(patternArgs);
+}
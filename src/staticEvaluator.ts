@@ -0,0 +1,222 @@
+import { getDeclaredValue, resolveExport, resolveIdentifier } from './moduleResolver';
+
+type TypeScriptModule = typeof import('typescript');
+
+// Nested expressions followed before giving up (also guards against circular references)
+export const MAX_DEPTH = 25;
+
+// An expression together with the file it appears in, so its identifiers resolve correctly
+export interface ScopedExpression {
+  expr: import('typescript').Expression;
+  sourceFile: import('typescript').SourceFile;
+}
+
+/**
+ * The expression exported by a module at a property path: the export name
+ * followed by any members, e.g. ['authSchemas', 'register']
+ */
+export function resolveExportedExpression(
+  ts: TypeScriptModule,
+  filePath: string,
+  propertyPath: string[]
+): ScopedExpression | undefined {
+  const [exportName, ...members] = propertyPath;
+  if (!exportName) return undefined;
+
+  const resolved = resolveExport(ts, filePath, exportName);
+  if (!resolved) return undefined;
+
+  if (resolved.localName === '*') {
+    // Namespace re-export: the next member is an export of that module
+    return members.length > 0 ? resolveExportedExpression(ts, resolved.filePath, members) : undefined;
+  }
+
+  const value = getDeclaredValue(ts, resolved);
+  let current: ScopedExpression | undefined = value && { expr: value, sourceFile: resolved.sourceFile };
+
+  for (const member of members) {
+    current = current && getMember(ts, current, member, 0);
+  }
+
+  return current;
+}
+
+/**
+ * Follow an identifier or property access (authSchemas.register) to the expression it refers to
+ */
+export function resolveReference(ts: TypeScriptModule, scoped: ScopedExpression, depth: number): ScopedExpression | undefined {
+  if (depth > MAX_DEPTH) return undefined;
+  const expr = unwrap(ts, scoped.expr);
+
+  if (ts.isIdentifier(expr)) {
+    const resolved = resolveIdentifier(ts, scoped.sourceFile, expr.text);
+    if (!resolved || resolved.localName === '*') return undefined;
+    const value = getDeclaredValue(ts, resolved);
+    return value && { expr: value, sourceFile: resolved.sourceFile };
+  }
+
+  if (ts.isPropertyAccessExpression(expr)) {
+    // import * as schemas from './schemas' - schemas.login is an export of that module
+    if (ts.isIdentifier(expr.expression)) {
+      const namespace = resolveIdentifier(ts, scoped.sourceFile, expr.expression.text);
+      if (namespace?.localName === '*') {
+        const member = resolveExport(ts, namespace.filePath, expr.name.text);
+        const value = member && member.localName !== '*' ? getDeclaredValue(ts, member) : undefined;
+        return value && member && { expr: value, sourceFile: member.sourceFile };
+      }
+    }
+
+    return getMember(ts, { expr: expr.expression, sourceFile: scoped.sourceFile }, expr.name.text, depth);
+  }
+
+  return undefined;
+}
+
+/**
+ * The value of a member of an object literal expression, following references to it
+ */
+export function getMember(ts: TypeScriptModule, scoped: ScopedExpression, name: string, depth: number): ScopedExpression | undefined {
+  const literal = resolveObjectLiteral(ts, scoped, depth);
+  if (!literal) return undefined;
+
+  for (const property of [...literal.expr.properties].reverse()) {
+    if (ts.isSpreadAssignment(property)) {
+      const spread = getMember(ts, { expr: property.expression, sourceFile: literal.sourceFile }, name, depth + 1);
+      if (spread) return spread;
+      continue;
+    }
+    if (getPropertyName(ts, property) !== name) continue;
+    if (ts.isPropertyAssignment(property)) return { expr: property.initializer, sourceFile: literal.sourceFile };
+    if (ts.isShorthandPropertyAssignment(property)) return { expr: property.name, sourceFile: literal.sourceFile };
+  }
+
+  return undefined;
+}
+
+export function resolveObjectLiteral(
+  ts: TypeScriptModule,
+  scoped: ScopedExpression,
+  depth: number
+): { expr: import('typescript').ObjectLiteralExpression; sourceFile: import('typescript').SourceFile } | undefined {
+  const expr = unwrap(ts, scoped.expr);
+  if (ts.isObjectLiteralExpression(expr)) {
+    return { expr, sourceFile: scoped.sourceFile };
+  }
+  const target = depth < MAX_DEPTH ? resolveReference(ts, scoped, depth + 1) : undefined;
+  return target && resolveObjectLiteral(ts, target, depth + 1);
+}
+
+/**
+ * Evaluate a literal argument: strings, numbers, booleans, null, arrays and
+ * objects of those, and constants declared with such a value
+ */
+export function evaluateLiteral(
+  ts: TypeScriptModule,
+  node: import('typescript').Expression,
+  sourceFile: import('typescript').SourceFile,
+  depth: number
+): any {
+  const expr = unwrap(ts, node);
+
+  if (ts.isStringLiteral(expr) || ts.isNoSubstitutionTemplateLiteral(expr)) return expr.text;
+  if (ts.isNumericLiteral(expr)) return Number(expr.text);
+  if (expr.kind === ts.SyntaxKind.TrueKeyword) return true;
+  if (expr.kind === ts.SyntaxKind.FalseKeyword) return false;
+  if (expr.kind === ts.SyntaxKind.NullKeyword) return null;
+  if (ts.isPrefixUnaryExpression(expr) && expr.operator === ts.SyntaxKind.MinusToken && ts.isNumericLiteral(expr.operand)) {
+    return -Number(expr.operand.text);
+  }
+  if (ts.isArrayLiteralExpression(expr)) {
+    return evaluateLiteralList(ts, expr.elements, sourceFile, depth);
+  }
+  if (ts.isObjectLiteralExpression(expr)) {
+    const result: Record<string, any> = {};
+    expr.properties.forEach(property => {
+      const name = getPropertyName(ts, property);
+      if (name && ts.isPropertyAssignment(property)) {
+        result[name] = evaluateLiteral(ts, property.initializer, sourceFile, depth);
+      }
+    });
+    return result;
+  }
+  if ((ts.isIdentifier(expr) || ts.isPropertyAccessExpression(expr)) && depth < MAX_DEPTH) {
+    const target = resolveReference(ts, { expr, sourceFile }, depth + 1);
+    return target ? evaluateLiteral(ts, target.expr, target.sourceFile, depth + 1) : undefined;
+  }
+
+  return undefined;
+}
+
+// Literal values of an argument list, expanding spreads of constant arrays (valid(...ROLES))
+export function evaluateLiteralList(
+  ts: TypeScriptModule,
+  nodes: readonly import('typescript').Expression[],
+  sourceFile: import('typescript').SourceFile,
+  depth: number
+): any[] {
+  return nodes.flatMap(node => {
+    if (ts.isSpreadElement(node)) {
+      const spread = evaluateLiteral(ts, node.expression, sourceFile, depth);
+      return Array.isArray(spread) ? spread : [];
+    }
+    const value = evaluateLiteral(ts, node, sourceFile, depth);
+    if (Array.isArray(value)) return value; // valid(['a', 'b'])
+    return value === undefined ? [] : [value];
+  });
+}
+
+/**
+ * Values of an enum argument - z.enum(['a', 'b']), z.nativeEnum(Roles), Type.Enum(Roles) -
+ * given as a list, a TypeScript enum or an `as const` object
+ */
+export function evaluateEnumValues(
+  ts: TypeScriptModule,
+  arg: import('typescript').Expression | undefined,
+  sourceFile: import('typescript').SourceFile,
+  depth: number
+): any[] {
+  if (!arg) return [];
+
+  const value = evaluateLiteral(ts, arg, sourceFile, depth);
+  if (Array.isArray(value)) return value;
+  if (value && typeof value === 'object') return Object.values(value);
+
+  const expr = unwrap(ts, arg);
+  const resolved = ts.isIdentifier(expr) ? resolveIdentifier(ts, sourceFile, expr.text) : undefined;
+  const declaration = resolved && resolved.sourceFile.statements.find(
+    (statement): statement is import('typescript').EnumDeclaration =>
+      ts.isEnumDeclaration(statement) && statement.name.text === resolved.localName
+  );
+  if (!declaration) return [];
+
+  // Members without an initializer count up from the previous numeric member
+  let next = 0;
+  return declaration.members.map(member => {
+    const initializer = member.initializer && evaluateLiteral(ts, member.initializer, resolved!.sourceFile, depth);
+    const memberValue = initializer !== undefined ? initializer : next;
+    if (typeof memberValue === 'number') next = memberValue + 1;
+    return memberValue;
+  });
+}
+
+export function getPropertyName(ts: TypeScriptModule, property: import('typescript').ObjectLiteralElementLike): string | undefined {
+  const name = property.name;
+  if (!name) return undefined;
+  if (ts.isIdentifier(name) || ts.isStringLiteral(name) || ts.isNumericLiteral(name)) return name.text;
+  if (ts.isComputedPropertyName(name) && ts.isStringLiteral(name.expression)) return name.expression.text;
+  return undefined;
+}
+
+export function unwrap(ts: TypeScriptModule, expr: import('typescript').Expression): import('typescript').Expression {
+  let current = expr;
+  while (
+    ts.isParenthesizedExpression(current) ||
+    ts.isAsExpression(current) ||
+    ts.isNonNullExpression(current) ||
+    ts.isTypeAssertionExpression(current) ||
+    ts.isSatisfiesExpression(current)
+  ) {
+    current = current.expression;
+  }
+  return current;
+}
@@ -0,0 +1,517 @@
+import { addJoiConditional, JoiConditional, JoiConditionalBranch } from './joiConditionals';
+import { findImportBinding, getDeclaredValue, resolveIdentifier } from './moduleResolver';
+import {
+  evaluateLiteral,
+  evaluateLiteralList,
+  getMember,
+  getPropertyName,
+  MAX_DEPTH,
+  resolveObjectLiteral,
+  resolveExportedExpression,
+  resolveReference,
+  ScopedExpression,
+  unwrap,
+} from './staticEvaluator';
+
+type TypeScriptModule = typeof import('typescript');
+
+// Module specifiers a Joi instance can be imported from
+const JOI_MODULES = ['joi', '@hapi/joi', 'celebrate'];
+
+// Base schemas created by Joi.<type>()
+const JOI_TYPES: Record<string, Record<string, any>> = {
+  any: {},
+  string: { type: 'string' },
+  number: { type: 'number' },
+  boolean: { type: 'boolean' },
+  bool: { type: 'boolean' },
+  date: { type: 'string', format: 'date-time' },
+  binary: { type: 'string', format: 'binary' },
+  // Joi objects reject keys they don't declare unless .unknown() is called
+  object: { type: 'object', additionalProperties: false },
+  array: { type: 'array' },
+  alternatives: {},
+  alt: {},
+};
+
+// Joi.<type>(...args) calls whose arguments mean the same as a rule
+const ROOT_RULES: Record<string, string> = {
+  array: 'items',
+  alternatives: 'try',
+  alt: 'try',
+};
+
+// String formats set by Joi.string().<rule>()
+const STRING_FORMATS: Record<string, string> = {
+  email: 'email',
+  uri: 'uri',
+  uuid: 'uuid',
+  guid: 'uuid',
+  isoDate: 'date-time',
+  hostname: 'hostname',
+  ip: 'ipv4',
+  base64: 'byte',
+};
+
+// Key a schema's component name (meta({ ref: 'User' })) is kept under until it is moved into components
+export const JOI_COMPONENT_KEY = 'x-joi-component';
+
+// meta() keys copied into the schema as they are
+const META_KEYWORDS = ['title', 'description', 'example', 'deprecated', 'readOnly', 'writeOnly', 'format'];
+
+interface StaticJoiSchema {
+  schema: Record<string, any>;
+  required?: boolean;
+  forbidden?: boolean;
+  description?: string; // description() and note() texts, combined into schema.description
+  notes?: string[];
+}
+
+/**
+ * Copy the meta() data of a Joi schema that has an OpenAPI meaning into its schema:
+ * `ref` (or joi-to-swagger's `className`) names its component, the others are keywords
+ */
+export function applyJoiMeta(schema: Record<string, any>, meta: Record<string, any>) {
+  Object.entries(meta).forEach(([key, value]) => {
+    if ((key === 'ref' || key === 'className') && typeof value === 'string') {
+      schema[JOI_COMPONENT_KEY] = value;
+    } else if ((META_KEYWORDS.includes(key) || key.startsWith('x-')) && value !== undefined) {
+      schema[key] = value;
+    }
+  });
+}
+
+/**
+ * Convert the Joi schema exported by a module to an OpenAPI schema by reading
+ * its source, without loading the module.
+ * propertyPath is the export name followed by any members, e.g. ['authSchemas', 'register'].
+ */
+export function extractStaticJoiSchema(
+  ts: TypeScriptModule,
+  filePath: string,
+  propertyPath: string[]
+): Record<string, any> | undefined {
+  const current = resolveExportedExpression(ts, filePath, propertyPath);
+  return current ? interpretJoiExpression(ts, current.expr, current.sourceFile) : undefined;
+}
+
+/**
+ * Interpret a Joi expression such as `Joi.object({ email: Joi.string().email().required() })`.
+ * Identifiers are resolved in sourceFile, which doesn't have to contain expr
+ * (e.g. an inline celebrate() schema parsed on its own).
+ */
+export function interpretJoiExpression(
+  ts: TypeScriptModule,
+  expr: import('typescript').Expression,
+  sourceFile: import('typescript').SourceFile
+): Record<string, any> | undefined {
+  return interpret(ts, { expr, sourceFile }, 0)?.schema;
+}
+
+function interpret(ts: TypeScriptModule, scoped: ScopedExpression, depth: number): StaticJoiSchema | undefined {
+  if (depth > MAX_DEPTH) return undefined;
+
+  const expr = unwrap(ts, scoped.expr);
+  const { sourceFile } = scoped;
+
+  if (ts.isCallExpression(expr) && ts.isPropertyAccessExpression(expr.expression)) {
+    const method = expr.expression.name.text;
+    const receiver = expr.expression.expression;
+
+    // Joi.string(), Joi.object({...}), Joi.valid('a', 'b')
+    if (isJoiReference(ts, receiver, sourceFile, depth)) {
+      const base: StaticJoiSchema = { schema: { ...(JOI_TYPES[method] || {}) } };
+      if (method === 'object') {
+        return expr.arguments[0] ? applyKeys(ts, base, { expr: expr.arguments[0], sourceFile }, depth) : base;
+      }
+      if (JOI_TYPES[method] && expr.arguments.length === 0) {
+        return base;
+      }
+      // Joi.array(items) / Joi.alternatives(a, b), and rules called on Joi itself like Joi.valid('a', 'b')
+      return applyMethod(ts, base, ROOT_RULES[method] || method, expr.arguments, sourceFile, depth);
+    }
+
+    // <schema>.required(), <schema>.min(8), ...
+    const base = interpret(ts, { expr: receiver, sourceFile }, depth + 1);
+    return base && applyMethod(ts, base, method, expr.arguments, sourceFile, depth);
+  }
+
+  // Joi compiles a plain object to Joi.object(): celebrate({ [Segments.QUERY]: { expand: Joi.boolean() } })
+  if (ts.isObjectLiteralExpression(expr)) {
+    return applyKeys(ts, { schema: { ...JOI_TYPES.object } }, { expr, sourceFile }, depth);
+  }
+
+  // A schema declared elsewhere: loginSchema, authSchemas.register
+  if (ts.isIdentifier(expr) || ts.isPropertyAccessExpression(expr)) {
+    const target = resolveReference(ts, { expr, sourceFile }, depth);
+    return target && interpret(ts, target, depth + 1);
+  }
+
+  return undefined;
+}
+
+/**
+ * Apply a chained Joi method to a schema. Unknown methods (trim(), unit(), ...)
+ * leave the schema unchanged.
+ */
+function applyMethod(
+  ts: TypeScriptModule,
+  base: StaticJoiSchema,
+  method: string,
+  args: readonly import('typescript').Expression[],
+  sourceFile: import('typescript').SourceFile,
+  depth: number
+): StaticJoiSchema {
+  const result: StaticJoiSchema = { ...base, schema: { ...base.schema } };
+  const schema = result.schema;
+  const literal = (index: number) => args[index] && evaluateLiteral(ts, args[index], sourceFile, depth);
+  const numberArg = typeof literal(0) === 'number' ? literal(0) as number : undefined;
+
+  switch (method) {
+    case 'required':
+    case 'exist':
+      result.required = true;
+      break;
+    case 'optional':
+      result.required = false;
+      break;
+    case 'forbidden':
+    case 'strip':
+      result.forbidden = true;
+      break;
+    case 'valid':
+    case 'only':
+    case 'equal': {
+      const values = evaluateLiteralList(ts, args, sourceFile, depth);
+      if (values.includes(null)) schema.nullable = true;
+      const nonNull = values.filter(value => value !== null);
+      if (nonNull.length > 0) schema.enum = nonNull;
+      break;
+    }
+    case 'allow': {
+      const values = evaluateLiteralList(ts, args, sourceFile, depth);
+      if (values.includes(null)) schema.nullable = true;
+      if (schema.enum) schema.enum = [...schema.enum, ...values.filter(value => value !== null)];
+      break;
+    }
+    case 'default': {
+      const value = literal(0);
+      if (value !== undefined) schema.default = value;
+      break;
+    }
+    case 'example': {
+      // OpenAPI 3.0 schemas have a single example - the first one given
+      const value = literal(0);
+      if (value !== undefined && schema.example === undefined) schema.example = value;
+      break;
+    }
+    case 'description':
+    case 'note':
+    case 'notes': {
+      const texts = evaluateLiteralList(ts, args, sourceFile, depth).filter((text): text is string => typeof text === 'string');
+      if (method === 'description') result.description = texts[0];
+      else result.notes = [...(result.notes || []), ...texts];
+
+      const description = [result.description, ...(result.notes || [])].filter(Boolean).join('\n\n');
+      if (description) schema.description = description;
+      break;
+    }
+    case 'label': {
+      const label = literal(0);
+      if (typeof label === 'string' && schema.title === undefined) schema.title = label;
+      break;
+    }
+    case 'meta': {
+      const meta = literal(0);
+      if (meta && typeof meta === 'object' && !Array.isArray(meta)) applyJoiMeta(schema, meta);
+      break;
+    }
+    case 'multiple':
+      if (numberArg !== undefined) schema.multipleOf = numberArg;
+      break;
+    case 'integer':
+      schema.type = 'integer';
+      break;
+    case 'positive':
+      schema.minimum = 0;
+      schema.exclusiveMinimum = true;
+      break;
+    case 'negative':
+      schema.maximum = 0;
+      schema.exclusiveMaximum = true;
+      break;
+    case 'greater':
+      if (numberArg !== undefined) Object.assign(schema, { minimum: numberArg, exclusiveMinimum: true });
+      break;
+    case 'less':
+      if (numberArg !== undefined) Object.assign(schema, { maximum: numberArg, exclusiveMaximum: true });
+      break;
+    case 'min':
+    case 'max':
+    case 'length':
+      if (numberArg !== undefined) applyLimit(schema, method, numberArg);
+      break;
+    case 'pattern':
+    case 'regex': {
+      const regex = args[0] && unwrap(ts, args[0]);
+      if (schema.type === 'object' && args[1]) {
+        // object().pattern(keyRegex, valueSchema) - arbitrary keys
+        const valueSchema = interpret(ts, { expr: args[1], sourceFile }, depth + 1);
+        if (valueSchema) schema.additionalProperties = valueSchema.schema;
+      } else if (regex && ts.isRegularExpressionLiteral(regex)) {
+        schema.pattern = regex.text.slice(1, regex.text.lastIndexOf('/'));
+      }
+      break;
+    }
+    case 'unknown':
+      if (literal(0) !== false) delete schema.additionalProperties;
+      else schema.additionalProperties = false;
+      break;
+    case 'keys':
+    case 'append':
+      if (args[0]) return applyKeys(ts, result, { expr: args[0], sourceFile }, depth);
+      break;
+    case 'items': {
+      const items = args
+        .map(arg => interpret(ts, { expr: arg, sourceFile }, depth + 1)?.schema)
+        .filter((item): item is Record<string, any> => !!item);
+      if (items.length === 1) schema.items = items[0];
+      else if (items.length > 1) schema.items = { oneOf: items };
+      break;
+    }
+    case 'unique':
+      schema.uniqueItems = true;
+      break;
+    case 'try': {
+      const alternatives = args
+        .map(arg => interpret(ts, { expr: arg, sourceFile }, depth + 1)?.schema)
+        .filter((item): item is Record<string, any> => !!item);
+      if (alternatives.length > 0) schema.oneOf = alternatives;
+      break;
+    }
+    case 'concat': {
+      const other = args[0] && interpret(ts, { expr: args[0], sourceFile }, depth + 1);
+      if (other) return mergeSchemas(result, other);
+      break;
+    }
+    case 'when':
+    case 'conditional': {
+      const conditional = readConditional(ts, args, sourceFile, depth, method === 'when');
+      if (conditional) addJoiConditional(schema, conditional);
+      break;
+    }
+    default:
+      if (STRING_FORMATS[method]) {
+        schema.format = STRING_FORMATS[method];
+      }
+  }
+
+  return result;
+}
+
+function applyLimit(schema: Record<string, any>, method: 'min' | 'max' | 'length', limit: number) {
+  const keywords: Record<string, [string, string]> = {
+    string: ['minLength', 'maxLength'],
+    array: ['minItems', 'maxItems'],
+    object: ['minProperties', 'maxProperties'],
+  };
+  const [minKeyword, maxKeyword] = keywords[schema.type] || ['minimum', 'maximum'];
+
+  if (method !== 'max') schema[minKeyword] = limit;
+  if (method !== 'min') schema[maxKeyword] = limit;
+}
+
+/**
+ * Add the keys of an object literal ({ email: Joi.string(), ...baseFields }) to an object schema
+ */
+function applyKeys(
+  ts: TypeScriptModule,
+  base: StaticJoiSchema,
+  keys: ScopedExpression,
+  depth: number
+): StaticJoiSchema {
+  const literal = resolveObjectLiteral(ts, keys, depth);
+  if (!literal) return base;
+
+  const schema: Record<string, any> = { ...base.schema, type: 'object', properties: { ...(base.schema.properties || {}) } };
+  const required = new Set<string>(base.schema.required || []);
+
+  literal.expr.properties.forEach(property => {
+    if (ts.isSpreadAssignment(property)) {
+      const spread = applyKeys(ts, { schema: {} }, { expr: property.expression, sourceFile: literal.sourceFile }, depth + 1);
+      Object.assign(schema.properties, spread.schema.properties || {});
+      (spread.schema.required || []).forEach((name: string) => required.add(name));
+      return;
+    }
+
+    const name = getPropertyName(ts, property);
+    if (!name) return;
+
+    const value = ts.isPropertyAssignment(property)
+      ? property.initializer
+      : ts.isShorthandPropertyAssignment(property)
+        ? property.name
+        : undefined;
+    const child = value && interpret(ts, { expr: value, sourceFile: literal.sourceFile }, depth + 1);
+    if (!child || child.forbidden) {
+      delete schema.properties[name];
+      required.delete(name);
+      return;
+    }
+
+    schema.properties[name] = child.schema;
+    if (child.required) required.add(name);
+    else required.delete(name);
+  });
+
+  if (required.size > 0) schema.required = [...required];
+  else delete schema.required;
+
+  return { ...base, schema };
+}
+
+/**
+ * Read the branches of when(condition, options) / conditional(condition, options).
+ * The condition is a reference ('method', '.type', Joi.ref('method')) or a schema
+ * requiring one key to take given values (Joi.object({ type: Joi.valid('card') })).
+ */
+function readConditional(
+  ts: TypeScriptModule,
+  args: readonly import('typescript').Expression[],
+  sourceFile: import('typescript').SourceFile,
+  depth: number,
+  isWhen: boolean
+): JoiConditional | undefined {
+  if (!args[0] || !args[1]) return undefined;
+
+  const options: ScopedExpression = { expr: args[1], sourceFile };
+  const reference = readConditionReference(ts, args[0], sourceFile, depth);
+  let target: { ref?: string; self?: boolean; values?: any[] } = reference ? parseConditionReference(reference) : {};
+  if (!reference) {
+    // A schema condition - its one key with valid() values is the tested property
+    const condition = interpret(ts, { expr: args[0], sourceFile }, depth + 1);
+    const keys = Object.entries<any>(condition?.schema.properties || {}).filter(([, property]) => Array.isArray(property.enum));
+    if (keys.length === 1) target = { ref: keys[0][0], self: true, values: keys[0][1].enum };
+  }
+
+  const switchCases = getMember(ts, options, 'switch', depth);
+  const switchList = switchCases && unwrap(ts, switchCases.expr);
+  const matches: ScopedExpression[] = switchList && ts.isArrayLiteralExpression(switchList)
+    ? switchList.elements.map(element => ({ expr: element, sourceFile: switchCases!.sourceFile }))
+    : [options];
+
+  const branches: JoiConditionalBranch[] = [];
+  matches.forEach(match => {
+    const is = getMember(ts, match, 'is', depth);
+    const values = target.values || (target.ref && is ? readConditionValues(ts, is, depth) : []);
+    const then = getMember(ts, match, 'then', depth);
+    const otherwise = getMember(ts, match, 'otherwise', depth);
+
+    const thenBranch = then && readBranch(ts, then, depth);
+    if (thenBranch) branches.push({ values, ...thenBranch });
+    const otherwiseBranch = otherwise && readBranch(ts, otherwise, depth);
+    if (otherwiseBranch) branches.push(otherwiseBranch);
+  });
+
+  if (branches.length === 0) return undefined;
+
+  // A when() without otherwise leaves the schema as it is
+  if (isWhen && branches.every(branch => branch.values)) branches.push({ schema: {} });
+  return { ...(target.ref ? { ref: target.ref, self: target.self } : {}), branches };
+}
+
+// The reference a condition is written as: 'method' or Joi.ref('method')
+function readConditionReference(
+  ts: TypeScriptModule,
+  expr: import('typescript').Expression,
+  sourceFile: import('typescript').SourceFile,
+  depth: number
+): string | undefined {
+  const unwrapped = unwrap(ts, expr);
+  if (ts.isCallExpression(unwrapped) && ts.isPropertyAccessExpression(unwrapped.expression) &&
+    unwrapped.expression.name.text === 'ref' && isJoiReference(ts, unwrapped.expression.expression, sourceFile, depth)) {
+    return unwrapped.arguments[0] ? readConditionReference(ts, unwrapped.arguments[0], sourceFile, depth) : undefined;
+  }
+
+  const value = evaluateLiteral(ts, unwrapped, sourceFile, depth);
+  return typeof value === 'string' ? value : undefined;
+}
+
+// A sibling ('method') or own ('.type') property - deeper paths and context refs have no discriminator
+function parseConditionReference(reference: string): { ref?: string; self?: boolean } {
+  const match = reference.match(/^(\.)?([^./$#]+)$/);
+  if (!match) return {};
+  return match[1] ? { ref: match[2], self: true } : { ref: match[2] };
+}
+
+// The values an is matches: 'card', ['card', 'bank'] or Joi.valid('card') - none for other schemas
+function readConditionValues(ts: TypeScriptModule, is: ScopedExpression, depth: number): any[] {
+  const value = evaluateLiteral(ts, is.expr, is.sourceFile, depth);
+  if (value !== undefined && value !== null && typeof value !== 'object') return [value];
+  if (Array.isArray(value)) return value;
+
+  const schema = interpret(ts, is, depth + 1)?.schema;
+  return Array.isArray(schema?.enum) ? schema!.enum : [];
+}
+
+function readBranch(ts: TypeScriptModule, scoped: ScopedExpression, depth: number): Omit<JoiConditionalBranch, 'values'> | undefined {
+  const branch = interpret(ts, scoped, depth + 1);
+  if (!branch) return undefined;
+  if (branch.forbidden) return { schema: {}, presence: 'forbidden' };
+  if (branch.required === undefined) return { schema: branch.schema };
+  return { schema: branch.schema, presence: branch.required ? 'required' : 'optional' };
+}
+
+function mergeSchemas(base: StaticJoiSchema, other: StaticJoiSchema): StaticJoiSchema {
+  const schema = { ...base.schema, ...other.schema };
+  if (base.schema.properties || other.schema.properties) {
+    schema.properties = { ...(base.schema.properties || {}), ...(other.schema.properties || {}) };
+  }
+  const required = [...new Set([...(base.schema.required || []), ...(other.schema.required || [])])];
+  if (required.length > 0) schema.required = required;
+
+  return {
+    schema,
+    required: other.required ?? base.required,
+    forbidden: other.forbidden ?? base.forbidden,
+  };
+}
+
+/**
+ * Whether an expression is the Joi module (or an extended instance of it)
+ */
+function isJoiReference(
+  ts: TypeScriptModule,
+  expr: import('typescript').Expression,
+  sourceFile: import('typescript').SourceFile,
+  depth: number
+): boolean {
+  const unwrapped = unwrap(ts, expr);
+  if (!ts.isIdentifier(unwrapped)) return false;
+
+  const binding = findImportBinding(ts, sourceFile, unwrapped.text);
+  if (binding) {
+    if (JOI_MODULES.includes(binding.specifier)) return true;
+  }
+
+  const resolved = resolveIdentifier(ts, sourceFile, unwrapped.text);
+  if (!resolved) {
+    // Not declared or imported anywhere we can see, e.g. a global Joi
+    return !binding && ['Joi', 'joi'].includes(unwrapped.text);
+  }
+
+  // const Joi = BaseJoi.extend(...) / export default Joi re-exported from a local module
+  const value = depth < MAX_DEPTH ? getDeclaredValue(ts, resolved) : undefined;
+  if (value) {
+    const initializer = unwrap(ts, value);
+    if (ts.isCallExpression(initializer) && ts.isPropertyAccessExpression(initializer.expression)) {
+      return initializer.expression.name.text === 'extend' &&
+        isJoiReference(ts, initializer.expression.expression, resolved.sourceFile, depth + 1);
+    }
+    if (ts.isIdentifier(initializer)) {
+      return isJoiReference(ts, initializer, resolved.sourceFile, depth + 1);
+    }
+  }
+
+  return false;
+}
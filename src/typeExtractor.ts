@@ -1,6 +1,7 @@
 import * as fs from 'fs-extra';
 import * as path from 'path';
 import { glob } from 'glob';
+import { extractZodInferredSchema } from './zodExtractor';
 
 // Try to import TypeScript, fallback gracefully if not available
 let tsModule: typeof import('typescript') | null = null;
@@ -11,7 +12,8 @@ try {
 }
 
 /**
- * Load TypeScript types/interfaces from files and convert them to JSON schemas
+ * Load TypeScript types/interfaces from files and convert them to JSON schemas.
+ * JavaScript files contribute their JSDoc `@typedef`s.
  */
 export async function loadTypesFromDirectory(
   schemasDir: string
@@ -35,11 +37,11 @@ export async function loadTypesFromDirectory(
       return schemas;
     }
 
-    // Find all TypeScript files in the schemas directory
-    const typeFiles = await glob(`${schemasDir}/**/*.ts`, { cwd: process.cwd() });
+    // Find all TypeScript and JavaScript files in the schemas directory
+    const typeFiles = await glob(`${schemasDir}/**/*.{ts,js,mjs,cjs}`, { cwd: process.cwd() });
 
     if (typeFiles.length === 0) {
-      console.log(`  ⚠️  No TypeScript files found in ${schemasDir}`);
+      console.log(`  ⚠️  No TypeScript or JavaScript files found in ${schemasDir}`);
       return schemas;
     }
 
@@ -50,7 +52,7 @@ export async function loadTypesFromDirectory(
     const program = ts.createProgram(filePaths, {
       target: ts.ScriptTarget.Latest,
       module: ts.ModuleKind.CommonJS,
-      allowJs: false,
+      allowJs: true,
       skipLibCheck: true,
     });
 
@@ -73,6 +75,11 @@ export async function loadTypesFromDirectory(
           typeDeclarations.set(node.name.text, { node, isInterface: false });
         }
       });
+
+      // JSDoc typedefs behave like type aliases
+      getJsDocTypedefs(ts, sourceFile).forEach(tag => {
+        typeDeclarations.set(tag.name!.getText(sourceFile), { node: tag, isInterface: false });
+      });
     }
 
     console.log(`  📋 Found ${typeDeclarations.size} type declaration(s)`);
@@ -103,13 +110,25 @@ export async function loadTypesFromDirectory(
           // Create a visited set with this type already in it to prevent self-reference issues
           const visitedSet = new Set<string>();
           visitedSet.add(node.name.text);
-          const schema = extractTypeAliasSchema(node, checker, ts, schemas, typeDeclarations, visitedSet);
+          // z.infer<typeof schema> is described by the Zod schema itself
+          const schema = extractZodInferredSchema(ts, node) ||
+            extractTypeAliasSchema(node, checker, ts, schemas, typeDeclarations, visitedSet);
           if (schema) {
             schemas[node.name.text] = schema;
             console.log(`    ✅ Extracted type: ${node.name.text}`);
           }
         }
       });
+
+      getJsDocTypedefs(ts, sourceFile).forEach(tag => {
+        const typeName = tag.name!.getText(sourceFile);
+        const visitedSet = new Set<string>([typeName]);
+        const schema = extractTypeAliasSchema(tag, checker, ts, schemas, typeDeclarations, visitedSet);
+        if (schema) {
+          schemas[typeName] = schema;
+          console.log(`    ✅ Extracted JSDoc typedef: ${typeName}`);
+        }
+      });
     }
 
     console.log(`  ✅ Loaded ${Object.keys(schemas).length} type definition(s)`);
@@ -120,6 +139,35 @@ export async function loadTypesFromDirectory(
   }
 }
 
+/**
+ * Collect the named `@typedef` tags of a file's top-level JSDoc comments
+ */
+function getJsDocTypedefs(
+  ts: typeof import('typescript'),
+  sourceFile: import('typescript').SourceFile
+): import('typescript').JSDocTypedefTag[] {
+  const typedefs: import('typescript').JSDocTypedefTag[] = [];
+  if (!/\.[cm]?js$/.test(sourceFile.fileName)) {
+    return typedefs;
+  }
+
+  const visit = (node: import('typescript').Node) => {
+    // Every JSDoc comment before the node, not just the closest one that getJSDocTags() reads
+    const jsDocs: import('typescript').JSDoc[] = (node as any).jsDoc || [];
+    jsDocs.forEach(jsDoc => {
+      jsDoc.tags?.forEach(tag => {
+        if (ts.isJSDocTypedefTag(tag) && tag.name) {
+          typedefs.push(tag);
+        }
+      });
+    });
+  };
+  sourceFile.statements.forEach(visit);
+  // Typedefs in a trailing comment are attached to the end-of-file token
+  visit(sourceFile.endOfFileToken);
+  return typedefs;
+}
+
 /**
  * Extract JSON schema from a TypeScript interface declaration
  */
@@ -166,7 +214,7 @@ function extractTypeAliasSchema(
  * Convert a TypeScript type to JSON schema
  * Inlines referenced types when they're found in the extracted schemas
  */
-function typeToJsonSchema(
+export function typeToJsonSchema(
   type: any,
   checker: any,
   ts: typeof import('typescript'),
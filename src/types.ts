@@ -5,7 +5,58 @@ export interface RouteInfo {
   controllerMethod: string;
   hasAuth: boolean;
   middleware: string[];
-  validatorSchema?: string; // e.g., "authSchemas.register"
+  validatorSchema?: string; // e.g., "authSchemas.register" - the request body validator
+  validators?: ValidatorReference[]; // Every validator call, with the request part it validates
+  pathParameters?: PathParameterInfo[]; // Parameters of the OpenAPI path, in order
+  operationId?: string; // Overrides controllerMethod when one handler serves several paths
+  handlerLocation?: { filePath: string; name: string; position?: number }; // Where the handler is implemented (position: start of an inline handler)
+}
+
+// How Joi validators are turned into schemas: by loading their modules (in-process or in
+// a child process), or by reading their source
+export type JoiExtractionMode = 'runtime' | 'isolated' | 'static';
+
+export interface JoiWorkerOptions {
+  timeout?: number; // Milliseconds a validator module may take to load (default: 10000)
+  env?: Record<string, string>; // Extra environment variables for the child process
+  stubs?: Record<string, any>; // Module specifier or path -> value returned instead of loading it, e.g. { '../db': {} }
+}
+
+// Request part a validator applies to
+export type ValidatorSegment = 'body' | 'query' | 'params' | 'headers';
+
+// Schema library of a validator
+export type ValidatorLibrary = 'joi' | 'zod' | 'express-validator' | 'class-validator' | 'yup' | 'json-schema';
+
+export interface ValidatorReference {
+  segment: ValidatorSegment;
+  schemaRef: string; // Schema expression as written, e.g. "listSchema" or "userSchemas.list"
+  library?: ValidatorLibrary; // Set when the validator call names it, e.g. zodMiddleware(schema); otherwise detected from the schema
+}
+
+// OpenAPI schema read from a validator, with any component schemas it references
+export interface ValidatorSchemaResult {
+  schema: any;
+  typeName?: string; // Component name the schema is published under; the request body then references it
+  components?: Record<string, any>;
+}
+
+// Reads the schemas of one validator library. Validators name their library through
+// their call (zodMiddleware(schema)) or are claimed by the first extractor whose detect() matches
+export interface ValidatorExtractor {
+  library: string; // A ValidatorLibrary, or a name of your own
+  detect?: (validator: ValidatorReference, routeFilePath: string | undefined, options: SwaggerifyOptions) => boolean | Promise<boolean>;
+  load: (
+    validator: ValidatorReference,
+    routeFilePath: string | undefined,
+    options: SwaggerifyOptions
+  ) => ValidatorSchemaResult | null | Promise<ValidatorSchemaResult | null>;
+}
+
+export interface PathParameterInfo {
+  name: string;
+  pattern?: string; // From inline regex constraints, e.g. :id(\d+)
+  description?: string;
 }
 
 export interface FieldInfo {
@@ -17,6 +68,7 @@ export interface FieldInfo {
 export interface ControllerInfo {
   requestBodyType?: string;
   requestBodyFields?: FieldInfo[];
+  requestBodyTypeName?: string; // Named request body type, e.g. from JSDoc `@param {LoginBody} req.body`
   responseType?: string;
   statusCodes: number[];
   responseTypesByStatus?: Map<number, string>; // Map status code to response type name
@@ -29,8 +81,16 @@ export interface SmartField {
   required: boolean;
 }
 
+// OpenAPI security requirement: scheme name -> required scopes
+export type SecurityRequirement = Record<string, string[]>;
+
+// What the arguments of an authorization middleware (requireScope('orders:write')) mean
+export type AuthorizationKind = 'scopes' | 'roles';
+
+export type HttpMethod = 'GET' | 'POST' | 'PUT' | 'DELETE' | 'PATCH' | 'HEAD' | 'OPTIONS';
+
 export interface SimpleEndpointConfig {
-  method: 'GET' | 'POST' | 'PUT' | 'DELETE' | 'PATCH';
+  method: HttpMethod;
   path: string;
   summary: string;
   description?: string;
@@ -63,13 +123,24 @@ export interface SimpleEndpointConfig {
     description?: string;
   }>;
   noAuth?: boolean;
+  security?: SecurityRequirement[]; // Alternatives; an empty array marks a public operation
+  requiredRoles?: string[]; // Roles from authorization middleware, emitted as x-required-roles
+  schemas?: Record<string, any>; // Component schemas the endpoint references, e.g. a Zod schema named by z.infer
+  discovery?: 'runtime-only' | 'source-only'; // Set by swaggerifyApp when a route was only found one way
 }
 
 export interface SwaggerifyOptions {
   routesDir?: string;
   controllersDir?: string;
   validatorsDir?: string; // Directory where Joi validators are located
+  joiMode?: JoiExtractionMode; // 'runtime' (default) loads validator modules, 'isolated' loads them in a child process, 'static' interprets their source
+  joiWorker?: JoiWorkerOptions; // Child process settings for joiMode: 'isolated'
+  validatorExtractors?: ValidatorExtractor[]; // Extra validator libraries, tried before the built-in ones
   schemasDir?: string; // Directory where TypeScript type definitions are located
+  appEntry?: string; // App entry file (e.g. ./src/app.ts) used as the root of the router mount graph
+  expressVersion?: 4 | 5 | 'auto'; // Route path syntax; 'auto' (default) reads the express version from package.json
+  allMethods?: HttpMethod[]; // Methods router.all() routes are documented under (default: all methods)
+  handlerWrappers?: string[]; // Extra handler wrapper names, added to asyncHandler, catchAsync, wrapAsync, ...
   outputFile?: string;
   basePath?: string;
   title?: string;
@@ -80,6 +151,9 @@ export interface SwaggerifyOptions {
     description: string;
   }>;
   customSchemas?: Record<string, any>;
+  securitySchemes?: Record<string, any>; // OpenAPI security schemes (default: a bearerAuth JWT scheme)
+  securityMiddleware?: Record<string, string | string[]>; // Middleware name or call -> security scheme name(s)
+  authorizationMiddleware?: Record<string, AuthorizationKind>; // Extra middleware whose arguments are scopes or roles
   smartDefaults?: boolean;
   fieldTypeInference?: boolean;
 }
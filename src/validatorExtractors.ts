@@ -0,0 +1,106 @@
+import { SwaggerifyOptions, ValidatorExtractor, ValidatorReference, ValidatorSchemaResult } from './types';
+import { loadJoiSchemaFromValidator } from './joiExtractor';
+import { isZodValidator, loadZodSchemaFromValidator } from './zodExtractor';
+import { loadExpressValidatorSchema } from './expressValidatorExtractor';
+import { isClassValidatorDto, loadClassValidatorSchema } from './classValidatorExtractor';
+import { isYupValidator, loadYupSchemaFromValidator } from './yupExtractor';
+import { isJsonSchemaValidator, loadJsonSchemaFromValidator } from './jsonSchemaExtractor';
+
+// Built-in extractors, in detection order. Joi has no detect() - it takes every validator no other library claims
+const BUILTIN_EXTRACTORS: ValidatorExtractor[] = [
+  {
+    // express-validator chains are only ever named by the route extractor
+    library: 'express-validator',
+    load: ({ schemaRef, segment }, routeFilePath) => {
+      console.log(`  📦 Attempting to read express-validator ${segment} rules`);
+      return loadExpressValidatorSchema(schemaRef, segment, routeFilePath);
+    },
+  },
+  {
+    library: 'zod',
+    detect: ({ schemaRef }, routeFilePath, options) => isZodValidator(schemaRef, routeFilePath, options.validatorsDir),
+    load: ({ schemaRef, segment }, routeFilePath, options) => {
+      console.log(`  📦 Attempting to extract Zod ${segment} schema: ${schemaRef}`);
+      return loadZodSchemaFromValidator(schemaRef, routeFilePath, options.validatorsDir);
+    },
+  },
+  {
+    library: 'class-validator',
+    detect: ({ schemaRef }, routeFilePath) => isClassValidatorDto(schemaRef, routeFilePath),
+    load: ({ schemaRef, segment }, routeFilePath) => {
+      console.log(`  📦 Attempting to extract DTO ${segment} schema: ${schemaRef}`);
+      return loadClassValidatorSchema(schemaRef, routeFilePath);
+    },
+  },
+  {
+    library: 'json-schema',
+    detect: ({ schemaRef }, routeFilePath, options) => isJsonSchemaValidator(schemaRef, routeFilePath, options.validatorsDir),
+    load: ({ schemaRef, segment }, routeFilePath, options) => {
+      console.log(`  📦 Attempting to extract JSON Schema ${segment} schema: ${schemaRef}`);
+      return loadJsonSchemaFromValidator(schemaRef, routeFilePath, options.validatorsDir);
+    },
+  },
+  {
+    library: 'yup',
+    detect: ({ schemaRef }, routeFilePath, options) => isYupValidator(schemaRef, routeFilePath, options.validatorsDir),
+    load: ({ schemaRef, segment }, routeFilePath, options) => {
+      console.log(`  📦 Attempting to extract Yup ${segment} schema: ${schemaRef}`);
+      return loadYupSchemaFromValidator(schemaRef, routeFilePath, options.validatorsDir);
+    },
+  },
+  {
+    library: 'joi',
+    load: ({ schemaRef, segment }, routeFilePath, options) => {
+      console.log(`  📦 Attempting to extract Joi ${segment} schema: ${schemaRef}`);
+      return loadJoiSchemaFromValidator(schemaRef, routeFilePath, options.validatorsDir, options);
+    },
+  },
+];
+
+/**
+ * Convert a validator's schema with its library's extractor. Validators whose call
+ * names the library (zodMiddleware(schema)) go to that library's extractor; others
+ * (validate(schema)) to the first one that detects the schema, Joi when none does.
+ * Extractors from options.validatorExtractors come before the built-in ones.
+ */
+export async function loadValidatorSchema(
+  validator: ValidatorReference,
+  routeFilePath: string | undefined,
+  options: SwaggerifyOptions
+): Promise<ValidatorSchemaResult | null> {
+  const extractor = await findValidatorExtractor(validator, routeFilePath, options);
+  if (!extractor) {
+    console.log(`  ⚠️  No validator extractor for ${validator.library} schema ${validator.schemaRef}`);
+    return null;
+  }
+
+  if (!BUILTIN_EXTRACTORS.includes(extractor)) {
+    console.log(`  📦 Attempting to extract ${extractor.library} ${validator.segment} schema: ${validator.schemaRef}`);
+  }
+
+  try {
+    return await extractor.load(validator, routeFilePath, options);
+  } catch (error) {
+    console.log(`  ⚠️  ${extractor.library} extractor failed for ${validator.schemaRef}:`, (error as Error).message);
+    return null;
+  }
+}
+
+async function findValidatorExtractor(
+  validator: ValidatorReference,
+  routeFilePath: string | undefined,
+  options: SwaggerifyOptions
+): Promise<ValidatorExtractor | undefined> {
+  const extractors = [...(options.validatorExtractors || []), ...BUILTIN_EXTRACTORS];
+
+  if (validator.library) {
+    return extractors.find(extractor => extractor.library === validator.library);
+  }
+
+  for (const extractor of extractors) {
+    if (extractor.detect && (await extractor.detect(validator, routeFilePath, options))) {
+      return extractor;
+    }
+  }
+  return extractors.find(extractor => extractor.library === 'joi');
+}
@@ -0,0 +1,173 @@
+import * as fs from 'fs-extra';
+import * as path from 'path';
+import {
+  findImportBinding,
+  getSourceFile,
+  resolveIdentifier,
+  resolveModulePath,
+  SOURCE_FILE_EXTENSIONS,
+} from './moduleResolver';
+import { resolveExportedExpression, ScopedExpression } from './staticEvaluator';
+
+type TypeScriptModule = typeof import('typescript');
+
+// A module that may hold a validator and the property paths to try in it, in order
+export interface ValidatorLocation {
+  filePath: string;
+  propertyPaths: string[][];
+}
+
+// A candidate expression for a validator reference, and the export it was found at
+export interface ValidatorExpression {
+  scoped: ScopedExpression;
+  location?: { filePath: string; propertyPath: string[] };
+}
+
+/**
+ * Whether a validator argument references a schema (loginSchema, authSchemas.register)
+ * rather than building one inline
+ */
+export function isValidatorReference(schemaRef: string): boolean {
+  return /^[A-Za-z_$][\w$]*(\.[A-Za-z_$][\w$]*)*$/.test(schemaRef);
+}
+
+/**
+ * The expressions a validator argument may stand for, for extractors that read
+ * schemas from source: the inline expression itself, or the declarations found
+ * in the route file, through its imports and by naming convention - in that order
+ */
+export async function findValidatorExpressions(
+  ts: TypeScriptModule,
+  schemaRef: string,
+  routeFilePath?: string,
+  validatorsDir?: string
+): Promise<ValidatorExpression[]> {
+  const routeFile = routeFilePath ? getSourceFile(ts, routeFilePath) : undefined;
+
+  if (!isValidatorReference(schemaRef)) {
+    const expressionFile = ts.createSourceFile('inline-schema.ts', `(${schemaRef})`, ts.ScriptTarget.Latest, true);
+    const statement = expressionFile.statements[0];
+    return routeFile && statement && ts.isExpressionStatement(statement)
+      ? [{ scoped: { expr: statement.expression, sourceFile: routeFile } }]
+      : [];
+  }
+
+  let locations: ValidatorLocation[] = [];
+
+  // Schemas declared in the route file itself
+  const [head, ...members] = schemaRef.split('.');
+  if (routeFile && routeFilePath && !findImportBinding(ts, routeFile, head)) {
+    const local = resolveIdentifier(ts, routeFile, head);
+    if (local) {
+      locations = [{ filePath: local.filePath, propertyPaths: [[head, ...members]] }];
+    }
+  }
+
+  if (locations.length === 0 && routeFilePath) {
+    locations = locateValidatorThroughImports(ts, schemaRef, routeFilePath);
+  }
+  if (locations.length === 0) {
+    locations = await locateValidatorByConvention(schemaRef, routeFilePath, validatorsDir);
+  }
+
+  return locations.flatMap(location =>
+    location.propertyPaths.flatMap(propertyPath => {
+      const scoped = resolveExportedExpression(ts, location.filePath, propertyPath);
+      return scoped ? [{ scoped, location: { filePath: location.filePath, propertyPath } }] : [];
+    })
+  );
+}
+
+/**
+ * Locate a validator through the route file's imports, e.g. `validate(loginSchema)`
+ * with `import { loginSchema } from '../schemas/authSchemas'`.
+ *
+ * The imported module is tried first (Node follows its re-exports when it is
+ * loaded), then the module that declares the schema, as found by following
+ * aliases, barrels and tsconfig paths.
+ */
+export function locateValidatorThroughImports(
+  ts: TypeScriptModule,
+  schemaRef: string,
+  routeFilePath: string
+): ValidatorLocation[] {
+  const sourceFile = getSourceFile(ts, routeFilePath);
+  if (!sourceFile) return [];
+
+  const [head, ...members] = schemaRef.split('.');
+  const propertyPathsFor = (exportName: string): string[][] => {
+    if (exportName === '*') return [members];
+    // CommonJS modules (module.exports = schemas) have no default property
+    if (exportName === 'default') return [['default', ...members], members];
+    return [[exportName, ...members]];
+  };
+
+  const locations: ValidatorLocation[] = [];
+
+  const binding = findImportBinding(ts, sourceFile, head);
+  const importedPath = binding && resolveModulePath(ts, binding.specifier, routeFilePath);
+  if (binding && importedPath) {
+    locations.push({ filePath: importedPath, propertyPaths: propertyPathsFor(binding.importedName) });
+  }
+
+  const declared = resolveIdentifier(ts, sourceFile, head);
+  if (declared && declared.filePath !== path.resolve(routeFilePath) && declared.filePath !== importedPath) {
+    locations.push({ filePath: declared.filePath, propertyPaths: propertyPathsFor(declared.localName) });
+  }
+
+  return locations;
+}
+
+/**
+ * Guess the validator file of a grouped reference (authSchemas.register) from
+ * naming conventions: validatorsDir/auth.ts, src/validators/auth.ts, ...
+ */
+export async function locateValidatorByConvention(
+  schemaRef: string,
+  routeFilePath?: string,
+  validatorsDir?: string
+): Promise<ValidatorLocation[]> {
+  // Parse schema reference (e.g., "authSchemas.register" -> "authSchemas" and "register")
+  const parts = schemaRef.split('.');
+  if (parts.length < 2) {
+    return [];
+  }
+
+  const schemaGroup = parts[0]; // e.g., "authSchemas"
+  const schemaName = parts[parts.length - 1]; // e.g., "register"
+
+  // Try to find validator file
+  const possibleValidatorBases = [
+    path.join(process.cwd(), validatorsDir || 'src/api/v1/validators', schemaGroup.replace('Schemas', '')),
+    path.join(process.cwd(), validatorsDir || 'src/api/v1/validators', schemaGroup.toLowerCase().replace('schemas', '')),
+    path.join(process.cwd(), 'src', 'validators', schemaGroup.replace('Schemas', '')),
+  ];
+
+  // Also try to resolve from route file location
+  if (routeFilePath) {
+    const routeDir = path.dirname(routeFilePath);
+    possibleValidatorBases.push(
+      path.join(routeDir, '..', 'validators', schemaGroup.replace('Schemas', '')),
+      path.join(routeDir, '..', '..', 'validators', schemaGroup.replace('Schemas', '')),
+      path.join(routeDir, 'validators', schemaGroup.replace('Schemas', '')),
+    );
+  }
+
+  // TypeScript validators first, then plain JavaScript ones
+  const possibleValidatorFiles = SOURCE_FILE_EXTENSIONS.flatMap(ext => possibleValidatorBases.map(base => `${base}${ext}`));
+
+  for (const file of possibleValidatorFiles) {
+    if (await fs.pathExists(file)) {
+      return [{
+        filePath: file,
+        propertyPaths: [
+          [schemaGroup, schemaName], // Pattern: authSchemas.register
+          [schemaName], // Pattern: direct export
+          [schemaGroup.replace('Schemas', ''), schemaName], // Group exported without the 'Schemas' suffix
+        ],
+      }];
+    }
+  }
+
+  return [];
+}
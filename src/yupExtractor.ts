@@ -0,0 +1,410 @@
+import * as path from 'path';
+import { findImportBinding } from './moduleResolver';
+import {
+  evaluateLiteral,
+  evaluateLiteralList,
+  getPropertyName,
+  MAX_DEPTH,
+  resolveObjectLiteral,
+  resolveReference,
+  ScopedExpression,
+  unwrap,
+} from './staticEvaluator';
+import { findValidatorExpressions } from './validatorLocator';
+
+// Try to import TypeScript, fallback gracefully if not available
+let tsModule: typeof import('typescript') | null = null;
+try {
+  tsModule = require('typescript');
+} catch (error) {
+  // TypeScript not available
+}
+
+type TypeScriptModule = typeof import('typescript');
+
+// Base schemas created by yup.<type>() or a named import (import { object } from 'yup')
+const YUP_TYPES: Record<string, Record<string, any>> = {
+  string: { type: 'string' },
+  number: { type: 'number' },
+  boolean: { type: 'boolean' },
+  bool: { type: 'boolean' },
+  date: { type: 'string', format: 'date-time' },
+  object: { type: 'object' },
+  array: { type: 'array' },
+  tuple: { type: 'array' },
+  mixed: {},
+  lazy: {},
+};
+
+// Yup string tests that correspond to an OpenAPI string format
+const STRING_FORMATS: Record<string, string> = {
+  email: 'email',
+  url: 'uri',
+  uuid: 'uuid',
+  datetime: 'date-time',
+};
+
+interface StaticYupSchema {
+  schema: Record<string, any>;
+  // Yup fields are optional until .required() / .defined()
+  required?: boolean;
+}
+
+/**
+ * Convert a Yup validator to an OpenAPI schema - same contract as loadJoiSchemaFromValidator.
+ * Like Zod, Yup schemas are read from their source rather than loaded.
+ */
+export async function loadYupSchemaFromValidator(
+  schemaRef: string,
+  routeFilePath?: string,
+  validatorsDir?: string
+): Promise<{ schema: any } | null> {
+  if (!tsModule) {
+    console.log(`  ⚠️  TypeScript is required for Yup schema extraction of ${schemaRef}`);
+    return null;
+  }
+  const ts = tsModule;
+
+  try {
+    const candidates = await findValidatorExpressions(ts, schemaRef, routeFilePath, validatorsDir);
+    if (candidates.length === 0) {
+      console.log(`  ⚠️  Validator file not found for ${schemaRef}`);
+      return null;
+    }
+
+    for (const { scoped, location } of candidates) {
+      const schema = interpret(ts, scoped, 0)?.schema;
+      if (!schema) continue;
+
+      console.log(location
+        ? `  ✅ Read Yup schema ${schemaRef} from ${path.relative(process.cwd(), location.filePath)}`
+        : `  ✅ Read inline Yup schema`);
+      return { schema };
+    }
+
+    console.log(`  ⚠️  Could not read Yup schema ${schemaRef}`);
+    return null;
+  } catch (error) {
+    console.log(`  ⚠️  Error reading Yup schema for ${schemaRef}:`, (error as Error).message);
+    return null;
+  }
+}
+
+/**
+ * Whether a validator reference (or inline schema) is a Yup schema
+ */
+export async function isYupValidator(schemaRef: string, routeFilePath?: string, validatorsDir?: string): Promise<boolean> {
+  if (!tsModule || !routeFilePath) return false;
+  const ts = tsModule;
+
+  try {
+    const candidates = await findValidatorExpressions(ts, schemaRef, routeFilePath, validatorsDir);
+    return candidates.some(({ scoped }) => isYupChain(ts, scoped, 0));
+  } catch (error) {
+    return false;
+  }
+}
+
+function interpret(ts: TypeScriptModule, scoped: ScopedExpression, depth: number): StaticYupSchema | undefined {
+  if (depth > MAX_DEPTH) return undefined;
+
+  const expr = unwrap(ts, scoped.expr);
+  const { sourceFile } = scoped;
+
+  if (ts.isCallExpression(expr)) {
+    // yup.string(), object({...})
+    const rootType = getYupRootType(ts, expr.expression, sourceFile);
+    if (rootType) {
+      return createRootSchema(ts, rootType, expr.arguments, sourceFile, depth);
+    }
+
+    // <schema>.required(), <schema>.min(8), ...
+    if (ts.isPropertyAccessExpression(expr.expression)) {
+      const base = interpret(ts, { expr: expr.expression.expression, sourceFile }, depth + 1);
+      return base && applyMethod(ts, base, expr.expression.name.text, expr.arguments, sourceFile, depth);
+    }
+    return undefined;
+  }
+
+  // A schema declared elsewhere: createUserSchema, userSchemas.create
+  if (ts.isIdentifier(expr) || ts.isPropertyAccessExpression(expr)) {
+    const target = resolveReference(ts, { expr, sourceFile }, depth);
+    return target && interpret(ts, target, depth + 1);
+  }
+
+  return undefined;
+}
+
+function createRootSchema(
+  ts: TypeScriptModule,
+  type: string,
+  args: readonly import('typescript').Expression[],
+  sourceFile: import('typescript').SourceFile,
+  depth: number
+): StaticYupSchema | undefined {
+  const result: StaticYupSchema = { schema: { ...YUP_TYPES[type] } };
+
+  switch (type) {
+    case 'object':
+      return args[0] ? applyShape(ts, result, { expr: args[0], sourceFile }, depth) : result;
+    case 'array': {
+      const items = args[0] && interpret(ts, { expr: args[0], sourceFile }, depth + 1);
+      if (items) result.schema.items = items.schema;
+      return result;
+    }
+    case 'tuple': {
+      const list = args[0] && unwrap(ts, args[0]);
+      const items = list && ts.isArrayLiteralExpression(list)
+        ? list.elements
+          .map(element => interpret(ts, { expr: element, sourceFile }, depth + 1)?.schema)
+          .filter((item): item is Record<string, any> => !!item)
+        : [];
+      if (items.length > 0) {
+        Object.assign(result.schema, {
+          items: items.length === 1 ? items[0] : { oneOf: items },
+          minItems: items.length,
+          maxItems: items.length,
+        });
+      }
+      return result;
+    }
+    case 'lazy': {
+      // yup.lazy(() => schema)
+      const getter = args[0] && unwrap(ts, args[0]);
+      if (getter && ts.isArrowFunction(getter) && !ts.isBlock(getter.body)) {
+        return interpret(ts, { expr: getter.body, sourceFile }, depth + 1);
+      }
+      return result;
+    }
+    default:
+      return result;
+  }
+}
+
+/**
+ * Apply a chained Yup method to a schema. Methods with no OpenAPI meaning
+ * (test(), transform(), when(), trim(), ...) leave the schema unchanged.
+ */
+function applyMethod(
+  ts: TypeScriptModule,
+  base: StaticYupSchema,
+  method: string,
+  args: readonly import('typescript').Expression[],
+  sourceFile: import('typescript').SourceFile,
+  depth: number
+): StaticYupSchema {
+  const result: StaticYupSchema = { ...base, schema: { ...base.schema } };
+  const schema = result.schema;
+  const literal = (index: number) => args[index] && evaluateLiteral(ts, args[index], sourceFile, depth);
+  const numberArg = typeof literal(0) === 'number' ? literal(0) as number : undefined;
+
+  switch (method) {
+    case 'required':
+    case 'defined':
+      result.required = true;
+      break;
+    case 'optional':
+    case 'notRequired':
+      result.required = false;
+      break;
+    case 'nullable':
+      schema.nullable = true;
+      break;
+    case 'nonNullable':
+      delete schema.nullable;
+      break;
+    case 'default': {
+      const value = literal(0);
+      if (value !== undefined) schema.default = value;
+      break;
+    }
+    case 'label': {
+      const label = literal(0);
+      if (typeof label === 'string' && !schema.description) schema.description = label;
+      break;
+    }
+    case 'meta': {
+      const metadata = literal(0);
+      if (metadata && typeof metadata === 'object' && !Array.isArray(metadata)) {
+        ['description', 'example', 'format', 'deprecated'].forEach(key => {
+          if (metadata[key] !== undefined) schema[key] = metadata[key];
+        });
+      }
+      break;
+    }
+    case 'integer':
+      schema.type = 'integer';
+      break;
+    case 'positive':
+      Object.assign(schema, { minimum: 0, exclusiveMinimum: true });
+      break;
+    case 'negative':
+      Object.assign(schema, { maximum: 0, exclusiveMaximum: true });
+      break;
+    case 'moreThan':
+      if (numberArg !== undefined) Object.assign(schema, { minimum: numberArg, exclusiveMinimum: true });
+      break;
+    case 'lessThan':
+      if (numberArg !== undefined) Object.assign(schema, { maximum: numberArg, exclusiveMaximum: true });
+      break;
+    case 'min':
+    case 'max':
+    case 'length':
+      if (numberArg !== undefined) applyLimit(schema, method, numberArg);
+      break;
+    case 'matches': {
+      const regex = args[0] && unwrap(ts, args[0]);
+      if (regex && ts.isRegularExpressionLiteral(regex)) {
+        schema.pattern = regex.text.slice(1, regex.text.lastIndexOf('/'));
+      }
+      break;
+    }
+    case 'oneOf': {
+      // oneOf(['a', 'b', null]) - refs (yup.ref('password')) aren't literals and are dropped
+      const list = args[0] && unwrap(ts, args[0]);
+      const values = list && ts.isArrayLiteralExpression(list)
+        ? evaluateLiteralList(ts, list.elements, sourceFile, depth).filter(value => value !== undefined)
+        : [];
+      if (values.includes(null)) schema.nullable = true;
+      const allowed = values.filter(value => value !== null);
+      if (allowed.length > 0) schema.enum = allowed;
+      break;
+    }
+    case 'of': {
+      const items = args[0] && interpret(ts, { expr: args[0], sourceFile }, depth + 1);
+      if (items) schema.items = items.schema;
+      break;
+    }
+    case 'shape':
+      return args[0] ? applyShape(ts, result, { expr: args[0], sourceFile }, depth) : result;
+    case 'concat': {
+      const other = args[0] && interpret(ts, { expr: args[0], sourceFile }, depth + 1);
+      if (other && schema.type === 'object') {
+        schema.properties = { ...(schema.properties || {}), ...(other.schema.properties || {}) };
+        const required = [...new Set([...(schema.required || []), ...(other.schema.required || [])])];
+        if (required.length > 0) schema.required = required;
+      }
+      break;
+    }
+    case 'pick':
+    case 'omit': {
+      const keys = literal(0);
+      if (Array.isArray(keys) && schema.properties) {
+        const keep = (name: string) => (method === 'pick') === keys.includes(name);
+        schema.properties = Object.fromEntries(Object.entries(schema.properties).filter(([name]) => keep(name)));
+        if (schema.required) schema.required = schema.required.filter(keep);
+        if (schema.required?.length === 0) delete schema.required;
+      }
+      break;
+    }
+    case 'partial':
+      delete schema.required;
+      break;
+    case 'noUnknown':
+      if (literal(0) !== false) schema.additionalProperties = false;
+      break;
+    default:
+      if (STRING_FORMATS[method] && schema.type === 'string') {
+        schema.format = STRING_FORMATS[method];
+      }
+  }
+
+  return result;
+}
+
+function applyLimit(schema: Record<string, any>, method: 'min' | 'max' | 'length', limit: number) {
+  const keywords: Record<string, [string, string]> = {
+    string: ['minLength', 'maxLength'],
+    array: ['minItems', 'maxItems'],
+  };
+  const [minKeyword, maxKeyword] = keywords[schema.type] || ['minimum', 'maximum'];
+
+  if (method !== 'max') schema[minKeyword] = limit;
+  if (method !== 'min') schema[maxKeyword] = limit;
+}
+
+/**
+ * Add the fields of a shape ({ email: yup.string().email().required() }) to an object schema.
+ * Fields are required only when marked with .required() / .defined().
+ */
+function applyShape(ts: TypeScriptModule, base: StaticYupSchema, shape: ScopedExpression, depth: number): StaticYupSchema {
+  const literal = resolveObjectLiteral(ts, shape, depth);
+  if (!literal) return base;
+
+  const schema: Record<string, any> = { ...base.schema, type: 'object', properties: { ...(base.schema.properties || {}) } };
+  const required = new Set<string>(base.schema.required || []);
+
+  literal.expr.properties.forEach(property => {
+    if (ts.isSpreadAssignment(property)) {
+      const spread = applyShape(ts, { schema: {} }, { expr: property.expression, sourceFile: literal.sourceFile }, depth + 1);
+      Object.assign(schema.properties, spread.schema.properties || {});
+      (spread.schema.required || []).forEach((name: string) => required.add(name));
+      return;
+    }
+
+    const name = getPropertyName(ts, property);
+    if (!name) return;
+
+    const value = ts.isPropertyAssignment(property)
+      ? property.initializer
+      : ts.isShorthandPropertyAssignment(property)
+        ? property.name
+        : undefined;
+    const child = value && interpret(ts, { expr: value, sourceFile: literal.sourceFile }, depth + 1);
+    if (!child) return;
+
+    schema.properties[name] = child.schema;
+    if (child.required) required.add(name);
+    else required.delete(name);
+  });
+
+  if (required.size > 0) schema.required = [...required];
+  else delete schema.required;
+
+  return { ...base, schema };
+}
+
+/**
+ * The Yup type a call creates - yup.string(), Yup.object(), or string() / object()
+ * imported from 'yup' - or undefined when the callee isn't a Yup constructor
+ */
+function getYupRootType(
+  ts: TypeScriptModule,
+  callee: import('typescript').Expression,
+  sourceFile: import('typescript').SourceFile
+): string | undefined {
+  const expr = unwrap(ts, callee);
+
+  if (ts.isIdentifier(expr)) {
+    const binding = findImportBinding(ts, sourceFile, expr.text);
+    return binding?.specifier === 'yup' && YUP_TYPES[binding.importedName] ? binding.importedName : undefined;
+  }
+
+  if (ts.isPropertyAccessExpression(expr) && ts.isIdentifier(expr.expression) && YUP_TYPES[expr.name.text]) {
+    const binding = findImportBinding(ts, sourceFile, expr.expression.text);
+    return binding?.specifier === 'yup' && ['*', 'default'].includes(binding.importedName) ? expr.name.text : undefined;
+  }
+
+  return undefined;
+}
+
+/**
+ * Whether an expression is a method chain (or reference to one) that starts at a Yup constructor
+ */
+function isYupChain(ts: TypeScriptModule, scoped: ScopedExpression, depth: number): boolean {
+  if (depth > MAX_DEPTH) return false;
+  const expr = unwrap(ts, scoped.expr);
+
+  if (ts.isCallExpression(expr)) {
+    if (getYupRootType(ts, expr.expression, scoped.sourceFile)) return true;
+    return ts.isPropertyAccessExpression(expr.expression) &&
+      isYupChain(ts, { expr: expr.expression.expression, sourceFile: scoped.sourceFile }, depth + 1);
+  }
+
+  if (ts.isIdentifier(expr) || ts.isPropertyAccessExpression(expr)) {
+    const target = resolveReference(ts, scoped, depth);
+    return !!target && isYupChain(ts, target, depth + 1);
+  }
+
+  return false;
+}
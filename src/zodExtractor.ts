@@ -0,0 +1,614 @@
+import * as path from 'path';
+import { findImportBinding, getDeclaredValue, resolveExport, resolveIdentifier } from './moduleResolver';
+import {
+  evaluateEnumValues,
+  evaluateLiteral,
+  evaluateLiteralList,
+  getPropertyName,
+  MAX_DEPTH,
+  resolveObjectLiteral,
+  resolveReference,
+  ScopedExpression,
+  unwrap,
+} from './staticEvaluator';
+import { findValidatorExpressions } from './validatorLocator';
+
+// Try to import TypeScript, fallback gracefully if not available
+let tsModule: typeof import('typescript') | null = null;
+try {
+  tsModule = require('typescript');
+} catch (error) {
+  // TypeScript not available
+}
+
+type TypeScriptModule = typeof import('typescript');
+
+// Module specifiers z can be imported from
+const ZOD_MODULES = ['zod', 'zod/v3', 'zod/v4'];
+
+// Base schemas created by z.<type>()
+const ZOD_TYPES: Record<string, Record<string, any>> = {
+  string: { type: 'string' },
+  number: { type: 'number' },
+  bigint: { type: 'integer', format: 'int64' },
+  boolean: { type: 'boolean' },
+  date: { type: 'string', format: 'date-time' },
+  object: { type: 'object' },
+  strictObject: { type: 'object', additionalProperties: false },
+  looseObject: { type: 'object' },
+  array: { type: 'array' },
+  record: { type: 'object' },
+  tuple: { type: 'array' },
+  enum: { type: 'string' },
+  nativeEnum: {},
+  literal: {},
+  union: {},
+  discriminatedUnion: {},
+  intersection: {},
+  any: {},
+  unknown: {},
+  null: { nullable: true },
+  // Zod 4 string formats: z.email(), z.uuid(), ...
+  email: { type: 'string', format: 'email' },
+  url: { type: 'string', format: 'uri' },
+  uuid: { type: 'string', format: 'uuid' },
+  ipv4: { type: 'string', format: 'ipv4' },
+  ipv6: { type: 'string', format: 'ipv6' },
+  int: { type: 'integer' },
+};
+
+// Zod refinements that correspond to an OpenAPI string format
+const STRING_FORMATS: Record<string, string> = {
+  email: 'email',
+  url: 'uri',
+  uuid: 'uuid',
+  datetime: 'date-time',
+  date: 'date',
+  time: 'time',
+  ip: 'ipv4',
+  ipv4: 'ipv4',
+  ipv6: 'ipv6',
+  base64: 'byte',
+};
+
+// Zod 4 format namespaces: z.iso.datetime(), z.coerce.number()
+const ZOD_NAMESPACES = ['coerce', 'iso'];
+
+interface StaticZodSchema {
+  schema: Record<string, any>;
+  optional?: boolean;
+}
+
+/**
+ * Convert a Zod validator to an OpenAPI schema - same contract as loadJoiSchemaFromValidator.
+ * Zod schemas are read from their source, so validator modules are never loaded.
+ * typeName is set when a `type X = z.infer<typeof schema>` names the schema.
+ */
+export async function loadZodSchemaFromValidator(
+  schemaRef: string,
+  routeFilePath?: string,
+  validatorsDir?: string
+): Promise<{ schema: any; typeName?: string } | null> {
+  if (!tsModule) {
+    console.log(`  ⚠️  TypeScript is required for Zod schema extraction of ${schemaRef}`);
+    return null;
+  }
+  const ts = tsModule;
+
+  try {
+    const candidates = await findValidatorExpressions(ts, schemaRef, routeFilePath, validatorsDir);
+    if (candidates.length === 0) {
+      console.log(`  ⚠️  Validator file not found for ${schemaRef}`);
+      return null;
+    }
+
+    for (const { scoped, location } of candidates) {
+      const schema = interpretZodExpression(ts, scoped.expr, scoped.sourceFile);
+      if (!schema) continue;
+
+      if (!location) {
+        console.log(`  ✅ Read inline Zod schema`);
+        return { schema };
+      }
+      console.log(`  ✅ Read Zod schema ${schemaRef} from ${path.relative(process.cwd(), location.filePath)}`);
+      const typeName = location.propertyPath.length === 1
+        ? findInferredTypeName(ts, location.filePath, location.propertyPath[0])
+        : undefined;
+      return { schema, ...(typeName ? { typeName } : {}) };
+    }
+
+    console.log(`  ⚠️  Could not read Zod schema ${schemaRef}`);
+    return null;
+  } catch (error) {
+    console.log(`  ⚠️  Error reading Zod schema for ${schemaRef}:`, (error as Error).message);
+    return null;
+  }
+}
+
+/**
+ * Whether a validator reference (or inline schema) is a Zod schema, for
+ * validator calls that don't name their library, e.g. validate(createUserSchema)
+ */
+export async function isZodValidator(schemaRef: string, routeFilePath?: string, validatorsDir?: string): Promise<boolean> {
+  if (!tsModule || !routeFilePath) return false;
+  const ts = tsModule;
+
+  try {
+    const candidates = await findValidatorExpressions(ts, schemaRef, routeFilePath, validatorsDir);
+    return candidates.some(({ scoped }) => isZodChain(ts, scoped, 0));
+  } catch (error) {
+    return false;
+  }
+}
+
+/**
+ * Interpret a Zod expression such as `z.object({ email: z.string().email() })`.
+ * Identifiers are resolved in sourceFile, which doesn't have to contain expr.
+ */
+export function interpretZodExpression(
+  ts: TypeScriptModule,
+  expr: import('typescript').Expression,
+  sourceFile: import('typescript').SourceFile
+): Record<string, any> | undefined {
+  return interpret(ts, { expr, sourceFile }, 0)?.schema;
+}
+
+/**
+ * The schema of a `type X = z.infer<typeof schema>` alias (also z.input / z.output),
+ * or undefined when the alias isn't inferred from a Zod schema
+ */
+export function extractZodInferredSchema(
+  ts: TypeScriptModule,
+  alias: import('typescript').TypeAliasDeclaration
+): Record<string, any> | undefined {
+  const schemaName = getInferredSchemaName(ts, alias.type);
+  if (!schemaName) return undefined;
+
+  const sourceFile = alias.getSourceFile();
+  const identifier = ts.factory.createIdentifier(schemaName);
+  const target = resolveReference(ts, { expr: identifier, sourceFile }, 0);
+  return target && interpretZodExpression(ts, target.expr, target.sourceFile);
+}
+
+/**
+ * Name of a type alias declared next to the schema as z.infer<typeof schema>
+ */
+function findInferredTypeName(ts: TypeScriptModule, filePath: string, exportName: string): string | undefined {
+  const resolved = resolveExport(ts, filePath, exportName);
+  if (!resolved || resolved.localName === '*' || resolved.localName === 'default') return undefined;
+
+  for (const statement of resolved.sourceFile.statements) {
+    if (ts.isTypeAliasDeclaration(statement) && getInferredSchemaName(ts, statement.type) === resolved.localName) {
+      return statement.name.text;
+    }
+  }
+  return undefined;
+}
+
+// The schema name in z.infer<typeof schema>, z.input<...>, z.output<...>
+function getInferredSchemaName(ts: TypeScriptModule, type: import('typescript').TypeNode): string | undefined {
+  if (!ts.isTypeReferenceNode(type) || !type.typeArguments || type.typeArguments.length !== 1) return undefined;
+
+  const typeName = ts.isQualifiedName(type.typeName) ? type.typeName.right.text : type.typeName.text;
+  if (!['infer', 'input', 'output', 'TypeOf', 'Infer'].includes(typeName)) return undefined;
+
+  const query = type.typeArguments[0];
+  return ts.isTypeQueryNode(query) && ts.isIdentifier(query.exprName) ? query.exprName.text : undefined;
+}
+
+function interpret(ts: TypeScriptModule, scoped: ScopedExpression, depth: number): StaticZodSchema | undefined {
+  if (depth > MAX_DEPTH) return undefined;
+
+  const expr = unwrap(ts, scoped.expr);
+  const { sourceFile } = scoped;
+
+  if (ts.isCallExpression(expr) && ts.isPropertyAccessExpression(expr.expression)) {
+    const method = expr.expression.name.text;
+    const receiver = expr.expression.expression;
+
+    // z.iso.datetime(), z.iso.date()
+    const unwrappedReceiver = unwrap(ts, receiver);
+    if (
+      ts.isPropertyAccessExpression(unwrappedReceiver) &&
+      unwrappedReceiver.name.text === 'iso' &&
+      isZodReference(ts, unwrappedReceiver.expression, sourceFile, depth)
+    ) {
+      return { schema: { type: 'string', ...(STRING_FORMATS[method] ? { format: STRING_FORMATS[method] } : {}) } };
+    }
+
+    // z.string(), z.object({...}), z.coerce.number()
+    if (isZodRoot(ts, receiver, sourceFile, depth)) {
+      return createRootSchema(ts, method, expr.arguments, sourceFile, depth);
+    }
+
+    // <schema>.optional(), <schema>.min(8), ...
+    const base = interpret(ts, { expr: receiver, sourceFile }, depth + 1);
+    return base && applyMethod(ts, base, method, expr.arguments, sourceFile, depth);
+  }
+
+  // A schema declared elsewhere: createUserSchema, userSchemas.create
+  if (ts.isIdentifier(expr) || ts.isPropertyAccessExpression(expr)) {
+    const target = resolveReference(ts, { expr, sourceFile }, depth);
+    return target && interpret(ts, target, depth + 1);
+  }
+
+  return undefined;
+}
+
+function createRootSchema(
+  ts: TypeScriptModule,
+  method: string,
+  args: readonly import('typescript').Expression[],
+  sourceFile: import('typescript').SourceFile,
+  depth: number
+): StaticZodSchema | undefined {
+  const result: StaticZodSchema = { schema: { ...(ZOD_TYPES[method] || {}) } };
+  const schema = result.schema;
+  const child = (index: number) => args[index] && interpret(ts, { expr: args[index], sourceFile }, depth + 1);
+  const childList = (index: number) => {
+    const list = args[index] && unwrap(ts, args[index]);
+    return list && ts.isArrayLiteralExpression(list)
+      ? list.elements
+        .map(element => interpret(ts, { expr: element, sourceFile }, depth + 1)?.schema)
+        .filter((item): item is Record<string, any> => !!item)
+      : [];
+  };
+
+  switch (method) {
+    case 'object':
+    case 'strictObject':
+    case 'looseObject':
+      return args[0] ? applyShape(ts, result, { expr: args[0], sourceFile }, depth) : result;
+    case 'array': {
+      const items = child(0);
+      if (items) schema.items = items.schema;
+      return result;
+    }
+    case 'record': {
+      const values = child(args.length > 1 ? 1 : 0);
+      if (values) schema.additionalProperties = values.schema;
+      return result;
+    }
+    case 'tuple': {
+      const items = childList(0);
+      if (items.length > 0) {
+        schema.items = items.length === 1 ? items[0] : { oneOf: items };
+        schema.minItems = items.length;
+        schema.maxItems = items.length;
+      }
+      return result;
+    }
+    case 'enum':
+    case 'nativeEnum': {
+      const values = evaluateEnumValues(ts, args[0], sourceFile, depth);
+      if (values.length > 0) {
+        schema.enum = values;
+        schema.type = values.every(value => typeof value === 'number') ? 'number' : 'string';
+      }
+      return result;
+    }
+    case 'literal': {
+      const values = evaluateLiteralList(ts, args, sourceFile, depth);
+      if (values.length > 0) {
+        schema.enum = values;
+        if (['string', 'number', 'boolean'].includes(typeof values[0])) schema.type = typeof values[0];
+      }
+      return result;
+    }
+    case 'union':
+    case 'discriminatedUnion': {
+      const options = childList(method === 'union' ? 0 : 1);
+      if (options.length > 0) schema.oneOf = options;
+      const discriminator = method === 'discriminatedUnion' && evaluateLiteral(ts, args[0], sourceFile, depth);
+      if (typeof discriminator === 'string') schema.discriminator = { propertyName: discriminator };
+      return result;
+    }
+    case 'intersection': {
+      const parts = [child(0), child(1)].filter((part): part is StaticZodSchema => !!part);
+      if (parts.length > 0) schema.allOf = parts.map(part => part.schema);
+      return result;
+    }
+    case 'optional':
+    case 'nullable':
+    case 'nullish': {
+      // z.optional(schema) is schema.optional()
+      const inner = child(0);
+      return inner && applyMethod(ts, inner, method, [], sourceFile, depth);
+    }
+    case 'lazy': {
+      // z.lazy(() => schema)
+      const getter = args[0] && unwrap(ts, args[0]);
+      if (getter && ts.isArrowFunction(getter) && !ts.isBlock(getter.body)) {
+        return interpret(ts, { expr: getter.body, sourceFile }, depth + 1);
+      }
+      return result;
+    }
+    default:
+      return ZOD_TYPES[method] ? result : undefined;
+  }
+}
+
+/**
+ * Apply a chained Zod method to a schema. Methods with no OpenAPI meaning
+ * (refine(), transform(), trim(), ...) leave the schema unchanged.
+ */
+function applyMethod(
+  ts: TypeScriptModule,
+  base: StaticZodSchema,
+  method: string,
+  args: readonly import('typescript').Expression[],
+  sourceFile: import('typescript').SourceFile,
+  depth: number
+): StaticZodSchema {
+  const result: StaticZodSchema = { ...base, schema: { ...base.schema } };
+  const schema = result.schema;
+  const literal = (index: number) => args[index] && evaluateLiteral(ts, args[index], sourceFile, depth);
+  const numberArg = typeof literal(0) === 'number' ? literal(0) as number : undefined;
+  const other = () => args[0] && interpret(ts, { expr: args[0], sourceFile }, depth + 1);
+
+  switch (method) {
+    case 'optional':
+      result.optional = true;
+      break;
+    case 'nullable':
+      schema.nullable = true;
+      break;
+    case 'nullish':
+      result.optional = true;
+      schema.nullable = true;
+      break;
+    case 'default': {
+      // Inputs with a default may be left out
+      const value = literal(0);
+      if (value !== undefined) schema.default = value;
+      result.optional = true;
+      break;
+    }
+    case 'describe': {
+      const description = literal(0);
+      if (typeof description === 'string') schema.description = description;
+      break;
+    }
+    case 'meta':
+    case 'openapi': {
+      // .meta({ description, example }) / zod-to-openapi's .openapi({ ... })
+      const metadata = literal(0);
+      if (metadata && typeof metadata === 'object' && !Array.isArray(metadata)) {
+        ['description', 'example', 'format', 'deprecated'].forEach(key => {
+          if (metadata[key] !== undefined) schema[key] = metadata[key];
+        });
+      }
+      break;
+    }
+    case 'int':
+      schema.type = 'integer';
+      break;
+    case 'positive':
+      Object.assign(schema, { minimum: 0, exclusiveMinimum: true });
+      break;
+    case 'nonnegative':
+      schema.minimum = 0;
+      break;
+    case 'negative':
+      Object.assign(schema, { maximum: 0, exclusiveMaximum: true });
+      break;
+    case 'nonpositive':
+      schema.maximum = 0;
+      break;
+    case 'gt':
+      if (numberArg !== undefined) Object.assign(schema, { minimum: numberArg, exclusiveMinimum: true });
+      break;
+    case 'lt':
+      if (numberArg !== undefined) Object.assign(schema, { maximum: numberArg, exclusiveMaximum: true });
+      break;
+    case 'gte':
+    case 'min':
+      if (numberArg !== undefined) applyLimit(schema, 'min', numberArg);
+      break;
+    case 'lte':
+    case 'max':
+      if (numberArg !== undefined) applyLimit(schema, 'max', numberArg);
+      break;
+    case 'length':
+      if (numberArg !== undefined) applyLimit(schema, 'length', numberArg);
+      break;
+    case 'nonempty':
+      applyLimit(schema, 'min', 1);
+      break;
+    case 'multipleOf':
+    case 'step':
+      if (numberArg !== undefined) schema.multipleOf = numberArg;
+      break;
+    case 'regex': {
+      const regex = args[0] && unwrap(ts, args[0]);
+      if (regex && ts.isRegularExpressionLiteral(regex)) {
+        schema.pattern = regex.text.slice(1, regex.text.lastIndexOf('/'));
+      }
+      break;
+    }
+    case 'extend':
+    case 'merge': {
+      // extend({ ... }) takes a shape, merge(other) another object schema
+      if (method === 'extend' && args[0]) return applyShape(ts, result, { expr: args[0], sourceFile }, depth);
+      const merged = other();
+      if (merged) return mergeObjectSchemas(result, merged);
+      break;
+    }
+    case 'pick':
+    case 'omit': {
+      const mask = literal(0);
+      if (mask && typeof mask === 'object' && schema.properties) {
+        const keep = (name: string) => (method === 'pick') === !!mask[name];
+        schema.properties = Object.fromEntries(Object.entries(schema.properties).filter(([name]) => keep(name)));
+        if (schema.required) schema.required = schema.required.filter(keep);
+        if (schema.required?.length === 0) delete schema.required;
+      }
+      break;
+    }
+    case 'partial':
+      delete schema.required;
+      break;
+    case 'required':
+      if (schema.properties) schema.required = Object.keys(schema.properties);
+      break;
+    case 'strict':
+      schema.additionalProperties = false;
+      break;
+    case 'passthrough':
+    case 'strip':
+      delete schema.additionalProperties;
+      break;
+    case 'catchall': {
+      const values = other();
+      if (values) schema.additionalProperties = values.schema;
+      break;
+    }
+    case 'array':
+      return { schema: { type: 'array', items: schema } };
+    case 'or': {
+      const alternative = other();
+      return alternative ? { schema: { oneOf: [schema, alternative.schema] } } : result;
+    }
+    case 'and': {
+      const part = other();
+      return part ? { schema: { allOf: [schema, part.schema] } } : result;
+    }
+    default:
+      if (STRING_FORMATS[method] && schema.type === 'string') {
+        schema.format = STRING_FORMATS[method];
+      }
+  }
+
+  return result;
+}
+
+function applyLimit(schema: Record<string, any>, method: 'min' | 'max' | 'length', limit: number) {
+  const keywords: Record<string, [string, string]> = {
+    string: ['minLength', 'maxLength'],
+    array: ['minItems', 'maxItems'],
+    object: ['minProperties', 'maxProperties'],
+  };
+  const [minKeyword, maxKeyword] = keywords[schema.type] || ['minimum', 'maximum'];
+
+  if (method !== 'max') schema[minKeyword] = limit;
+  if (method !== 'min') schema[maxKeyword] = limit;
+}
+
+/**
+ * Add the keys of a shape ({ email: z.string(), ...baseShape }) to an object schema.
+ * Keys are required unless their schema is optional.
+ */
+function applyShape(ts: TypeScriptModule, base: StaticZodSchema, shape: ScopedExpression, depth: number): StaticZodSchema {
+  const literal = resolveObjectLiteral(ts, shape, depth);
+  if (!literal) {
+    // z.object(otherSchema.shape)
+    const target = unwrap(ts, shape.expr);
+    if (ts.isPropertyAccessExpression(target) && target.name.text === 'shape') {
+      const other = interpret(ts, { expr: target.expression, sourceFile: shape.sourceFile }, depth + 1);
+      if (other) return mergeObjectSchemas(base, other);
+    }
+    return base;
+  }
+
+  const schema: Record<string, any> = { ...base.schema, type: 'object', properties: { ...(base.schema.properties || {}) } };
+  const required = new Set<string>(base.schema.required || []);
+
+  literal.expr.properties.forEach(property => {
+    if (ts.isSpreadAssignment(property)) {
+      const spread = applyShape(ts, { schema: {} }, { expr: property.expression, sourceFile: literal.sourceFile }, depth + 1);
+      Object.assign(schema.properties, spread.schema.properties || {});
+      (spread.schema.required || []).forEach((name: string) => required.add(name));
+      return;
+    }
+
+    const name = getPropertyName(ts, property);
+    if (!name) return;
+
+    const value = ts.isPropertyAssignment(property)
+      ? property.initializer
+      : ts.isShorthandPropertyAssignment(property)
+        ? property.name
+        : undefined;
+    const child = value && interpret(ts, { expr: value, sourceFile: literal.sourceFile }, depth + 1);
+    if (!child) return;
+
+    schema.properties[name] = child.schema;
+    if (child.optional) required.delete(name);
+    else required.add(name);
+  });
+
+  if (required.size > 0) schema.required = [...required];
+  else delete schema.required;
+
+  return { ...base, schema };
+}
+
+function mergeObjectSchemas(base: StaticZodSchema, other: StaticZodSchema): StaticZodSchema {
+  const schema = { ...base.schema, ...other.schema };
+  schema.properties = { ...(base.schema.properties || {}), ...(other.schema.properties || {}) };
+  const required = [...new Set([...(base.schema.required || []), ...(other.schema.required || [])])];
+  if (required.length > 0) schema.required = required;
+  else delete schema.required;
+
+  return { ...base, schema };
+}
+
+/**
+ * Whether an expression is z itself or one of its namespaces (z.coerce, z.iso)
+ */
+function isZodRoot(
+  ts: TypeScriptModule,
+  expr: import('typescript').Expression,
+  sourceFile: import('typescript').SourceFile,
+  depth: number
+): boolean {
+  const unwrapped = unwrap(ts, expr);
+  if (ts.isPropertyAccessExpression(unwrapped) && ZOD_NAMESPACES.includes(unwrapped.name.text)) {
+    return isZodReference(ts, unwrapped.expression, sourceFile, depth);
+  }
+  return isZodReference(ts, unwrapped, sourceFile, depth);
+}
+
+/**
+ * Whether an expression is the Zod module, imported directly or re-exported by a local module
+ */
+function isZodReference(
+  ts: TypeScriptModule,
+  expr: import('typescript').Expression,
+  sourceFile: import('typescript').SourceFile,
+  depth: number
+): boolean {
+  const unwrapped = unwrap(ts, expr);
+  if (!ts.isIdentifier(unwrapped)) return false;
+
+  const binding = findImportBinding(ts, sourceFile, unwrapped.text);
+  if (binding && ZOD_MODULES.includes(binding.specifier)) return true;
+
+  const resolved = resolveIdentifier(ts, sourceFile, unwrapped.text);
+  if (!resolved) return false;
+
+  // export const z = zod / import { z } from './zod' re-exporting it
+  const value = depth < MAX_DEPTH ? getDeclaredValue(ts, resolved) : undefined;
+  return !!value && ts.isIdentifier(unwrap(ts, value)) && isZodReference(ts, value, resolved.sourceFile, depth + 1);
+}
+
+/**
+ * Whether an expression is a method chain (or reference to one) that starts at z
+ */
+function isZodChain(ts: TypeScriptModule, scoped: ScopedExpression, depth: number): boolean {
+  if (depth > MAX_DEPTH) return false;
+  const expr = unwrap(ts, scoped.expr);
+
+  if (ts.isCallExpression(expr) && ts.isPropertyAccessExpression(expr.expression)) {
+    const receiver = expr.expression.expression;
+    return isZodRoot(ts, receiver, scoped.sourceFile, depth) ||
+      isZodChain(ts, { expr: receiver, sourceFile: scoped.sourceFile }, depth + 1);
+  }
+
+  if (ts.isIdentifier(expr) || ts.isPropertyAccessExpression(expr)) {
+    const target = resolveReference(ts, scoped, depth);
+    return !!target && isZodChain(ts, target, depth + 1);
+  }
+
+  return false;
+}
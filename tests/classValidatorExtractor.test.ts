@@ -0,0 +1,34 @@
+import * as path from 'path';
+import { isClassValidatorDto, loadClassValidatorSchema } from '../src/classValidatorExtractor';
+
+const routeFile = path.join(__dirname, 'fixtures', 'validators', 'routes.ts');
+
+describe('loadClassValidatorSchema', () => {
+  it('converts a DTO class and its nested DTOs into components', async () => {
+    expect(await loadClassValidatorSchema('CreateCustomerDto', routeFile)).toEqual({
+      schema: {
+        type: 'object',
+        properties: {
+          email: { type: 'string', format: 'email' },
+          name: { type: 'string', minLength: 2 },
+          age: { type: 'integer', minimum: 18 },
+          address: { $ref: '#/components/schemas/AddressDto' },
+        },
+        required: ['email', 'age', 'address'],
+      },
+      typeName: 'CreateCustomerDto',
+      components: {
+        AddressDto: {
+          type: 'object',
+          properties: { city: { type: 'string' } },
+          required: ['city'],
+        },
+      },
+    });
+  });
+
+  it('detects DTO classes only', () => {
+    expect(isClassValidatorDto('CreateCustomerDto', routeFile)).toBe(true);
+    expect(isClassValidatorDto('createUserSchema', routeFile)).toBe(false);
+  });
+});
@@ -0,0 +1,36 @@
+import * as path from 'path';
+import { loadExpressValidatorSchema } from '../src/expressValidatorExtractor';
+
+const routeFile = path.join(__dirname, 'fixtures', 'validators', 'routes.ts');
+
+describe('loadExpressValidatorSchema', () => {
+  it('converts validation chains of one request part', async () => {
+    const rules = "[body('email').isEmail(), body('password').isLength({ min: 8 })]";
+    expect(await loadExpressValidatorSchema(rules, 'body', routeFile)).toEqual({
+      schema: {
+        type: 'object',
+        properties: {
+          email: { type: 'string', format: 'email' },
+          password: { type: 'string', minLength: 8 },
+        },
+        required: ['email', 'password'],
+      },
+    });
+  });
+
+  it('leaves optional() fields out of required', async () => {
+    const result = await loadExpressValidatorSchema("query('invite').optional().isString()", 'query', routeFile);
+    expect(result?.schema).toEqual({ type: 'object', properties: { invite: { type: 'string' } } });
+  });
+
+  it('converts checkSchema() fields of the request part', async () => {
+    const rules = "checkSchema({ nickname: { in: ['body'], isString: true, isLength: { options: { max: 30 } } } })";
+    expect(await loadExpressValidatorSchema(rules, 'body', routeFile)).toEqual({
+      schema: {
+        type: 'object',
+        properties: { nickname: { type: 'string', maxLength: 30 } },
+        required: ['nickname'],
+      },
+    });
+  });
+});
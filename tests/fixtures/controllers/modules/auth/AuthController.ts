@@ -0,0 +1,8 @@
+import { Request, Response } from 'express';
+
+export class AuthController {
+  async login(req: Request, res: Response) {
+    const { email, password } = req.body;
+    res.status(200).json({ email, password });
+  }
+}
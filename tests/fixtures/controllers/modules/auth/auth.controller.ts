@@ -0,0 +1,3 @@
+import { AuthController } from './AuthController';
+
+export const authController = new AuthController();
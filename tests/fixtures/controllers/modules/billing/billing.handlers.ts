@@ -0,0 +1,6 @@
+import { Request, Response } from 'express';
+import { createInvoice } from './createInvoice';
+
+export const billingHandlers = {
+  create: createInvoice,
+};
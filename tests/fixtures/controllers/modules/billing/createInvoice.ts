@@ -0,0 +1,5 @@
+import { Request, Response } from 'express';
+
+export const createInvoice = async (req: Request, res: Response) => {
+  res.status(201).json(req.body);
+};
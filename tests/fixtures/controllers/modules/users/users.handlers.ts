@@ -0,0 +1,5 @@
+import { Request, Response } from 'express';
+
+export async function getUser(req: Request, res: Response) {
+  res.json({ id: req.params.id });
+}
@@ -0,0 +1,12 @@
+import { Router } from 'express';
+import { authController } from '../modules/auth';
+import * as users from '../modules/users/users.handlers';
+import { billingHandlers } from '../modules/billing/billing.handlers';
+
+const router = Router();
+
+router.post('/login', authController.login);
+router.get('/users/:id', users.getUser);
+router.post('/invoices', billingHandlers.create);
+
+export default router;
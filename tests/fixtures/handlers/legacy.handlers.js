@@ -0,0 +1,31 @@
+exports.resetPassword = async (req, res) => {
+  const { email } = req.body;
+  res.status(202).json({ email });
+};
+
+exports.profile = async (req, res) => {
+  res.status(301).json({ location: '/me' });
+};
+
+exports.getProfile = async (req, res) => {
+  res.status(200).json({ name: 'Ada' });
+};
+
+/**
+ * @param {Object} req.body
+ * @param {string} req.body.token
+ * @param {string} req.body.password
+ */
+exports.confirmReset = async (req, res) => {
+  res.status(204).end();
+};
+
+/**
+ * @param {Object} req.body
+ * @param {string} req.body.code
+ */
+const verifyEmail = async (req, res) => {
+  res.status(204).end();
+};
+
+exports.verifyEmail = verifyEmail;
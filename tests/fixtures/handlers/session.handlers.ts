@@ -0,0 +1,14 @@
+import { Request, Response, RequestHandler } from 'express';
+
+export async function login(req: Request, res: Response) {
+  const { email, password } = req.body;
+  if (!email || !password) {
+    return res.status(400).json({ message: 'Missing credentials' });
+  }
+  res.status(200).json({ token: 'token' });
+}
+
+export const refresh: RequestHandler = async (req, res) => {
+  const { refreshToken } = req.body;
+  res.status(201).json({ refreshToken });
+};
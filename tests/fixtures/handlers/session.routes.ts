@@ -0,0 +1,13 @@
+import { Router } from 'express';
+import { login, refresh } from './session.handlers';
+
+const router = Router();
+
+router.post('/login', login);
+router.post('/refresh', refresh);
+router.post('/logout', (req, res) => {
+  const { allDevices } = req.body;
+  res.status(204).json({ allDevices });
+});
+
+export default router;
@@ -0,0 +1,14 @@
+import { Request, Response } from 'express';
+import asyncHandler from 'express-async-handler';
+
+export const createOrder = asyncHandler(async (req: Request, res: Response) => {
+  const { productId, quantity } = req.body;
+  res.status(201).json({ productId, quantity });
+});
+
+async function cancelOrderImpl(req: Request, res: Response) {
+  const { reason } = req.body;
+  res.status(202).json({ reason });
+}
+
+export const cancelOrder = safeRoute(cancelOrderImpl);
@@ -0,0 +1,23 @@
+class AuthController {
+  /**
+   * @param {Object} req.body
+   * @param {string} req.body.email
+   * @param {string} req.body.password
+   * @param {boolean} [req.body.remember]
+   * @returns {Promise<LoginResponse>}
+   */
+  async login(req, res) {
+    const session = await createSession(req.body);
+    res.status(200).json(session);
+  }
+
+  /**
+   * @param {ProfileUpdate} req.body
+   */
+  async updateProfile(req, res) {
+    const profile = await saveProfile(req.user, req.body);
+    res.json(profile);
+  }
+}
+
+module.exports = new AuthController();
@@ -0,0 +1,9 @@
+exports.forgotPassword = async (req, res) => {
+  const { email } = req.body;
+  res.status(202).json({ email });
+};
+
+exports.resetPassword = async (req, res) => {
+  const { token, password } = req.body;
+  res.status(204).end();
+};
@@ -0,0 +1,9 @@
+const express = require('express');
+const authController = require('../controllers/authController');
+
+const router = express.Router();
+
+router.post('/login', authController.login);
+router.put('/profile', authenticate, authController.updateProfile);
+
+module.exports = router;
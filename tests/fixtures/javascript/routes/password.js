@@ -0,0 +1,9 @@
+const express = require('express');
+const passwordHandlers = require('../controllers/password.handlers');
+
+const router = express.Router();
+
+router.post('/password/forgot', passwordHandlers.forgotPassword);
+router.post('/password/reset', passwordHandlers.resetPassword);
+
+module.exports = router;
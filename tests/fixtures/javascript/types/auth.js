@@ -0,0 +1,13 @@
+/**
+ * @typedef {Object} LoginResponse
+ * @property {string} token
+ * @property {number} expiresIn
+ * @property {string} [refreshToken]
+ */
+
+/**
+ * @typedef {Object} ProfileUpdate
+ * @property {string} displayName
+ */
+
+module.exports = {};
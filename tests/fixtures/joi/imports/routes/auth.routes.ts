@@ -0,0 +1,16 @@
+import { Router } from 'express';
+import { loginSchema, profileSchema } from '../schemas/auth.schemas';
+import { authSchemas as schemas, signInSchema } from '../schemas';
+import { loginSchema as aliasedLoginSchema } from '@schemas/auth.schemas';
+import { paymentSchema } from '../schemas/payment.schemas';
+
+const router = Router();
+
+router.post('/login', validate(loginSchema), authController.login);
+router.post('/register', validate(schemas.register), authController.register);
+router.post('/sign-in', validate(signInSchema), authController.login);
+router.post('/v2/login', validate(aliasedLoginSchema), authController.login);
+router.put('/profile', validate(profileSchema), profileController.update);
+router.post('/payments', validate(paymentSchema), paymentsController.create);
+
+export default router;
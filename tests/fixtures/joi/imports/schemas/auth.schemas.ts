@@ -0,0 +1,17 @@
+import Joi from 'joi';
+
+export const loginSchema = Joi.object({
+  email: Joi.string().email().required(),
+  password: Joi.string().required(),
+});
+
+export const authSchemas = {
+  register: Joi.object({
+    email: Joi.string().email().required(),
+    displayName: Joi.string().max(50),
+  }),
+};
+
+export const profileSchema = Joi.object({
+  nickname: Joi.string().label('Nickname').description('Shown to other users'),
+}).meta({ ref: 'Profile' });
@@ -0,0 +1,2 @@
+export * from './auth.schemas';
+export { loginSchema as signInSchema } from './auth.schemas';
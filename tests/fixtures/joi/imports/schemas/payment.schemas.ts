@@ -0,0 +1,6 @@
+import Joi from 'joi';
+
+export const paymentSchema = Joi.object({
+  method: Joi.string().valid('card', 'bank').required(),
+  cardNumber: Joi.string().when('method', { is: 'card', then: Joi.required(), otherwise: Joi.forbidden() }),
+}).meta({ ref: 'Payment' });
@@ -0,0 +1,11 @@
+import Joi from 'joi';
+
+export const orderSchemas = {
+  list: Joi.object({
+    status: Joi.string().valid('open', 'closed').required(),
+    page: Joi.number().integer().min(1).description('Page number'),
+  }),
+  params: Joi.object({
+    orderId: Joi.string().uuid().description('Order id'),
+  }),
+};
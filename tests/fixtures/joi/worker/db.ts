@@ -0,0 +1,2 @@
+// Stands in for a module that connects to a database when it is loaded
+throw new Error('connect ECONNREFUSED 127.0.0.1:5432');
@@ -0,0 +1,5 @@
+import Joi from 'joi';
+
+process.exit(3);
+
+export const exitingSchema = Joi.object({ id: Joi.string() });
@@ -0,0 +1,9 @@
+import Joi from 'joi';
+
+// Blocks the event loop like a module waiting on a synchronous resource
+const start = Date.now();
+while (Date.now() - start < 30000) {
+  // busy wait
+}
+
+export const hangingSchema = Joi.object({ id: Joi.string() });
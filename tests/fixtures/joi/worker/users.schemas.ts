@@ -0,0 +1,9 @@
+import Joi from 'joi';
+import { db } from './db';
+
+export const userSchemas = {
+  create: Joi.object({
+    name: Joi.string().max(Number(process.env.MAX_NAME_LENGTH || 100)).required(),
+    tenant: Joi.string().valid(...db.tenants),
+  }),
+};
@@ -0,0 +1,9 @@
+import express from 'express';
+import routes from './routes';
+
+const app = express();
+
+app.use(helmet());
+app.use('/v2', routes);
+
+export default app;
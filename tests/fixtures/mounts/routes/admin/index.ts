@@ -0,0 +1,9 @@
+import { Router } from 'express';
+import * as reports from './reports';
+
+const router = Router();
+
+router.use(auditLog);
+router.use('/reports', reports.reportsRouter);
+
+export default router;
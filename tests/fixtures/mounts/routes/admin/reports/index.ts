@@ -0,0 +1 @@
+export { reportsRouter } from './reports.routes';
@@ -0,0 +1,5 @@
+import { Router } from 'express';
+
+export const reportsRouter = Router();
+
+reportsRouter.get('/daily', reportsController.daily);
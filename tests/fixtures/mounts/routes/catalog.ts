@@ -0,0 +1,7 @@
+import { Router } from 'express';
+
+export const publicRouter = Router();
+export const adminRouter = Router();
+
+publicRouter.get('/items', catalogController.list);
+adminRouter.delete('/items/:id', catalogController.remove);
@@ -0,0 +1,13 @@
+import { Router } from 'express';
+import { adminRouter as adminCatalogRouter, publicRouter } from './catalog';
+import ordersRouter from './orders';
+import adminRouter from './admin';
+
+const router = Router();
+
+router.use('/catalog', publicRouter);
+router.use('/admin/catalog', requireAdmin, adminCatalogRouter);
+router.use('/orders', authenticate, ordersRouter);
+router.use('/admin', [requireAdmin], adminRouter);
+
+export default router;
@@ -0,0 +1,7 @@
+import { Router } from 'express';
+
+const router = Router();
+
+router.get('/:orderId', ordersController.show);
+
+export default router;
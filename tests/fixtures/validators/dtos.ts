@@ -0,0 +1,25 @@
+import { IsEmail, IsInt, IsOptional, IsString, Min, MinLength, ValidateNested } from 'class-validator';
+import { Type } from 'class-transformer';
+
+export class AddressDto {
+  @IsString()
+  city!: string;
+}
+
+export class CreateCustomerDto {
+  @IsEmail()
+  email!: string;
+
+  @IsString()
+  @MinLength(2)
+  @IsOptional()
+  name?: string;
+
+  @IsInt()
+  @Min(18)
+  age!: number;
+
+  @ValidateNested()
+  @Type(() => AddressDto)
+  address!: AddressDto;
+}
@@ -0,0 +1,31 @@
+import { Router } from 'express';
+import { body, checkSchema, query } from 'express-validator';
+import { createUserSchema, listQuerySchema } from './zodSchemas';
+import { createPostSchema } from './yupSchemas';
+import { CreateProductSchema, refundSchema } from './typeboxSchemas';
+import { loginSchema } from '../joi/imports/schemas/auth.schemas';
+import { CreateCustomerDto } from './dtos';
+
+const router = Router();
+
+router.post('/users', zodMiddleware(createUserSchema), usersController.create);
+router.get('/users', validate(listQuerySchema, 'query'), usersController.list);
+router.post('/login', validate(loginSchema), authController.login);
+router.post('/posts', validate(createPostSchema), postsController.create);
+router.post('/products', validate(CreateProductSchema), productsController.create);
+router.post('/refunds', validate(refundSchema), refundsController.create);
+router.post('/customers', validateDto(CreateCustomerDto), customersController.create);
+router.post(
+  '/signup',
+  body('email').isEmail(),
+  body('password').isLength({ min: 8 }),
+  query('invite').optional().isString(),
+  signupController.create
+);
+router.put(
+  '/profile',
+  checkSchema({ nickname: { in: ['body'], isString: true, isLength: { options: { max: 30 } } } }),
+  profileController.update
+);
+
+export default router;
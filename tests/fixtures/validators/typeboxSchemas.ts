@@ -0,0 +1,16 @@
+import { Type } from '@sinclair/typebox';
+
+export const CreateProductSchema = Type.Object({
+  sku: Type.String({ pattern: '^[A-Z0-9-]+$' }),
+  price: Type.Number({ minimum: 0 }),
+  tags: Type.Optional(Type.Array(Type.String())),
+});
+
+export const refundSchema = {
+  type: 'object',
+  properties: {
+    amount: { type: 'number', exclusiveMinimum: 0 },
+    reason: { type: 'string' },
+  },
+  required: ['amount'],
+} as const;
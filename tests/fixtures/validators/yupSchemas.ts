@@ -0,0 +1,8 @@
+import * as yup from 'yup';
+
+export const createPostSchema = yup.object({
+  title: yup.string().required().max(120),
+  body: yup.string(),
+  tags: yup.array().of(yup.string()).min(1),
+  status: yup.mixed().oneOf(['draft', 'published']),
+});
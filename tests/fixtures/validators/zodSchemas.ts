@@ -0,0 +1,14 @@
+import { z } from 'zod';
+
+export const createUserSchema = z.object({
+  email: z.string().email(),
+  name: z.string().min(2).max(50).optional(),
+  role: z.enum(['user', 'admin']).default('user'),
+  age: z.number().int().positive().nullable(),
+});
+
+export type CreateUserInput = z.infer<typeof createUserSchema>;
+
+export const listQuerySchema = z.object({
+  page: z.coerce.number().int().min(1).default(1),
+});
@@ -0,0 +1,43 @@
+import { generateSwaggerEndpoint } from '../src/generator';
+import { RouteInfo } from '../src/types';
+
+describe('generateSwaggerEndpoint validator parameters', () => {
+  const route: RouteInfo = {
+    method: 'GET',
+    path: '/orders/{orderId}/items',
+    handlerName: 'orders.items',
+    controllerMethod: 'items',
+    hasAuth: false,
+    middleware: ["validate(orderSchemas.list, 'query')", "validate(orderSchemas.params, 'params')"],
+    validators: [
+      { segment: 'query', schemaRef: 'orderSchemas.list' },
+      { segment: 'params', schemaRef: 'orderSchemas.params' },
+    ],
+    pathParameters: [{ name: 'orderId' }],
+  };
+
+  it('documents query and path validators as parameters', async () => {
+    const endpoint = eval(
+      `(${await generateSwaggerEndpoint(route, undefined, undefined, { validatorsDir: 'tests/fixtures/joi/schemas' })})`
+    );
+
+    expect(endpoint.requestBody).toBeUndefined();
+    expect(endpoint.parameters).toEqual([
+      {
+        name: 'orderId',
+        in: 'path',
+        required: true,
+        schema: { type: 'string', format: 'uuid' },
+        description: 'Order id',
+      },
+      { name: 'status', in: 'query', required: true, schema: { type: 'string', enum: ['open', 'closed'] } },
+      {
+        name: 'page',
+        in: 'query',
+        required: false,
+        schema: { type: 'integer', minimum: 1 },
+        description: 'Page number',
+      },
+    ]);
+  });
+});
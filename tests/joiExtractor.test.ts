@@ -0,0 +1,277 @@
+import * as path from 'path';
+import Joi from 'joi';
+import { convertJoiSchema, loadJoiSchemaFromValidator } from '../src/joiExtractor';
+import { loadJoiSchemaInWorker } from '../src/joiWorker';
+import { JoiWorkerOptions } from '../src/types';
+
+const fixturesDir = path.join(__dirname, 'fixtures', 'joi', 'imports');
+const routeFile = path.join(fixturesDir, 'routes', 'auth.routes.ts');
+
+describe('convertJoiSchema', () => {
+  it('converts a Joi schema with its metadata', () => {
+    const schema = Joi.object({
+      name: Joi.string().max(50).required().label('Name').description('Display name').note('Shown to other users'),
+      role: Joi.string().valid('user', 'admin').meta({ 'x-internal': true }),
+      tags: Joi.array().items(Joi.string().label('Tag')),
+    });
+
+    expect(convertJoiSchema(schema)).toEqual({
+      schema: {
+        type: 'object',
+        properties: {
+          name: {
+            type: 'string',
+            maxLength: 50,
+            title: 'Name',
+            description: 'Display name\n\nShown to other users',
+          },
+          role: { type: 'string', enum: ['user', 'admin'], 'x-internal': true },
+          tags: { type: 'array', items: { type: 'string', title: 'Tag' } },
+        },
+        required: ['name'],
+        additionalProperties: false,
+      },
+    });
+  });
+
+  it('turns id() and meta({ ref }) schemas into components', () => {
+    const address = Joi.object({ city: Joi.string() }).id('Address');
+    const result = convertJoiSchema(Joi.object({ address }).meta({ ref: 'Customer' }));
+
+    expect(result.typeName).toBe('Customer');
+    expect(result.schema.properties.address).toEqual({ $ref: '#/components/schemas/Address' });
+    expect(result.components?.Address).toMatchObject({ type: 'object', properties: { city: { type: 'string' } } });
+  });
+
+  it('splits an object on a when() condition into discriminated variants', () => {
+    const schema = Joi.object({
+      method: Joi.string().valid('card', 'bank').required(),
+      cardNumber: Joi.string().when('method', { is: 'card', then: Joi.required(), otherwise: Joi.forbidden() }),
+    });
+
+    const { schema: converted } = convertJoiSchema(schema);
+    expect(converted.discriminator).toEqual({ propertyName: 'method' });
+    expect(converted.oneOf).toHaveLength(2);
+    expect(converted.oneOf[0].properties.method.enum).toEqual(['card']);
+    expect(converted.oneOf[0].required).toEqual(['method', 'cardNumber']);
+    expect(converted.oneOf[1].properties.method.enum).toEqual(['bank']);
+    expect(converted.oneOf[1].properties.cardNumber).toBeUndefined();
+  });
+
+  it('turns alternatives().conditional() on the schema itself into a oneOf', () => {
+    const schema = Joi.alternatives().conditional('.type', {
+      is: 'person',
+      then: Joi.object({ type: Joi.string(), name: Joi.string().label('Full name') }),
+      otherwise: Joi.object({ type: Joi.string(), company: Joi.string() }),
+    });
+
+    const { schema: converted } = convertJoiSchema(schema);
+    expect(converted.type).toBeUndefined();
+    expect(converted.discriminator).toEqual({ propertyName: 'type' });
+    expect(converted.oneOf[0].properties).toMatchObject({
+      type: { enum: ['person'] },
+      name: { type: 'string', title: 'Full name' },
+    });
+    expect(converted.oneOf[1].properties).toMatchObject({
+      type: { not: { enum: ['person'] } },
+      company: { type: 'string' },
+    });
+  });
+
+  it('rejects values that are not Joi schemas', () => {
+    expect(() => convertJoiSchema({})).toThrow('Not a Joi schema');
+  });
+
+  it('only fails conversion when joi-to-json cannot be loaded', () => {
+    jest.isolateModules(() => {
+      jest.doMock('joi-to-json', () => {
+        throw new Error('Cannot find module');
+      });
+
+      // eslint-disable-next-line @typescript-eslint/no-var-requires
+      const isolated = require('../src/joiExtractor');
+      expect(() => isolated.convertJoiSchema(Joi.string())).toThrow('joi-to-json could not be loaded');
+    });
+    jest.dontMock('joi-to-json');
+  });
+});
+
+describe('loadJoiSchemaFromValidator', () => {
+  it('follows the route file import of a schema', async () => {
+    const result = await loadJoiSchemaFromValidator('loginSchema', routeFile);
+
+    expect(result?.schema).toMatchObject({
+      type: 'object',
+      properties: { email: { type: 'string', format: 'email' }, password: { type: 'string' } },
+      required: ['email', 'password'],
+    });
+  });
+
+  it('follows aliased imports of a schema group', async () => {
+    const result = await loadJoiSchemaFromValidator('schemas.register', routeFile);
+
+    expect(Object.keys(result?.schema.properties)).toEqual(['email', 'displayName']);
+  });
+
+  it('follows renamed re-exports in barrel files', async () => {
+    const result = await loadJoiSchemaFromValidator('signInSchema', routeFile);
+
+    expect(Object.keys(result?.schema.properties)).toEqual(['email', 'password']);
+  });
+
+  it('resolves tsconfig path aliases of the documented project', async () => {
+    jest.spyOn(process, 'cwd').mockReturnValue(fixturesDir);
+
+    let isolated: typeof import('../src/joiExtractor') | undefined;
+    jest.isolateModules(() => {
+      isolated = require('../src/joiExtractor');
+    });
+    const result = await isolated!.loadJoiSchemaFromValidator('aliasedLoginSchema', routeFile);
+
+    expect(Object.keys(result?.schema.properties)).toEqual(['email', 'password']);
+  });
+
+  it('names the schema after its meta({ ref })', async () => {
+    const result = await loadJoiSchemaFromValidator('profileSchema', routeFile);
+
+    expect(result?.typeName).toBe('Profile');
+    expect(result?.schema.properties.nickname).toEqual({
+      type: 'string',
+      title: 'Nickname',
+      description: 'Shown to other users',
+    });
+  });
+
+  it('returns null for references it cannot load', async () => {
+    expect(await loadJoiSchemaFromValidator('missingSchema', routeFile)).toBeNull();
+    expect(await loadJoiSchemaFromValidator('Joi.object({ id: Joi.string() })', routeFile)).toBeNull();
+  });
+});
+
+describe('loadJoiSchemaFromValidator (static mode)', () => {
+  it('reads an imported schema without loading its module', async () => {
+    const result = await loadJoiSchemaFromValidator('loginSchema', routeFile, undefined, { joiMode: 'static' });
+
+    expect(result?.schema).toMatchObject({
+      type: 'object',
+      properties: { email: { type: 'string', format: 'email' }, password: { type: 'string' } },
+      required: ['email', 'password'],
+    });
+  });
+
+  it('reads schema groups through barrel files', async () => {
+    const result = await loadJoiSchemaFromValidator('schemas.register', routeFile, undefined, { joiMode: 'static' });
+
+    expect(result?.schema.properties).toEqual({
+      email: { type: 'string', format: 'email' },
+      displayName: { type: 'string', maxLength: 50 },
+    });
+  });
+
+  it('reads labels, descriptions and component names', async () => {
+    const result = await loadJoiSchemaFromValidator('profileSchema', routeFile, undefined, { joiMode: 'static' });
+
+    expect(result?.typeName).toBe('Profile');
+    expect(result?.schema.properties.nickname).toEqual({
+      type: 'string',
+      title: 'Nickname',
+      description: 'Shown to other users',
+    });
+  });
+
+  it('reads when() conditions as discriminated variants', async () => {
+    const result = await loadJoiSchemaFromValidator('paymentSchema', routeFile, undefined, { joiMode: 'static' });
+
+    expect(result?.typeName).toBe('Payment');
+    expect(result?.schema.discriminator).toEqual({ propertyName: 'method' });
+    expect(result?.schema.oneOf.map((variant: any) => variant.required)).toEqual([['method', 'cardNumber'], ['method']]);
+  });
+
+  it('reads plain-object celebrate segments as Joi.object()', async () => {
+    const result = await loadJoiSchemaFromValidator(
+      '{ expand: Joi.boolean(), page: Joi.number().integer().min(1) }',
+      routeFile,
+      undefined,
+      { joiMode: 'static' }
+    );
+
+    expect(result?.schema).toEqual({
+      type: 'object',
+      properties: {
+        expand: { type: 'boolean' },
+        page: { type: 'integer', minimum: 1 },
+      },
+      additionalProperties: false,
+    });
+  });
+
+  it('closes objects unless they allow unknown keys', async () => {
+    const load = (source: string) => loadJoiSchemaFromValidator(source, routeFile, undefined, { joiMode: 'static' });
+
+    expect((await load('Joi.object({ q: Joi.string() })'))?.schema.additionalProperties).toBe(false);
+    expect((await load('Joi.object({ q: Joi.string() }).unknown()'))?.schema).not.toHaveProperty('additionalProperties');
+    expect((await load('Joi.object({ q: Joi.string() }).unknown(true)'))?.schema).not.toHaveProperty('additionalProperties');
+    expect((await load('Joi.object({ q: Joi.string() }).unknown(false)'))?.schema.additionalProperties).toBe(false);
+    expect((await load('Joi.object().pattern(/^x-/, Joi.string())'))?.schema.additionalProperties).toEqual({ type: 'string' });
+  });
+
+  it('reads inline schemas', async () => {
+    const result = await loadJoiSchemaFromValidator(
+      'Joi.object({ page: Joi.number().integer().min(1).default(1) })',
+      routeFile,
+      undefined,
+      { joiMode: 'static' }
+    );
+
+    expect(result?.schema.properties).toEqual({ page: { type: 'integer', minimum: 1, default: 1 } });
+  });
+});
+
+describe('loadJoiSchemaFromValidator (isolated mode)', () => {
+  const workerFixtures = path.join(__dirname, 'fixtures', 'joi', 'worker');
+  const loadFrom = (schemaRef: string, fileName: string, joiWorker: JoiWorkerOptions = {}) =>
+    loadJoiSchemaInWorker(schemaRef, [{ filePath: path.join(workerFixtures, fileName), propertyPaths: [schemaRef.split('.')] }], {
+      timeout: 20000,
+      ...joiWorker,
+    });
+
+  it('loads and converts the schema in a child process', async () => {
+    const result = await loadJoiSchemaFromValidator('loginSchema', routeFile, undefined, {
+      joiMode: 'isolated',
+      joiWorker: { timeout: 20000 },
+    });
+
+    expect(Object.keys(result?.schema.properties)).toEqual(['email', 'password']);
+  }, 30000);
+
+  it('applies module stubs and environment variables', async () => {
+    const result = await loadFrom('userSchemas.create', 'users.schemas.ts', {
+      stubs: { './tests/fixtures/joi/worker/db': { db: { tenants: ['acme', 'globex'] } } },
+      env: { MAX_NAME_LENGTH: '40' },
+    });
+
+    expect(result?.schema.properties).toEqual({
+      name: { type: 'string', maxLength: 40 },
+      tenant: { type: 'string', enum: ['acme', 'globex'] },
+    });
+  }, 30000);
+
+  it('fails the schema when the module throws', async () => {
+    expect(await loadFrom('userSchemas.create', 'users.schemas.ts')).toBeNull();
+    expect(console.log).toHaveBeenCalledWith(
+      '  ⚠️  Validator worker failed for userSchemas.create: schema not found'
+    );
+  }, 30000);
+
+  it('fails the schema when the module exits the process', async () => {
+    expect(await loadFrom('exitingSchema', 'exits.schemas.ts')).toBeNull();
+    expect(console.log).toHaveBeenCalledWith(expect.stringContaining('worker exited (code 3)'));
+  }, 30000);
+
+  it('stops a module that does not load within the timeout', async () => {
+    expect(await loadFrom('hangingSchema', 'hangs.schemas.ts', { timeout: 3000 })).toBeNull();
+    expect(console.log).toHaveBeenCalledWith(
+      '  ⚠️  Validator worker failed for hangingSchema: timed out after 3000ms'
+    );
+  }, 30000);
+});
@@ -0,0 +1,39 @@
+import * as path from 'path';
+import { isJsonSchemaValidator, loadJsonSchemaFromValidator } from '../src/jsonSchemaExtractor';
+
+const routeFile = path.join(__dirname, 'fixtures', 'validators', 'routes.ts');
+
+describe('loadJsonSchemaFromValidator', () => {
+  it('converts a TypeBox schema', async () => {
+    expect(await loadJsonSchemaFromValidator('CreateProductSchema', routeFile)).toEqual({
+      schema: {
+        type: 'object',
+        properties: {
+          sku: { type: 'string', pattern: '^[A-Z0-9-]+$' },
+          price: { type: 'number', minimum: 0 },
+          tags: { type: 'array', items: { type: 'string' } },
+        },
+        required: ['sku', 'price'],
+      },
+    });
+  });
+
+  it('converts a plain JSON Schema object to OpenAPI 3.0', async () => {
+    expect(await loadJsonSchemaFromValidator('refundSchema', routeFile)).toEqual({
+      schema: {
+        type: 'object',
+        properties: {
+          amount: { type: 'number', minimum: 0, exclusiveMinimum: true },
+          reason: { type: 'string' },
+        },
+        required: ['amount'],
+      },
+    });
+  });
+
+  it('detects TypeBox and JSON Schema objects only', async () => {
+    expect(await isJsonSchemaValidator('CreateProductSchema', routeFile)).toBe(true);
+    expect(await isJsonSchemaValidator('refundSchema', routeFile)).toBe(true);
+    expect(await isJsonSchemaValidator('createUserSchema', routeFile)).toBe(false);
+  });
+});
@@ -0,0 +1,36 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { extractRoutes } from '../src/parser';
+
+const fixturesDir = path.join(__dirname, 'fixtures');
+
+const handlerLocations = (routeFile: string) =>
+  extractRoutes(fs.readFileSync(routeFile, 'utf-8'), '', routeFile, undefined, { expressVersion: 4 }).map(route => [
+    route.handlerName,
+    route.handlerLocation && path.relative(fixturesDir, route.handlerLocation.filePath),
+    route.handlerLocation?.name,
+  ]);
+
+describe('handler resolution through imports', () => {
+  it('follows barrels, namespace imports and controller objects to the implementing file', () => {
+    expect(handlerLocations(path.join(fixturesDir, 'controllers', 'routes', 'app.routes.ts'))).toEqual([
+      ['authController.login', path.join('controllers', 'modules', 'auth', 'AuthController.ts'), 'login'],
+      ['users.getUser', path.join('controllers', 'modules', 'users', 'users.handlers.ts'), 'getUser'],
+      ['billingHandlers.create', path.join('controllers', 'modules', 'billing', 'createInvoice.ts'), 'createInvoice'],
+    ]);
+  });
+
+  it('follows require() of a module exporting a controller instance', () => {
+    expect(handlerLocations(path.join(fixturesDir, 'javascript', 'routes', 'auth.js'))).toEqual([
+      ['authController.login', path.join('javascript', 'controllers', 'authController.js'), 'login'],
+      ['authController.updateProfile', path.join('javascript', 'controllers', 'authController.js'), 'updateProfile'],
+    ]);
+  });
+
+  it('treats require() of a module that only assigns exports.x as its namespace', () => {
+    expect(handlerLocations(path.join(fixturesDir, 'javascript', 'routes', 'password.js'))).toEqual([
+      ['passwordHandlers.forgotPassword', path.join('javascript', 'controllers', 'password.handlers.js'), 'forgotPassword'],
+      ['passwordHandlers.resetPassword', path.join('javascript', 'controllers', 'password.handlers.js'), 'resetPassword'],
+    ]);
+  });
+});
@@ -0,0 +1,65 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { resolveRouterMounts } from '../src/mountResolver';
+import { extractRoutes } from '../src/parser';
+
+const routesDir = path.join(__dirname, 'fixtures', 'mounts', 'routes');
+
+describe('resolveRouterMounts', () => {
+  it('follows use() calls from the routes index to the mounted files', async () => {
+    const mounts = await resolveRouterMounts(path.relative(process.cwd(), routesDir), '/api');
+
+    expect(mounts?.get(path.join(routesDir, 'index.ts'))).toEqual([{ basePath: '/api', middleware: [] }]);
+    expect(mounts?.get(path.join(routesDir, 'orders.ts'))).toEqual([
+      { basePath: '/api/orders', middleware: ['authenticate'], router: 'router' },
+    ]);
+  });
+
+  it('passes the middleware of each mount site on to the mounted router', async () => {
+    const mounts = await resolveRouterMounts(path.relative(process.cwd(), routesDir), '/api');
+
+    expect(mounts?.get(path.join(routesDir, 'admin', 'index.ts'))).toEqual([
+      { basePath: '/api/admin', middleware: ['requireAdmin'], router: 'router' },
+    ]);
+  });
+
+  it('follows namespace imports and re-exports of nested routers', async () => {
+    const mounts = await resolveRouterMounts(path.relative(process.cwd(), routesDir), '/api');
+
+    expect(mounts?.get(path.join(routesDir, 'admin', 'reports', 'reports.routes.ts'))).toEqual([
+      { basePath: '/api/admin/reports', middleware: ['requireAdmin', 'auditLog'], router: 'reportsRouter' },
+    ]);
+  });
+
+  it('starts from the app entry when one is given', async () => {
+    const mounts = await resolveRouterMounts(
+      path.relative(process.cwd(), routesDir),
+      '/api',
+      path.relative(process.cwd(), path.join(routesDir, '..', 'app.ts'))
+    );
+
+    expect(mounts?.get(path.join(routesDir, 'orders.ts'))).toEqual([
+      { basePath: '/v2/orders', middleware: ['helmet()', 'authenticate'], router: 'router' },
+    ]);
+  });
+
+  it('keeps a mount per router of a file exporting several', async () => {
+    const mounts = await resolveRouterMounts(path.relative(process.cwd(), routesDir), '/api');
+    const catalogFile = path.join(routesDir, 'catalog.ts');
+    const catalogMounts = mounts?.get(catalogFile) || [];
+
+    expect(catalogMounts).toEqual([
+      { basePath: '/api/catalog', middleware: [], router: 'publicRouter' },
+      { basePath: '/api/admin/catalog', middleware: ['requireAdmin'], router: 'adminRouter' },
+    ]);
+
+    const content = fs.readFileSync(catalogFile, 'utf-8');
+    const routes = catalogMounts.flatMap(mount =>
+      extractRoutes(content, mount.basePath, catalogFile, undefined, {}, mount.middleware, mount.router)
+    );
+    expect(routes.map(route => `${route.method} ${route.path}`)).toEqual([
+      'GET /api/catalog/items',
+      'DELETE /api/admin/catalog/items/{id}',
+    ]);
+  });
+});
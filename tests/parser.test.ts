@@ -0,0 +1,154 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { analyzeControllerMethod, extractRoutes } from '../src/parser';
+
+const fixturesDir = path.join(__dirname, 'fixtures', 'javascript');
+const controllerFile = path.join(fixturesDir, 'controllers', 'authController.js');
+const controllerContent = fs.readFileSync(controllerFile, 'utf-8');
+
+describe('extractRoutes', () => {
+  it('reads routes from a CommonJS route file', () => {
+    const routeFile = path.join(fixturesDir, 'routes', 'auth.js');
+    const routes = extractRoutes(fs.readFileSync(routeFile, 'utf-8'), '/auth', routeFile, undefined, { expressVersion: 4 });
+
+    expect(routes.map(route => [route.method, route.path, route.handlerName, route.hasAuth])).toEqual([
+      ['POST', '/auth/login', 'authController.login', false],
+      ['PUT', '/auth/profile', 'authController.updateProfile', true],
+    ]);
+  });
+});
+
+describe('extractRoutes (regex fallback)', () => {
+  // Without TypeScript installed only the regex scanner is available
+  let extractWithRegex: typeof extractRoutes;
+  beforeAll(() => {
+    jest.isolateModules(() => {
+      jest.doMock('typescript', () => {
+        throw new Error('Cannot find module');
+      });
+      extractWithRegex = require('../src/parser').extractRoutes;
+    });
+    jest.dontMock('typescript');
+  });
+
+  it('finds routes on routers and apps under any name', () => {
+    const code = `
+      import express, { Router as createRouter } from 'express';
+      const app = express();
+      const orders = createRouter();
+      class UserRoutes {
+        router = express.Router();
+        init() {
+          this.router.get('/users', users.list);
+        }
+      }
+      app.get('/health', health.check);
+      orders.post('/orders', authenticate, orders.create);
+      cache.get('/not-a-route', noop);
+    `;
+
+    const routes = extractWithRegex(code, '', undefined, undefined, { expressVersion: 4 });
+    expect(routes.map(route => `${route.method} ${route.path}`)).toEqual([
+      'GET /users',
+      'GET /health',
+      'POST /orders',
+    ]);
+  });
+});
+
+describe('analyzeControllerMethod', () => {
+  const typeNames = new Set(['LoginResponse', 'ProfileUpdate']);
+
+  it('reads request body fields and the response type from JSDoc', () => {
+    const info = analyzeControllerMethod(controllerContent, 'login', controllerFile, typeNames);
+
+    expect(info.requestBodyFields).toEqual([
+      { name: 'email', type: 'string', required: true },
+      { name: 'password', type: 'string', required: true },
+      { name: 'remember', type: 'boolean', required: false },
+    ]);
+    expect(info.responseTypesByStatus?.get(200)).toBe('LoginResponse');
+  });
+
+  it('reads a named request body type from JSDoc', () => {
+    const info = analyzeControllerMethod(controllerContent, 'updateProfile', controllerFile, typeNames);
+
+    expect(info.requestBodyTypeName).toBe('ProfileUpdate');
+    expect(info.requestBodyFields).toEqual([]);
+  });
+
+  it('ignores JSDoc types that are not known schemas', () => {
+    const info = analyzeControllerMethod(controllerContent, 'updateProfile', controllerFile, new Set());
+
+    expect(info.requestBodyTypeName).toBeUndefined();
+  });
+});
+
+describe('analyzeControllerMethod (standalone and inline handlers)', () => {
+  const handlersDir = path.join(__dirname, 'fixtures', 'handlers');
+  const analyze = (fileName: string, name: string, position?: number) => {
+    const filePath = path.join(handlersDir, fileName);
+    return analyzeControllerMethod(fs.readFileSync(filePath, 'utf-8'), name, filePath, undefined, position);
+  };
+
+  it('analyzes exported functions', () => {
+    const info = analyze('session.handlers.ts', 'login');
+
+    expect(info.requestBodyFields?.map(field => field.name)).toEqual(['email', 'password']);
+    expect(info.statusCodes).toEqual([400, 200]);
+  });
+
+  it('analyzes arrow functions assigned to a variable or to exports', () => {
+    expect(analyze('session.handlers.ts', 'refresh').statusCodes).toEqual([201]);
+    expect(analyze('legacy.handlers.js', 'resetPassword').requestBodyFields?.map(field => field.name)).toEqual(['email']);
+  });
+
+  it('reads the JSDoc of arrow function handlers once', () => {
+    expect(analyze('legacy.handlers.js', 'confirmReset').requestBodyFields).toEqual([
+      { name: 'token', type: 'string', required: true },
+      { name: 'password', type: 'string', required: true },
+    ]);
+    expect(analyze('legacy.handlers.js', 'verifyEmail').requestBodyFields).toEqual([
+      { name: 'code', type: 'string', required: true },
+    ]);
+  });
+
+  it('prefers the handler declared under the exact name', () => {
+    expect(analyze('legacy.handlers.js', 'getProfile').statusCodes).toEqual([200]);
+    expect(analyze('legacy.handlers.js', 'profile').statusCodes).toEqual([301]);
+  });
+
+  it('analyzes inline handlers found at their position in the route file', () => {
+    const routeFile = path.join(handlersDir, 'session.routes.ts');
+    const routes = extractRoutes(fs.readFileSync(routeFile, 'utf-8'), '', routeFile, undefined, { expressVersion: 4 });
+    const logout = routes.find(route => route.path === '/logout')!;
+
+    expect(logout.handlerLocation).toMatchObject({ filePath: routeFile });
+    const info = analyze('session.routes.ts', logout.handlerLocation!.name, logout.handlerLocation!.position);
+    expect(info.requestBodyFields?.map(field => field.name)).toEqual(['allDevices']);
+    expect(info.statusCodes).toEqual([204]);
+  });
+});
+
+describe('analyzeControllerMethod (wrapped handlers)', () => {
+  const filePath = path.join(__dirname, 'fixtures', 'handlers', 'wrapped.handlers.ts');
+  const content = fs.readFileSync(filePath, 'utf-8');
+
+  it('analyzes the function inside a handler wrapper', () => {
+    const info = analyzeControllerMethod(content, 'createOrder', filePath);
+
+    expect(info.requestBodyFields?.map(field => field.name)).toEqual(['productId', 'quantity']);
+    expect(info.statusCodes).toEqual([201]);
+  });
+
+  it('follows a wrapper to an implementation declared elsewhere in the file', () => {
+    const info = analyzeControllerMethod(content, 'cancelOrder', filePath, undefined, undefined, [
+      'asyncHandler',
+      'safeRoute',
+    ]);
+
+    expect(info.requestBodyFields?.map(field => field.name)).toEqual(['reason']);
+    expect(info.statusCodes).toEqual([202]);
+  });
+});
+
@@ -0,0 +1,92 @@
+import { convertExpressPath, regexToExpressPaths, resolveExpressVersion } from '../src/pathConverter';
+
+describe('convertExpressPath', () => {
+  describe('Express 4', () => {
+    it('converts named parameters', () => {
+      expect(convertExpressPath('/users/:id/posts/:postId')).toEqual([
+        { path: '/users/{id}/posts/{postId}', parameters: [{ name: 'id' }, { name: 'postId' }] },
+      ]);
+    });
+
+    it('keeps inline regex constraints as parameter patterns', () => {
+      expect(convertExpressPath('/users/:id(\\d+)')).toEqual([
+        { path: '/users/{id}', parameters: [{ name: 'id', pattern: '^\\d+$' }] },
+      ]);
+    });
+
+    it('documents optional parameters with and without their segment', () => {
+      expect(convertExpressPath('/posts/:year/:month?').map(converted => converted.path)).toEqual([
+        '/posts/{year}/{month}',
+        '/posts/{year}',
+      ]);
+    });
+
+    it('splits parameters sharing a segment', () => {
+      expect(convertExpressPath('/flights/:from-:to')[0].path).toBe('/flights/{from}-{to}');
+    });
+
+    it('turns wildcards into parameters', () => {
+      expect(convertExpressPath('/files/*')).toEqual([
+        { path: '/files/{wildcard}', parameters: [{ name: 'wildcard', description: 'Wildcard path segment(s)' }] },
+      ]);
+    });
+  });
+
+  describe('Express 5', () => {
+    it('converts named and quoted parameters', () => {
+      expect(convertExpressPath('/users/:id/:"file name"', 5)[0]).toEqual({
+        path: '/users/{id}/{file name}',
+        parameters: [{ name: 'id' }, { name: 'file name' }],
+      });
+    });
+
+    it('expands nested optional groups', () => {
+      expect(convertExpressPath('/users{/:id{.:format}}', 5).map(converted => converted.path)).toEqual([
+        '/users/{id}.{format}',
+        '/users/{id}',
+        '/users',
+      ]);
+    });
+
+    it('turns named wildcards into parameters', () => {
+      expect(convertExpressPath('/files/*filepath', 5)[0]).toEqual({
+        path: '/files/{filepath}',
+        parameters: [{ name: 'filepath', description: 'Wildcard path segment(s)' }],
+      });
+    });
+
+    it('keeps escaped characters as literals', () => {
+      expect(convertExpressPath('/price\\:usd', 5)[0].path).toBe('/price:usd');
+    });
+  });
+});
+
+describe('regexToExpressPaths', () => {
+  it('turns capture groups into parameters', () => {
+    expect(regexToExpressPaths('^\\/users\\/(\\d+)$')).toEqual(['/users/:0(\\d+)']);
+    expect(regexToExpressPaths('^\\/users\\/(?<id>\\d+)$')).toEqual(['/users/:id(\\d+)']);
+  });
+
+  it('produces one path per top-level alternative', () => {
+    expect(regexToExpressPaths('^\\/(?:a)$|^\\/b$')).toEqual(['/b']);
+    expect(regexToExpressPaths('^\\/a$|^\\/b$')).toEqual(['/a', '/b']);
+  });
+
+  it('gives up on expressions that are not paths', () => {
+    expect(regexToExpressPaths('^\\/[a-z]+$')).toEqual([]);
+  });
+
+  it('produces paths the Express 4 tokenizer converts', () => {
+    const [expressPath] = regexToExpressPaths('^\\/users\\/(\\d+)$');
+    expect(convertExpressPath(expressPath, 4)).toEqual([
+      { path: '/users/{0}', parameters: [{ name: '0', pattern: '^\\d+$' }] },
+    ]);
+  });
+});
+
+describe('resolveExpressVersion', () => {
+  it('uses the configured version', () => {
+    expect(resolveExpressVersion(5)).toBe(5);
+    expect(resolveExpressVersion(4)).toBe(4);
+  });
+});
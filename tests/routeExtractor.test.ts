@@ -0,0 +1,345 @@
+import * as ts from 'typescript';
+import {
+  DEFAULT_ALL_METHODS,
+  DEFAULT_HANDLER_WRAPPERS,
+  extractRoutesFromAst,
+  RouteExtractionOptions,
+} from '../src/routeExtractor';
+
+const extract = (code: string, basePath = '', extraction: Partial<RouteExtractionOptions> = {}) =>
+  extractRoutesFromAst(ts, code, basePath, undefined, {
+    expressVersion: 4,
+    allMethods: DEFAULT_ALL_METHODS,
+    handlerWrappers: DEFAULT_HANDLER_WRAPPERS,
+    ...extraction,
+  });
+
+const summarize = (code: string, basePath = '', extraction: Partial<RouteExtractionOptions> = {}) =>
+  extract(code, basePath, extraction).map(route => `${route.method} ${route.path}`);
+
+describe('extractRoutesFromAst', () => {
+  it('finds route calls with their middleware and handler', () => {
+    const code = `
+      const router = express.Router();
+      router.post('/users/:id', authenticate, validate(userSchemas.update), usersController.update);
+    `;
+    expect(extract(code, '/api')).toEqual([
+      {
+        method: 'POST',
+        path: '/api/users/{id}',
+        handlerName: 'usersController.update',
+        controllerMethod: 'update',
+        hasAuth: true,
+        middleware: ['authenticate', 'validate(userSchemas.update)'],
+        validatorSchema: 'userSchemas.update',
+        validators: [{ segment: 'body', schemaRef: 'userSchemas.update' }],
+        pathParameters: [{ name: 'id' }],
+      },
+    ]);
+  });
+
+  it('ignores commented-out routes and parentheses inside strings', () => {
+    const code = `
+      const router = express.Router();
+      // router.get('/old', legacy.list);
+      /* router.delete('/old/:id', legacy.remove); */
+      router.get('/search', validate(searchSchema, 'query (strict)'), search.run);
+    `;
+    const routes = extract(code);
+    expect(routes.map(route => `${route.method} ${route.path}`)).toEqual(['GET /search']);
+    expect(routes[0].controllerMethod).toBe('run');
+  });
+
+  it('resolves template-literal paths and string constants', () => {
+    const code = `
+      const BASE = '/orders';
+      const PATHS = { detail: '/orders/:id' };
+      const router = express.Router();
+      router.get(BASE, orders.list);
+      router.get(PATHS.detail, orders.show);
+      router.put(\`\${BASE}/:id/items/\${itemId}\`, orders.updateItem);
+    `;
+    expect(summarize(code)).toEqual(['GET /orders', 'GET /orders/{id}', 'PUT /orders/{id}/items/{itemId}']);
+  });
+
+  it('finds the handler behind bind() and inline functions', () => {
+    const code = `
+      const router = express.Router();
+      router.get('/a', controller.list.bind(controller));
+      router.get('/b', (req, res) => res.send('ok'));
+    `;
+    expect(extract(code).map(route => [route.handlerName, route.controllerMethod])).toEqual([
+      ['controller.list', 'list'],
+      ['anonymous', 'getB'],
+    ]);
+  });
+
+  it('shares the path of chained route() calls', () => {
+    const code = `
+      const router = express.Router();
+      router
+        .route('/books/:id')
+        .get(books.show)
+        .put(authenticate, books.update)
+        .delete(books.remove);
+    `;
+    const routes = extract(code);
+    expect(routes.map(route => `${route.method} ${route.path} ${route.controllerMethod}`)).toEqual([
+      'GET /books/{id} show',
+      'PUT /books/{id} update',
+      'DELETE /books/{id} remove',
+    ]);
+    expect(routes.map(route => route.hasAuth)).toEqual([false, true, false]);
+  });
+
+  it('finds routes on any router or app variable', () => {
+    const code = `
+      import express, { Router as createRouter } from 'express';
+      const app = express();
+      const users = createRouter();
+      app.get('/health', health);
+      users.post('/users', usersController.create);
+      notARouter.get('/ignored', handler);
+    `;
+    expect(summarize(code, '/api')).toEqual(['GET /api/health', 'POST /api/users']);
+  });
+
+  it('recognizes routers by their type annotation', () => {
+    const code = `
+      import { Router } from 'express';
+      export function registerRoutes(api: Router) {
+        api.delete('/sessions/:id', sessions.remove);
+      }
+      class OrderRoutes {
+        private router: Router;
+        constructor() {
+          this.router.get('/orders', orders.list);
+        }
+      }
+    `;
+    expect(summarize(code)).toEqual(['DELETE /sessions/{id}', 'GET /orders']);
+  });
+
+  it('prefixes routes of routers mounted within the same file', () => {
+    const code = `
+      const router = Router();
+      const admin = Router();
+      router.use('/admin', admin);
+      admin.get('/stats', stats.show);
+      router.get('/status', status.show);
+    `;
+    expect(summarize(code, '/api')).toEqual(['GET /api/admin/stats', 'GET /api/status']);
+  });
+
+  it('documents every path of an array path with unique operationIds', () => {
+    const code = `
+      const router = Router();
+      router.get(['/items', '/products'], items.list);
+    `;
+    expect(extract(code).map(route => [route.path, route.operationId])).toEqual([
+      ['/items', undefined],
+      ['/products', 'list2'],
+    ]);
+  });
+
+  it('converts regular expression routes', () => {
+    const code = `
+      const router = Router();
+      router.get(/^\\/orders\\/(\\d+)$/, orders.show);
+    `;
+    expect(extract(code).map(route => [route.path, route.pathParameters])).toEqual([
+      ['/orders/{0}', [{ name: '0', pattern: '^\\d+$' }]],
+    ]);
+  });
+
+  it('reads paths with the syntax of the configured Express version', () => {
+    const code = `
+      const router = Router();
+      router.get('/files/*filepath', files.show);
+    `;
+    expect(summarize(code, '', { expressVersion: 5 })).toEqual(['GET /files/{filepath}']);
+  });
+
+  it('converts regular expression routes the same way for Express 5', () => {
+    const code = `
+      const router = Router();
+      router.get(/^\\/orders\\/(\\d+)$/, orders.show);
+    `;
+    expect(extract(code, '', { expressVersion: 5 }).map(route => [route.path, route.pathParameters])).toEqual([
+      ['/orders/{0}', [{ name: '0', pattern: '^\\d+$' }]],
+    ]);
+  });
+
+  it('expands all() into the configured methods', () => {
+    const code = `
+      const router = Router();
+      router.all('/ping', health.ping);
+      router.head('/status', health.status);
+      router.options('/status', health.options);
+    `;
+    const routes = extract(code, '', { allMethods: ['GET', 'POST'] });
+    expect(routes.map(route => [route.method, route.path, route.operationId])).toEqual([
+      ['GET', '/ping', 'getPing'],
+      ['POST', '/ping', 'postPing'],
+      ['HEAD', '/status', undefined],
+      ['OPTIONS', '/status', undefined],
+    ]);
+  });
+
+  it('unwraps asyncHandler-style wrappers around the handler', () => {
+    const code = `
+      const router = Router();
+      router.get('/users', asyncHandler(users.list));
+      router.post('/users', authenticate, catchAsync(users.create.bind(users)));
+      router.delete('/users/:id', safeRoute(users.remove));
+    `;
+    const routes = extract(code, '', { handlerWrappers: [...DEFAULT_HANDLER_WRAPPERS, 'safeRoute'] });
+    expect(routes.map(route => [route.handlerName, route.controllerMethod])).toEqual([
+      ['users.list', 'list'],
+      ['users.create', 'create'],
+      ['users.remove', 'remove'],
+    ]);
+  });
+
+  it('detects local functions that return a handler as wrappers', () => {
+    const code = `
+      const wrap = (fn) => (req, res, next) => Promise.resolve(fn(req, res, next)).catch(next);
+      function guarded(fn) {
+        return async (req, res, next) => fn(req, res, next);
+      }
+      const router = Router();
+      router.get('/reports', wrap(reports.list));
+      router.get('/audits', guarded(audits.list));
+    `;
+    expect(extract(code).map(route => route.handlerName)).toEqual(['reports.list', 'audits.list']);
+  });
+
+  it('names handlers built by other calls after the route', () => {
+    const code = `
+      const router = Router();
+      router.post('/make', makeHandler(service));
+      router.get('/orders', orders.list.bind(orders));
+    `;
+    expect(extract(code).map(route => [route.handlerName, route.controllerMethod])).toEqual([
+      ['unknown', 'postMake'],
+      ['orders.list', 'list'],
+    ]);
+  });
+
+  it('applies router.use() middleware to the routes declared after it', () => {
+    const code = `
+      const router = Router();
+      router.get('/status', status.show);
+      router.use(authenticate);
+      router.get('/profile', profile.show);
+      router.use('/admin', requireRole('admin'));
+      router.get('/admin/stats', stats.show);
+      router.get('/settings', settings.show);
+    `;
+    expect(extract(code).map(route => [route.path, route.middleware, route.hasAuth])).toEqual([
+      ['/status', [], false],
+      ['/profile', ['authenticate'], true],
+      ['/admin/stats', ['authenticate', "requireRole('admin')"], true],
+      ['/settings', ['authenticate'], true],
+    ]);
+  });
+
+  it('puts the middleware of the mount site first', () => {
+    const code = `
+      const router = Router();
+      router.get('/orders', validate(listSchema), orders.list);
+    `;
+    expect(extract(code, '', { inheritedMiddleware: ['authenticate'] })[0].middleware).toEqual([
+      'authenticate',
+      'validate(listSchema)',
+    ]);
+  });
+
+  it('records the request part each validator applies to', () => {
+    const code = `
+      const router = Router();
+      router.get('/orders', validate(orderSchemas.list, 'query'), validateParams(orderSchemas.params), orders.list);
+      router.put(
+        '/orders/:id',
+        celebrate({ [Segments.BODY]: orderSchemas.update, headers: tenantHeaders }),
+        orders.update
+      );
+    `;
+    const [list, update] = extract(code);
+
+    expect(list.validators).toEqual([
+      { segment: 'query', schemaRef: 'orderSchemas.list' },
+      { segment: 'params', schemaRef: 'orderSchemas.params' },
+    ]);
+    expect(list.validatorSchema).toBeUndefined();
+    expect(update.validators).toEqual([
+      { segment: 'body', schemaRef: 'orderSchemas.update', library: 'joi' },
+      { segment: 'headers', schemaRef: 'tenantHeaders', library: 'joi' },
+    ]);
+    expect(update.validatorSchema).toBe('orderSchemas.update');
+  });
+
+  it('marks Zod validator middleware', () => {
+    const code = `
+      const router = Router();
+      router.post('/users', zodMiddleware(createUserSchema), users.create);
+      router.get('/users', validateRequest({ query: listQuerySchema }), users.list);
+      router.put('/users/:id', validateRequestParams(idParamsSchema), validateRequestBody(updateUserSchema), users.update);
+    `;
+
+    expect(extract(code).map(route => route.validators)).toEqual([
+      [{ segment: 'body', schemaRef: 'createUserSchema', library: 'zod' }],
+      [{ segment: 'query', schemaRef: 'listQuerySchema', library: 'zod' }],
+      [
+        { segment: 'params', schemaRef: 'idParamsSchema', library: 'zod' },
+        { segment: 'body', schemaRef: 'updateUserSchema', library: 'zod' },
+      ],
+    ]);
+  });
+
+  it('groups express-validator chains by request part', () => {
+    const code = `
+      import { body, query } from 'express-validator';
+      const router = Router();
+      router.post(
+        '/signup',
+        body('email').isEmail(),
+        [body('password').isLength({ min: 8 })],
+        query('invite').optional().isString(),
+        signup.create
+      );
+    `;
+
+    expect(extract(code)[0].validators).toEqual([
+      {
+        segment: 'body',
+        schemaRef: "[body('email').isEmail(), [body('password').isLength({ min: 8 })]]",
+        library: 'express-validator',
+      },
+      { segment: 'query', schemaRef: "query('invite').optional().isString()", library: 'express-validator' },
+    ]);
+  });
+
+  it('marks class-validator DTO middleware', () => {
+    const code = `
+      const router = Router();
+      router.get('/customers', validationMiddleware(ListCustomersQuery, 'query'), customers.list);
+      router.post('/customers', validateDto(CreateCustomerDto), customers.create);
+    `;
+
+    expect(extract(code).map(route => route.validators)).toEqual([
+      [{ segment: 'query', schemaRef: 'ListCustomersQuery', library: 'class-validator' }],
+      [{ segment: 'body', schemaRef: 'CreateCustomerDto', library: 'class-validator' }],
+    ]);
+  });
+
+  it('derives hasAuth from the configured security middleware', () => {
+    const code = `
+      const router = Router();
+      router.get('/keys', requireApiKey, keys.list);
+      router.get('/legacy', authenticate, legacy.list);
+    `;
+    const routes = extract(code, '', { security: { securityMiddleware: { requireApiKey: 'apiKey' } } });
+    expect(routes.map(route => route.hasAuth)).toEqual([true, false]);
+  });
+});
@@ -0,0 +1,156 @@
+import { swaggerifyApp } from '../src/index';
+import { discoverRuntimeRoutes, getRouteMatchKey } from '../src/runtimeDiscovery';
+
+// eslint-disable-next-line @typescript-eslint/no-var-requires
+const expressVersions: Array<[number, any]> = [[4, require('express4')], [5, require('express')]];
+
+const noop = (req: any, res: any, next: any) => next();
+function authenticate(req: any, res: any, next: any) { next(); }
+function listUsers(req: any, res: any) { res.end(); }
+function createOrder(req: any, res: any) { res.end(); }
+function deleteOrder(req: any, res: any) { res.end(); }
+function listReports(req: any, res: any) { res.end(); }
+function ping(req: any, res: any) { res.end(); }
+
+describe.each(expressVersions)('discoverRuntimeRoutes (Express %i)', (version, express) => {
+  it('finds routes of nested routers with their mount paths', () => {
+    const app = express();
+    const users = express.Router();
+    users.get('/:id', authenticate, listUsers);
+    app.use('/api/users', users);
+
+    const knownPaths = version === 5 ? ['/api/users/{id}'] : [];
+    expect(discoverRuntimeRoutes(app, undefined, knownPaths)).toEqual([
+      {
+        method: 'GET',
+        path: '/api/users/{id}',
+        pathParameters: [{ name: 'id' }],
+        handlerName: 'listUsers',
+        middleware: ['authenticate'],
+      },
+    ]);
+  });
+
+  it('finds routes registered in loops', () => {
+    const app = express();
+    ['daily', 'weekly'].forEach(period => app.get(`/reports/${period}`, listReports));
+
+    expect(discoverRuntimeRoutes(app).map(route => `${route.method} ${route.path}`)).toEqual([
+      'GET /reports/daily',
+      'GET /reports/weekly',
+    ]);
+  });
+
+  it('takes the handler and middleware of each method of a route', () => {
+    const app = express();
+    app.route('/orders').post(authenticate, createOrder).delete(deleteOrder);
+
+    expect(discoverRuntimeRoutes(app).map(route => [route.method, route.handlerName, route.middleware])).toEqual([
+      ['POST', 'createOrder', ['authenticate']],
+      ['DELETE', 'deleteOrder', []],
+    ]);
+  });
+
+  it('shares route.all() middleware with every method', () => {
+    const app = express();
+    app.route('/orders').all(authenticate).post(createOrder);
+
+    expect(discoverRuntimeRoutes(app, ['GET', 'POST']).find(route => route.method === 'POST')).toMatchObject({
+      handlerName: 'createOrder',
+      middleware: ['authenticate'],
+    });
+  });
+
+  it('documents app.all() with its handler alone', () => {
+    const app = express();
+    app.all('/ping', ping);
+
+    const routes = discoverRuntimeRoutes(app, ['GET', 'POST']);
+    expect(routes.length).toBeGreaterThan(0);
+    routes.forEach(route => {
+      expect(route.handlerName).toBe('ping');
+      expect(route.middleware).toEqual([]);
+    });
+  });
+
+  it('applies app.use() and router.use() middleware to the routes registered after it', () => {
+    const app = express();
+    const admin = express.Router();
+    admin.use(function requireAdmin(req: any, res: any, next: any) { next(); });
+    admin.get('/stats', listReports);
+    app.get('/health', ping);
+    app.use(authenticate);
+    app.use('/admin', admin);
+    app.get('/users', listUsers);
+    app.use('/orders', function audit(req: any, res: any, next: any) { next(); });
+    app.post('/orders', createOrder);
+    app.delete('/users', deleteOrder);
+
+    // Express 5 layers only give their mount path away when matched against known paths
+    const knownPaths = ['/admin/stats', '/orders'];
+    expect(discoverRuntimeRoutes(app, undefined, knownPaths).map(route => [route.method, route.path, route.middleware])).toEqual([
+      ['GET', '/health', []],
+      ['GET', '/admin/stats', ['authenticate', 'requireAdmin']],
+      ['GET', '/users', ['authenticate']],
+      ['POST', '/orders', ['authenticate', 'audit']],
+      ['DELETE', '/users', ['authenticate']],
+    ]);
+  });
+
+  it('warns and returns nothing for objects without a router stack', () => {
+    expect(discoverRuntimeRoutes({ use: noop })).toEqual([]);
+  });
+});
+
+describe('discoverRuntimeRoutes (Express version)', () => {
+  it('reads an Express 4 router with the Express 4 path syntax', () => {
+    const router = expressVersions[0][1].Router();
+    router.get('/items/:id?', listReports);
+    router.get('/files/*', listReports);
+
+    expect(discoverRuntimeRoutes(router)).toEqual([
+      { method: 'GET', path: '/items/{id}', pathParameters: [{ name: 'id' }], handlerName: 'listReports', middleware: [] },
+      { method: 'GET', path: '/items', pathParameters: [], handlerName: 'listReports', middleware: [] },
+      {
+        method: 'GET',
+        path: '/files/{wildcard}',
+        pathParameters: [{ name: 'wildcard', description: 'Wildcard path segment(s)' }],
+        handlerName: 'listReports',
+        middleware: [],
+      },
+    ]);
+  });
+
+  it('reads an Express 5 router with the Express 5 path syntax', () => {
+    const router = expressVersions[1][1].Router();
+    router.get('/files/*filepath', listReports);
+
+    expect(discoverRuntimeRoutes(router).map(route => route.path)).toEqual(['/files/{filepath}']);
+  });
+});
+
+describe('swaggerifyApp', () => {
+  it('secures runtime-only routes behind app.use() authentication', async () => {
+    const express = expressVersions[1][1];
+    const app = express();
+    app.get('/status', ping);
+    app.use(authenticate);
+    app.get('/reports/monthly', listReports);
+
+    const endpoints = await swaggerifyApp(app, {
+      routesDir: 'tests/fixtures/mounts/routes/admin/reports',
+      basePath: '',
+      expressVersion: 5,
+    });
+    const security = (routePath: string) => endpoints.find(endpoint => endpoint.path === routePath)?.security;
+
+    expect(security('/status')).toEqual([]);
+    expect(security('/reports/monthly')).toEqual([{ bearerAuth: [] }]);
+  });
+});
+
+describe('getRouteMatchKey', () => {
+  it('ignores parameter names', () => {
+    expect(getRouteMatchKey('get', '/users/{id}')).toBe(getRouteMatchKey('GET', '/users/{userId}'));
+  });
+});
@@ -0,0 +1,127 @@
+import { generateSwaggerDocs } from '../src/index';
+import { generateSwaggerEndpoint } from '../src/generator';
+import { middlewareMatches, resolveRouteAuthorization, resolveRouteSecurity } from '../src/security';
+import { RouteInfo } from '../src/types';
+
+describe('resolveRouteSecurity', () => {
+  const securityMiddleware = {
+    "passport.authenticate('jwt')": ['bearerAuth', 'cookieAuth'],
+    requireApiKey: 'apiKey',
+  };
+
+  it('maps middleware to their security schemes', () => {
+    expect(resolveRouteSecurity(['requireApiKey'], { securityMiddleware })).toEqual([{ apiKey: [] }]);
+    expect(resolveRouteSecurity(['rateLimit()'], { securityMiddleware })).toEqual([]);
+  });
+
+  it('treats the schemes of one middleware as alternatives and separate middleware as all required', () => {
+    expect(resolveRouteSecurity(["passport.authenticate('jwt', { session: false })"], { securityMiddleware })).toEqual([
+      { bearerAuth: [] },
+      { cookieAuth: [] },
+    ]);
+    expect(resolveRouteSecurity(["passport.authenticate('jwt')", 'requireApiKey'], { securityMiddleware })).toEqual([
+      { bearerAuth: [], apiKey: [] },
+      { cookieAuth: [], apiKey: [] },
+    ]);
+  });
+
+  it('falls back to the authenticate/requireAdmin detection without a mapping', () => {
+    expect(resolveRouteSecurity(['authenticate'], {})).toEqual([{ bearerAuth: [] }]);
+    expect(resolveRouteSecurity(['requireAdmin'], { securitySchemes: { session: { type: 'apiKey' } } })).toEqual([
+      { session: [] },
+    ]);
+    expect(resolveRouteSecurity(['validate(schema)'], {})).toEqual([]);
+  });
+});
+
+describe('middlewareMatches', () => {
+  it('matches bare names, calls and member access', () => {
+    expect(middlewareMatches('requireApiKey()', 'requireApiKey')).toBe(true);
+    expect(middlewareMatches('auth.requireApiKey', 'requireApiKey')).toBe(true);
+    expect(middlewareMatches('requireApiKeys', 'requireApiKey')).toBe(false);
+  });
+
+  it('compares call arguments by their start, ignoring quote style', () => {
+    expect(middlewareMatches('passport.authenticate("jwt", { session: false })', "passport.authenticate('jwt')")).toBe(true);
+    expect(middlewareMatches("passport.authenticate('local')", "passport.authenticate('jwt')")).toBe(false);
+  });
+});
+
+describe('generateSwaggerDocs security', () => {
+  const endpoint = { method: 'GET', path: '/keys', summary: 'List keys', description: 'GET /keys', operationId: 'listKeys', tags: ['keys'] };
+
+  it('writes the configured schemes and each operation its own requirements', async () => {
+    const securitySchemes = { apiKey: { type: 'apiKey', in: 'header', name: 'X-API-Key' } };
+    const docs = await generateSwaggerDocs(
+      [
+        { ...endpoint, security: [{ apiKey: [] }], noAuth: false },
+        { ...endpoint, path: '/health', operationId: 'health', security: [], noAuth: true },
+      ] as any,
+      { securitySchemes }
+    );
+
+    expect(docs.components.securitySchemes).toEqual(securitySchemes);
+    expect(docs.paths['/keys'].get.security).toEqual([{ apiKey: [] }]);
+    expect(docs.paths['/health'].get.security).toEqual([]);
+  });
+
+  it('leaves out the default requirement when no schemes are configured', async () => {
+    const docs = await generateSwaggerDocs([{ ...endpoint, noAuth: false }] as any, { securitySchemes: {} });
+
+    expect(docs.security).toBeUndefined();
+    expect(docs.paths['/keys'].get.security).toBeUndefined();
+  });
+});
+
+describe('resolveRouteAuthorization', () => {
+  it('reads scopes and roles from the arguments of authorization middleware', () => {
+    expect(
+      resolveRouteAuthorization(["requireScope('orders:write')", "requireRole('admin', \"support\")", "authorize(['billing'])"], {})
+    ).toEqual({ scopes: ['orders:write'], roles: ['admin', 'support', 'billing'] });
+  });
+
+  it('uses configured authorization middleware', () => {
+    expect(resolveRouteAuthorization(["needsPermission('reports:read')"], { authorizationMiddleware: { needsPermission: 'scopes' } }))
+      .toEqual({ scopes: ['reports:read'], roles: [] });
+  });
+});
+
+describe('resolveRouteSecurity with scopes', () => {
+  const securitySchemes = {
+    bearerAuth: { type: 'http', scheme: 'bearer' },
+    oauth: { type: 'oauth2', flows: {} },
+  };
+
+  it('adds scopes to OAuth2 schemes only', () => {
+    const securityMiddleware = { authenticate: ['bearerAuth', 'oauth'] };
+    expect(resolveRouteSecurity(['authenticate', "requireScope('orders:write')"], { securitySchemes, securityMiddleware })).toEqual([
+      { bearerAuth: [] },
+      { oauth: ['orders:write'] },
+    ]);
+  });
+
+  it('implies authentication for authorization middleware on its own', () => {
+    expect(resolveRouteSecurity(["requireScope('orders:read')"], { securitySchemes })).toEqual([{ oauth: ['orders:read'] }]);
+    expect(resolveRouteSecurity(["requireRole('admin')"], { securitySchemes })).toEqual([{ bearerAuth: [] }]);
+  });
+});
+
+describe('generateSwaggerEndpoint authorization', () => {
+  const route: RouteInfo = {
+    method: 'DELETE',
+    path: '/orders/{id}',
+    handlerName: 'orders.remove',
+    controllerMethod: 'remove',
+    hasAuth: true,
+    middleware: ['authenticate', "requireRole('admin')"],
+    pathParameters: [{ name: 'id' }],
+  };
+
+  it('documents a 403 response and the required roles', async () => {
+    const endpoint = eval(`(${await generateSwaggerEndpoint(route, { statusCodes: [204] })})`);
+
+    expect(Object.keys(endpoint.responses)).toEqual(['204', '401', '403']);
+    expect(endpoint.requiredRoles).toEqual(['admin']);
+  });
+});
+
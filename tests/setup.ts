@@ -0,0 +1,8 @@
+// The extractors report their progress with console.log - keep it out of the test output
+beforeEach(() => {
+  jest.spyOn(console, 'log').mockImplementation(() => undefined);
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
@@ -0,0 +1,22 @@
+import * as path from 'path';
+import { loadTypesFromDirectory } from '../src/typeExtractor';
+
+const typesDir = path.relative(process.cwd(), path.join(__dirname, 'fixtures', 'javascript', 'types'));
+
+describe('loadTypesFromDirectory', () => {
+  it('turns JSDoc typedefs of JavaScript files into schemas', async () => {
+    const schemas = await loadTypesFromDirectory(typesDir);
+
+    expect(schemas.LoginResponse).toEqual({
+      type: 'object',
+      properties: {
+        token: { type: 'string' },
+        expiresIn: { type: 'number' },
+        refreshToken: { type: 'string' },
+      },
+      additionalProperties: false,
+      required: ['token', 'expiresIn'],
+    });
+    expect(Object.keys(schemas).sort()).toEqual(['LoginResponse', 'ProfileUpdate']);
+  });
+});
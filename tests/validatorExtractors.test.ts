@@ -0,0 +1,41 @@
+import * as path from 'path';
+import { loadValidatorSchema } from '../src/validatorExtractors';
+
+const routeFile = path.join(__dirname, 'fixtures', 'validators', 'routes.ts');
+
+describe('loadValidatorSchema', () => {
+  it('detects the library of a generic validate() schema', async () => {
+    const yupResult = await loadValidatorSchema({ segment: 'body', schemaRef: 'createPostSchema' }, routeFile, {});
+    expect(yupResult?.schema.properties.title).toEqual({ type: 'string', maxLength: 120 });
+
+    const zodResult = await loadValidatorSchema({ segment: 'query', schemaRef: 'listQuerySchema' }, routeFile, {});
+    expect(zodResult?.schema.properties.page).toEqual({ type: 'integer', minimum: 1, default: 1 });
+  });
+
+  it('falls back to Joi for schemas no other extractor detects', async () => {
+    const result = await loadValidatorSchema({ segment: 'body', schemaRef: 'loginSchema' }, routeFile, {});
+    expect(Object.keys(result?.schema.properties)).toEqual(['email', 'password']);
+  });
+
+  it('uses the library named by the validator call', async () => {
+    const result = await loadValidatorSchema(
+      { segment: 'body', schemaRef: 'CreateCustomerDto', library: 'class-validator' },
+      routeFile,
+      {}
+    );
+    expect(result?.typeName).toBe('CreateCustomerDto');
+  });
+
+  it('tries configured extractors before the built-in ones', async () => {
+    const result = await loadValidatorSchema({ segment: 'body', schemaRef: 'createPostSchema' }, routeFile, {
+      validatorExtractors: [
+        {
+          library: 'custom',
+          detect: ({ schemaRef }) => schemaRef === 'createPostSchema',
+          load: () => ({ schema: { type: 'object', 'x-custom': true } }),
+        },
+      ],
+    });
+    expect(result).toEqual({ schema: { type: 'object', 'x-custom': true } });
+  });
+});
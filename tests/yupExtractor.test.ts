@@ -0,0 +1,26 @@
+import * as path from 'path';
+import { isYupValidator, loadYupSchemaFromValidator } from '../src/yupExtractor';
+
+const routeFile = path.join(__dirname, 'fixtures', 'validators', 'routes.ts');
+
+describe('loadYupSchemaFromValidator', () => {
+  it('converts a Yup object schema', async () => {
+    expect(await loadYupSchemaFromValidator('createPostSchema', routeFile)).toEqual({
+      schema: {
+        type: 'object',
+        properties: {
+          title: { type: 'string', maxLength: 120 },
+          body: { type: 'string' },
+          tags: { type: 'array', items: { type: 'string' }, minItems: 1 },
+          status: { enum: ['draft', 'published'] },
+        },
+        required: ['title'],
+      },
+    });
+  });
+
+  it('detects Yup schemas only', async () => {
+    expect(await isYupValidator('createPostSchema', routeFile)).toBe(true);
+    expect(await isYupValidator('createUserSchema', routeFile)).toBe(false);
+  });
+});
@@ -0,0 +1,35 @@
+import * as path from 'path';
+import { isZodValidator, loadZodSchemaFromValidator } from '../src/zodExtractor';
+
+const routeFile = path.join(__dirname, 'fixtures', 'validators', 'routes.ts');
+
+describe('loadZodSchemaFromValidator', () => {
+  it('converts a Zod object schema, named after its inferred type', async () => {
+    expect(await loadZodSchemaFromValidator('createUserSchema', routeFile)).toEqual({
+      schema: {
+        type: 'object',
+        properties: {
+          email: { type: 'string', format: 'email' },
+          name: { type: 'string', minLength: 2, maxLength: 50 },
+          role: { type: 'string', enum: ['user', 'admin'], default: 'user' },
+          age: { type: 'integer', minimum: 0, exclusiveMinimum: true, nullable: true },
+        },
+        required: ['email', 'age'],
+      },
+      typeName: 'CreateUserInput',
+    });
+  });
+
+  it('leaves fields with defaults out of required', async () => {
+    const result = await loadZodSchemaFromValidator('listQuerySchema', routeFile);
+    expect(result?.schema).toEqual({
+      type: 'object',
+      properties: { page: { type: 'integer', minimum: 1, default: 1 } },
+    });
+  });
+
+  it('detects Zod schemas only', async () => {
+    expect(await isZodValidator('createUserSchema', routeFile)).toBe(true);
+    expect(await isZodValidator('loginSchema', routeFile)).toBe(false);
+  });
+});